@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import {
+    CachePolicy,
+    UpstreamError,
+    buildCacheKey,
+    cacheHeaders,
+    getCached,
+} from '@/lib/responseCache';
+import { fetchUpstream } from '@/lib/upstream';
+
+// Books move quickly; keep the cache short so depth stays close to live
+const CACHE_POLICY: CachePolicy = { ttlMs: 5_000, staleMs: 15_000 };
+
+export async function GET(request: Request) {
+    const { searchParams } = new URL(request.url);
+    const tokenId = searchParams.get('token');
+
+    if (!tokenId) {
+        return NextResponse.json({ error: 'Missing token parameter' }, { status: 400 });
+    }
+
+    // Build query params for Polymarket CLOB API
+    const params = new URLSearchParams();
+    params.set('token_id', tokenId);
+
+    try {
+        const result = await getCached(
+            buildCacheKey('book', params),
+            () =>
+                fetchUpstream('clob', '/book', params, {
+                    headers: {
+                        'Accept': 'application/json',
+                    },
+                    signal: AbortSignal.timeout(10000), // 10s timeout
+                }),
+            CACHE_POLICY
+        );
+        return NextResponse.json(result.data, { headers: cacheHeaders(result, CACHE_POLICY) });
+    } catch (error) {
+        if (error instanceof UpstreamError) {
+            return NextResponse.json(
+                { error: error.message, details: error.details },
+                { status: error.status }
+            );
+        }
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        return NextResponse.json(
+            { error: 'Upstream fetch failed', details: message },
+            { status: 502 }
+        );
+    }
+}
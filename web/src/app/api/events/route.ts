@@ -1,20 +1,31 @@
 import { NextResponse } from 'next/server';
+import {
+    CachePolicy,
+    UpstreamError,
+    buildCacheKey,
+    cacheHeaders,
+    getCached,
+} from '@/lib/responseCache';
+import { fetchUpstream } from '@/lib/upstream';
 
-const BASE_URL = 'https://gamma-api.polymarket.com';
+// Clients poll every 15s; a 10s TTL lets all open tabs share one upstream fetch
+const CACHE_POLICY: CachePolicy = { ttlMs: 10_000, staleMs: 60_000 };
 
 export async function GET(request: Request) {
     const { searchParams } = new URL(request.url);
-    // Forward all query params to the events endpoint
-    const targetUrl = `${BASE_URL}/events?${searchParams.toString()}`;
 
     try {
-        const res = await fetch(targetUrl);
-        if (!res.ok) {
-            return NextResponse.json({ error: res.statusText }, { status: res.status });
+        const result = await getCached(
+            buildCacheKey('events', searchParams),
+            // Forward all query params to the events endpoint
+            () => fetchUpstream('gamma', '/events', searchParams),
+            CACHE_POLICY
+        );
+        return NextResponse.json(result.data, { headers: cacheHeaders(result, CACHE_POLICY) });
+    } catch (error) {
+        if (error instanceof UpstreamError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
         }
-        const data = await res.json();
-        return NextResponse.json(data);
-    } catch {
         return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
     }
 }
@@ -1,11 +1,22 @@
 import { NextResponse } from 'next/server';
-
-const BASE_URL = 'https://clob.polymarket.com';
+import {
+    CachePolicy,
+    UpstreamError,
+    buildCacheKey,
+    cacheHeaders,
+    getCached,
+} from '@/lib/responseCache';
+import { fetchUpstream } from '@/lib/upstream';
+
+// Price history changes slowly and clients refresh it every 60s
+const CACHE_POLICY: CachePolicy = { ttlMs: 60_000, staleMs: 300_000 };
 
 export async function GET(request: Request) {
     const { searchParams } = new URL(request.url);
     const tokenId = searchParams.get('token');
-    const interval = searchParams.get('interval') || '1d'; // 1h, 1d, 1w, etc.
+    const interval = searchParams.get('interval') || '1d'; // 1h, 1d, 1w, 1m, max
+    const startTs = searchParams.get('startTs'); // seconds; overrides interval
+    const endTs = searchParams.get('endTs');
     const fidelity = searchParams.get('fidelity') || '60'; // minutes
 
     if (!tokenId) {
@@ -15,30 +26,34 @@ export async function GET(request: Request) {
     // Build query params for Polymarket CLOB API
     const params = new URLSearchParams();
     params.set('market', tokenId);
-    params.set('interval', interval);
+    if (startTs || endTs) {
+        if (startTs) params.set('startTs', startTs);
+        if (endTs) params.set('endTs', endTs);
+    } else {
+        params.set('interval', interval);
+    }
     params.set('fidelity', fidelity);
 
-    const targetUrl = `${BASE_URL}/prices-history?${params.toString()}`;
-
     try {
-        const res = await fetch(targetUrl, {
-            headers: {
-                'Accept': 'application/json',
-            },
-            signal: AbortSignal.timeout(10000), // 10s timeout
-        });
-
-        if (!res.ok) {
-            const errorText = await res.text().catch(() => '');
+        const result = await getCached(
+            buildCacheKey('prices-history', params),
+            () =>
+                fetchUpstream('clob', '/prices-history', params, {
+                    headers: {
+                        'Accept': 'application/json',
+                    },
+                    signal: AbortSignal.timeout(10000), // 10s timeout
+                }),
+            CACHE_POLICY
+        );
+        return NextResponse.json(result.data, { headers: cacheHeaders(result, CACHE_POLICY) });
+    } catch (error) {
+        if (error instanceof UpstreamError) {
             return NextResponse.json(
-                { error: res.statusText, details: errorText },
-                { status: res.status }
+                { error: error.message, details: error.details },
+                { status: error.status }
             );
         }
-
-        const data = await res.json();
-        return NextResponse.json(data);
-    } catch (error) {
         const message = error instanceof Error ? error.message : 'Unknown error';
         return NextResponse.json(
             { error: 'Upstream fetch failed', details: message },
@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server';
+import {
+    CachePolicy,
+    UpstreamError,
+    buildCacheKey,
+    cacheHeaders,
+    getCached,
+} from '@/lib/responseCache';
+import { fetchUpstream } from '@/lib/upstream';
+
+// Trade tapes refresh every 10s on the client
+const CACHE_POLICY: CachePolicy = { ttlMs: 10_000, staleMs: 30_000 };
+
+const MAX_LIMIT = 200;
+
+interface RawTrade {
+    asset: string;
+}
+
+export async function GET(request: Request) {
+    const { searchParams } = new URL(request.url);
+    const conditionId = searchParams.get('market');
+    const tokenId = searchParams.get('asset');
+    const limit = Math.min(Number(searchParams.get('limit')) || 50, MAX_LIMIT);
+
+    if (!conditionId) {
+        return NextResponse.json({ error: 'Missing market parameter' }, { status: 400 });
+    }
+
+    // Build query params for Polymarket Data API
+    const params = new URLSearchParams();
+    params.set('market', conditionId);
+    // With `asset` (a CLOB token id) only that token's fills are returned; the
+    // upstream API can't filter by token, so a full page is fetched and filtered
+    params.set('limit', String(tokenId ? MAX_LIMIT : limit));
+    params.set('takerOnly', 'true');
+
+    const cacheParams = new URLSearchParams(params);
+    if (tokenId) {
+        cacheParams.set('asset', tokenId);
+        cacheParams.set('limit', String(limit));
+    }
+
+    try {
+        const result = await getCached(
+            buildCacheKey('trades', cacheParams),
+            async () => {
+                const trades = await fetchUpstream<RawTrade[]>('data', '/trades', params, {
+                    headers: {
+                        'Accept': 'application/json',
+                    },
+                    signal: AbortSignal.timeout(10000), // 10s timeout
+                });
+                if (!tokenId || !Array.isArray(trades)) return trades;
+                return trades.filter((trade) => trade.asset === tokenId).slice(0, limit);
+            },
+            CACHE_POLICY
+        );
+        return NextResponse.json(result.data, { headers: cacheHeaders(result, CACHE_POLICY) });
+    } catch (error) {
+        if (error instanceof UpstreamError) {
+            return NextResponse.json(
+                { error: error.message, details: error.details },
+                { status: error.status }
+            );
+        }
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        return NextResponse.json(
+            { error: 'Upstream fetch failed', details: message },
+            { status: 502 }
+        );
+    }
+}
@@ -1,15 +1,28 @@
 'use client';
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, Suspense } from 'react';
 import HeatMap from '@/components/viz/HeatMap';
 import WorldMap from '@/components/viz/WorldMap';
 import { DependencyMap } from '@/components/viz/DependencyMap';
+import Inconsistencies from '@/components/viz/Inconsistencies';
+import { EntityExplorer } from '@/components/viz/EntityExplorer';
+import CorrelationMatrix from '@/components/viz/CorrelationMatrix';
 import Breadcrumb from '@/components/nav/Breadcrumb';
 import TabNavigation from '@/components/nav/TabNavigation';
+import ReplayScrubber from '@/components/nav/ReplayScrubber';
 import EventPanel from '@/components/panels/EventPanel';
 import ClusterPanel from '@/components/panels/ClusterPanel';
+import MoversPanel from '@/components/panels/MoversPanel';
+import WatchlistView from '@/components/watchlist/WatchlistView';
+import AlertsPanel from '@/components/alerts/AlertsPanel';
 import { useEventData } from '@/hooks/useEventData';
 import { useGeoEnrichedEvents } from '@/hooks/useGeoEnrichedEvents';
+import { useMovers } from '@/hooks/useMovers';
+import { useAlerts } from '@/hooks/useAlerts';
+import { usePriceChanges } from '@/hooks/usePriceChanges';
+import { useUrlState } from '@/hooks/useUrlState';
+import { getCategoryName } from '@/lib/categories';
+import { TriggeredAlert } from '@/lib/alerts';
 import {
     ViewState,
     ViewLevel,
@@ -21,19 +34,59 @@ import {
     ClusterPanelState,
     DependencyMapFilters,
     GeoEnrichedEvent,
+    ChangeRecord,
+    HeatMapColorMode,
+    SizeMetric,
+    TimeWindow,
 } from '@/lib/types';
-import { Settings2, ArrowLeft, Loader2 } from 'lucide-react';
+import { Settings2, ArrowLeft, Loader2, Activity, Bell } from 'lucide-react';
 import Image from 'next/image';
 
-export default function Home() {
-    // Heat Map state
-    const [minVolume, setMinVolume] = useState(100000);
-    const [viewState, setViewState] = useState<ViewState>({
-        level: 'category',
-    });
+const COLOR_MODES: Array<{ id: HeatMapColorMode; label: string }> = [
+    { id: 'activity', label: 'Activity' },
+    { id: 'change', label: 'Change' },
+];
+
+const CHANGE_WINDOWS: TimeWindow[] = ['1h', '24h', '7d'];
+
+const SIZE_METRICS: Array<{ id: SizeMetric; label: string }> = [
+    { id: 'volume', label: 'Total Volume' },
+    { id: 'volume24h', label: '24h Volume' },
+    { id: 'liquidity', label: 'Liquidity' },
+    { id: 'openInterest', label: 'Open Interest' },
+    { id: 'marketCount', label: 'Market Count' },
+    { id: 'equal', label: 'Equal' },
+];
 
-    // Tab state
-    const [activeTab, setActiveTab] = useState<TabId>('heatmap');
+// Markets don't report open interest, so the heat map sizes them by liquidity instead
+function getSizeMetricLabel(metric: SizeMetric, level: ViewLevel): string {
+    const label = SIZE_METRICS.find((option) => option.id === metric)?.label || 'Volume';
+    return metric === 'openInterest' && level === 'market' ? `${label} (liquidity for markets)` : label;
+}
+
+function Dashboard() {
+    // URL-backed state: tab, Heat Map drill-down & display settings, Dependency Map center & filters
+    const { state: urlState, updateState } = useUrlState();
+    const {
+        tab: activeTab,
+        minVolume,
+        sizeMetric,
+        colorMode,
+        changeWindow,
+        marketId: selectedMarketId,
+        entityId: selectedEntityId,
+        dependencyFilters,
+    } = urlState;
+
+    const setActiveTab = (tab: TabId) => updateState({ tab });
+    const setMinVolume = (value: number) => updateState({ minVolume: value }, 'replace');
+    const setSizeMetric = (metric: SizeMetric) => updateState({ sizeMetric: metric }, 'replace');
+    const setColorMode = (mode: HeatMapColorMode) => updateState({ colorMode: mode }, 'replace');
+    const setChangeWindow = (value: TimeWindow) => updateState({ changeWindow: value }, 'replace');
+    const setSelectedMarketId = (marketId: string | null) => updateState({ marketId });
+    const setSelectedEntityId = (entityId: string | null) => updateState({ entityId });
+    const setDependencyFilters = (filters: DependencyMapFilters) =>
+        updateState({ dependencyFilters: filters }, 'replace');
 
     // Panel state (for World Map)
     const [panelState, setPanelState] = useState<PanelState>({ isOpen: false });
@@ -44,22 +97,47 @@ export default function Home() {
         events: [],
     });
 
-    // Dependency Map state
-    const [selectedMarketId, setSelectedMarketId] = useState<string | null>(null);
-    const [dependencyFilters, setDependencyFilters] = useState<DependencyMapFilters>({
-        correlationThreshold: 0.6,
-        timeWindow: '24h',
-        dependencyType: 'all',
-        showCrossEvent: true,
-        maxEdges: 10,
-        minSharedEntities: 1,
-        maxDaysDiff: 14,
-    });
+    // Replay state (null = live data)
+    const [replaySnapshotId, setReplaySnapshotId] = useState<number | null>(null);
+
+    // Movers sidebar state
+    const [isMoversOpen, setIsMoversOpen] = useState(false);
+    const { totalCount: moversCount } = useMovers();
+
+    // Alerts sidebar state
+    const [isAlertsOpen, setIsAlertsOpen] = useState(false);
+    const { unreadCount: unreadAlerts, markAllRead: markAlertsRead } = useAlerts();
 
     // Data hooks
-    const { events, categories, getEventsForCategory, getEventById, isLoading } =
-        useEventData();
-    const { mappableEvents, getGeoEventById, geoStats } = useGeoEnrichedEvents();
+    const { events, liveEvents, categories, getEventsForCategory, getEventById, isLoading } =
+        useEventData(replaySnapshotId);
+    const { mappableEvents, getGeoEventById, geoStats } =
+        useGeoEnrichedEvents(replaySnapshotId);
+
+    // Heat Map drill-down, with display names resolved from ids
+    const viewState = useMemo((): ViewState => {
+        if (!urlState.categoryId) return { level: 'category' };
+
+        const selectedCategoryName =
+            categories.find((c) => c.id === urlState.categoryId)?.name ||
+            getCategoryName(urlState.categoryId);
+
+        if (!urlState.eventId) {
+            return {
+                level: 'event',
+                selectedCategoryId: urlState.categoryId,
+                selectedCategoryName,
+            };
+        }
+
+        return {
+            level: 'market',
+            selectedCategoryId: urlState.categoryId,
+            selectedCategoryName,
+            selectedEventId: urlState.eventId,
+            selectedEventTitle: events.find((e) => e.id === urlState.eventId)?.title || 'Event',
+        };
+    }, [urlState.categoryId, urlState.eventId, categories, events]);
 
     // Get the current data based on view level (for Heat Map)
     const currentData = useMemo(():
@@ -85,48 +163,39 @@ export default function Home() {
         }
     }, [viewState, categories, getEventsForCategory, getEventById]);
 
+    // Probability change per tile (only fetched in change color mode)
+    const { changes: priceChanges, isLoading: isChangesLoading } = usePriceChanges(
+        viewState.level,
+        currentData,
+        changeWindow,
+        viewState.level === 'category' ? 0 : minVolume,
+        activeTab === 'heatmap' && colorMode === 'change'
+    );
+
     // Handle node click for navigation (Heat Map)
     const handleNodeClick = (node: { id: string; name: string }) => {
         if (viewState.level === 'category') {
-            setViewState({
-                level: 'event',
-                selectedCategoryId: node.id,
-                selectedCategoryName: node.name,
-            });
+            updateState({ categoryId: node.id, eventId: null });
         } else if (viewState.level === 'event') {
-            const event = getEventById(node.id);
-            setViewState({
-                ...viewState,
-                level: 'market',
-                selectedEventId: node.id,
-                selectedEventTitle: event?.title || node.name,
-            });
+            updateState({ eventId: node.id });
         }
     };
 
     // Handle breadcrumb navigation
     const handleBreadcrumbNavigate = (level: ViewLevel) => {
         if (level === 'category') {
-            setViewState({ level: 'category' });
+            updateState({ categoryId: null, eventId: null });
         } else if (level === 'event' && viewState.selectedCategoryId) {
-            setViewState({
-                level: 'event',
-                selectedCategoryId: viewState.selectedCategoryId,
-                selectedCategoryName: viewState.selectedCategoryName,
-            });
+            updateState({ eventId: null });
         }
     };
 
     // Back button handler (Heat Map)
     const handleBack = () => {
         if (viewState.level === 'market') {
-            setViewState({
-                level: 'event',
-                selectedCategoryId: viewState.selectedCategoryId,
-                selectedCategoryName: viewState.selectedCategoryName,
-            });
+            updateState({ eventId: null });
         } else if (viewState.level === 'event') {
-            setViewState({ level: 'category' });
+            updateState({ categoryId: null, eventId: null });
         }
     };
 
@@ -157,6 +226,52 @@ export default function Home() {
         setPanelState({ isOpen: true, eventId });
     };
 
+    // Jump from a movers record to its market in the Heat Map
+    const handleMoverShowInHeatMap = (change: ChangeRecord) => {
+        setReplaySnapshotId(null);
+        updateState({
+            tab: 'heatmap',
+            categoryId: change.categoryId,
+            eventId: change.eventId,
+        });
+    };
+
+    // Jump from a movers record to its dependency graph
+    const handleMoverShowDependencies = (marketId: string) => {
+        setReplaySnapshotId(null);
+        updateState({ tab: 'dependency', marketId });
+    };
+
+    // Triggered alerts stay unread until the panel that showed them is closed
+    const toggleAlerts = () => {
+        if (isAlertsOpen) markAlertsRead();
+        setIsAlertsOpen(!isAlertsOpen);
+    };
+
+    // Jump from a triggered alert to its market in the Heat Map
+    const handleAlertShowInHeatMap = (alert: TriggeredAlert) => {
+        setReplaySnapshotId(null);
+        updateState({
+            tab: 'heatmap',
+            categoryId: alert.categoryId,
+            eventId: alert.eventId,
+        });
+    };
+
+    // Jump from a watchlist row to its event in the Heat Map
+    const handleWatchlistShowInHeatMap = (categoryId: string, eventId: string) => {
+        setReplaySnapshotId(null);
+        updateState({ tab: 'heatmap', categoryId, eventId });
+    };
+
+    // Jump from a watchlist row to its dependency graph
+    const handleWatchlistShowDependencies = (marketId: string) => {
+        setReplaySnapshotId(null);
+        updateState({ tab: 'dependency', marketId });
+    };
+
+    const sizeMetricLabel = getSizeMetricLabel(sizeMetric, viewState.level);
+
     // Get selected event for panel
     const selectedEvent = panelState.eventId
         ? getGeoEventById(panelState.eventId)
@@ -184,7 +299,7 @@ export default function Home() {
                 <TabNavigation activeTab={activeTab} onTabChange={setActiveTab} />
 
                 {/* Right section - fixed width to keep tabs centered */}
-                <div className="w-64 flex justify-end">
+                <div className="w-64 flex items-center justify-end gap-3">
                     {/* Settings (only show for heatmap) */}
                     {activeTab === 'heatmap' && (
                         <div className="flex items-center space-x-6 text-sm">
@@ -241,6 +356,48 @@ export default function Home() {
                             </div>
                         </div>
                     )}
+
+                    {/* Movers feed toggle */}
+                    <button
+                        onClick={() => setIsMoversOpen(!isMoversOpen)}
+                        className={`relative p-1 rounded-md transition-colors ${
+                            isMoversOpen
+                                ? 'bg-blue-600/20 text-blue-300'
+                                : 'text-zinc-400 hover:text-white hover:bg-zinc-800'
+                        }`}
+                        title="Movers feed"
+                    >
+                        <Activity className="w-4 h-4" />
+                        {moversCount > 0 && !isMoversOpen && (
+                            <span className="absolute -top-1 -right-1 min-w-[14px] h-[14px] px-0.5 rounded-full bg-blue-600 text-[9px] leading-[14px] text-white text-center">
+                                {moversCount > 99 ? '99+' : moversCount}
+                            </span>
+                        )}
+                    </button>
+
+                    {/* Alerts toggle */}
+                    <button
+                        onClick={toggleAlerts}
+                        className={`relative p-1 rounded-md transition-colors ${
+                            isAlertsOpen
+                                ? 'bg-amber-500/20 text-amber-300'
+                                : 'text-zinc-400 hover:text-white hover:bg-zinc-800'
+                        }`}
+                        title="Alerts"
+                    >
+                        <Bell className="w-4 h-4" />
+                        {unreadAlerts > 0 && !isAlertsOpen && (
+                            <span className="absolute -top-1 -right-1 min-w-[14px] h-[14px] px-0.5 rounded-full bg-amber-500 text-[9px] leading-[14px] text-white text-center">
+                                {unreadAlerts > 99 ? '99+' : unreadAlerts}
+                            </span>
+                        )}
+                    </button>
+
+                    {/* Snapshot replay */}
+                    <ReplayScrubber
+                        snapshotId={replaySnapshotId}
+                        onSnapshotChange={setReplaySnapshotId}
+                    />
                 </div>
             </header>
 
@@ -265,54 +422,147 @@ export default function Home() {
                     />
 
                     {/* Loading indicator */}
-                    {isLoading && (
-                        <Loader2 className="w-4 h-4 text-blue-500 animate-spin ml-auto" />
+                    {(isLoading || isChangesLoading) && (
+                        <Loader2 className="w-4 h-4 text-blue-500 animate-spin" />
                     )}
-                </div>
-            )}
 
-            {/* Main Content */}
-            <div className="flex-1 relative w-full overflow-hidden">
-                {activeTab === 'heatmap' ? (
-                    <div className="w-full h-full p-4">
-                        {isLoading && currentData.length === 0 ? (
-                            <div className="flex items-center justify-center h-full">
-                                <div className="flex flex-col items-center gap-3">
-                                    <Loader2 className="w-8 h-8 text-blue-500 animate-spin" />
-                                    <span className="text-zinc-500">
-                                        Loading market data...
-                                    </span>
-                                </div>
+                    {/* Size metric */}
+                    <div className="ml-auto flex items-center gap-2 text-xs">
+                        <span className="text-zinc-500 uppercase tracking-wider font-semibold">
+                            Size:
+                        </span>
+                        <select
+                            value={sizeMetric}
+                            onChange={(e) => setSizeMetric(e.target.value as SizeMetric)}
+                            className="bg-zinc-800 text-zinc-300 text-xs rounded px-1.5 py-1 border-none focus:ring-0"
+                        >
+                            {SIZE_METRICS.map((metric) => (
+                                <option key={metric.id} value={metric.id}>
+                                    {getSizeMetricLabel(metric.id, viewState.level)}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+
+                    {/* Color mode */}
+                    <div className="flex items-center gap-2 text-xs">
+                        <span className="text-zinc-500 uppercase tracking-wider font-semibold">
+                            Color:
+                        </span>
+                        <div className="flex gap-1">
+                            {COLOR_MODES.map((mode) => (
+                                <button
+                                    key={mode.id}
+                                    onClick={() => setColorMode(mode.id)}
+                                    className={`px-2 py-1 rounded transition-colors ${
+                                        colorMode === mode.id
+                                            ? 'bg-blue-600 text-white'
+                                            : 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700'
+                                    }`}
+                                >
+                                    {mode.label}
+                                </button>
+                            ))}
+                        </div>
+                        {colorMode === 'change' && (
+                            <div className="flex gap-1 ml-2">
+                                {CHANGE_WINDOWS.map((option) => (
+                                    <button
+                                        key={option}
+                                        onClick={() => setChangeWindow(option)}
+                                        className={`px-2 py-1 rounded transition-colors ${
+                                            changeWindow === option
+                                                ? 'bg-zinc-600 text-white'
+                                                : 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700'
+                                        }`}
+                                    >
+                                        {option}
+                                    </button>
+                                ))}
                             </div>
-                        ) : (
-                            <HeatMap
-                                level={viewState.level}
-                                data={currentData}
-                                onNodeClick={handleNodeClick}
-                                minVolume={
-                                    viewState.level === 'category'
-                                        ? 0
-                                        : minVolume
-                                }
-                            />
                         )}
                     </div>
-                ) : activeTab === 'worldmap' ? (
-                    <WorldMap
-                        events={mappableEvents}
-                        minVolume={minVolume}
-                        onEventClick={handleWorldMapEventClick}
-                        onClusterClick={handleClusterClick}
-                    />
-                ) : activeTab === 'dependency' ? (
-                    <DependencyMap
-                        events={events}
-                        selectedMarketId={selectedMarketId}
-                        onMarketSelect={setSelectedMarketId}
-                        filters={dependencyFilters}
-                        onFiltersChange={setDependencyFilters}
-                    />
-                ) : null}
+                </div>
+            )}
+
+            {/* Main Content + sidebars */}
+            <div className="flex-1 flex min-h-0">
+                <div className="flex-1 relative min-w-0 overflow-hidden">
+                    {activeTab === 'heatmap' ? (
+                        <div className="w-full h-full p-4">
+                            {isLoading && currentData.length === 0 ? (
+                                <div className="flex items-center justify-center h-full">
+                                    <div className="flex flex-col items-center gap-3">
+                                        <Loader2 className="w-8 h-8 text-blue-500 animate-spin" />
+                                        <span className="text-zinc-500">
+                                            Loading market data...
+                                        </span>
+                                    </div>
+                                </div>
+                            ) : (
+                                <HeatMap
+                                    level={viewState.level}
+                                    data={currentData}
+                                    onNodeClick={handleNodeClick}
+                                    minVolume={
+                                        viewState.level === 'category'
+                                            ? 0
+                                            : minVolume
+                                    }
+                                    sizeMetric={sizeMetric}
+                                    colorMode={colorMode}
+                                    changeWindow={changeWindow}
+                                    priceChanges={priceChanges}
+                                />
+                            )}
+                        </div>
+                    ) : activeTab === 'worldmap' ? (
+                        <WorldMap
+                            events={mappableEvents}
+                            minVolume={minVolume}
+                            onEventClick={handleWorldMapEventClick}
+                            onClusterClick={handleClusterClick}
+                        />
+                    ) : activeTab === 'dependency' ? (
+                        <DependencyMap
+                            events={events}
+                            selectedMarketId={selectedMarketId}
+                            onMarketSelect={setSelectedMarketId}
+                            filters={dependencyFilters}
+                            onFiltersChange={setDependencyFilters}
+                        />
+                    ) : activeTab === 'matrix' ? (
+                        <CorrelationMatrix events={events} categories={categories} />
+                    ) : activeTab === 'inconsistencies' ? (
+                        <Inconsistencies events={liveEvents} categories={categories} />
+                    ) : activeTab === 'entities' ? (
+                        <EntityExplorer
+                            events={events}
+                            entityId={selectedEntityId}
+                            onEntitySelect={setSelectedEntityId}
+                        />
+                    ) : activeTab === 'watchlist' ? (
+                        <WatchlistView
+                            events={liveEvents}
+                            onShowInHeatMap={handleWatchlistShowInHeatMap}
+                            onShowDependencies={handleWatchlistShowDependencies}
+                        />
+                    ) : null}
+                </div>
+
+                <MoversPanel
+                    isOpen={isMoversOpen}
+                    onClose={() => setIsMoversOpen(false)}
+                    onShowInHeatMap={handleMoverShowInHeatMap}
+                    onShowDependencies={handleMoverShowDependencies}
+                />
+
+                <AlertsPanel
+                    isOpen={isAlertsOpen}
+                    events={liveEvents}
+                    onClose={toggleAlerts}
+                    onShowInHeatMap={handleAlertShowInHeatMap}
+                />
             </div>
 
             {/* Footer with legend */}
@@ -357,6 +607,92 @@ export default function Home() {
                                 <div className="w-3 h-0.5 bg-red-500" />
                                 <span>-Corr</span>
                             </div>
+                            <div className="flex items-center gap-1">
+                                <div className="w-3 h-0.5 bg-amber-500" />
+                                <span>Implies</span>
+                            </div>
+                        </>
+                    ) : activeTab === 'matrix' ? (
+                        <>
+                            <span>Color: Correlation</span>
+                            <div className="flex items-center gap-1">
+                                <div className="w-3 h-3 rounded-sm bg-red-500" />
+                                <span>Negative</span>
+                            </div>
+                            <div className="flex items-center gap-1">
+                                <div className="w-3 h-3 rounded-sm bg-zinc-700" />
+                                <span>None</span>
+                            </div>
+                            <div className="flex items-center gap-1">
+                                <div className="w-3 h-3 rounded-sm bg-green-500" />
+                                <span>Positive</span>
+                            </div>
+                            <span>|</span>
+                            <span>Clustered by 1 − |r|</span>
+                        </>
+                    ) : activeTab === 'inconsistencies' ? (
+                        <>
+                            <span>Σ Price of exclusive outcomes</span>
+                            <div className="flex items-center gap-1">
+                                <div className="w-3 h-3 rounded-sm bg-amber-400" />
+                                <span>Overround</span>
+                            </div>
+                            <div className="flex items-center gap-1">
+                                <div className="w-3 h-3 rounded-sm bg-sky-400" />
+                                <span>Underround</span>
+                            </div>
+                            <div className="flex items-center gap-1">
+                                <div className="w-3 h-3 rounded-sm bg-green-500" />
+                                <span>Executable edge</span>
+                            </div>
+                        </>
+                    ) : activeTab === 'entities' && selectedEntityId ? (
+                        <>
+                            <span>Color: Probability</span>
+                            <div className="flex items-center gap-1">
+                                <div className="w-3 h-3 rounded-sm bg-red-500" />
+                                <span>NO</span>
+                            </div>
+                            <div className="flex items-center gap-1">
+                                <div className="w-3 h-3 rounded-sm bg-blue-500" />
+                                <span>YES</span>
+                            </div>
+                            <span>|</span>
+                            <span>Timeline: height = probability, size = volume, color = category</span>
+                        </>
+                    ) : activeTab === 'entities' ? (
+                        <span>Avg Move = volume-weighted mean |change| of each entity&apos;s largest markets</span>
+                    ) : activeTab === 'watchlist' ? (
+                        <span>24h Δ = probability change over the last 24 hours</span>
+                    ) : colorMode === 'change' && viewState.level === 'market' ? (
+                        <>
+                            <span>Color: {changeWindow} Change</span>
+                            <div className="flex items-center gap-1">
+                                <div className="w-3 h-3 rounded-sm bg-red-500" />
+                                <span>Falling</span>
+                            </div>
+                            <div className="flex items-center gap-1">
+                                <div className="w-3 h-3 rounded-sm bg-zinc-700" />
+                                <span>Flat</span>
+                            </div>
+                            <div className="flex items-center gap-1">
+                                <div className="w-3 h-3 rounded-sm bg-green-500" />
+                                <span>Rising</span>
+                            </div>
+                        </>
+                    ) : colorMode === 'change' ? (
+                        <>
+                            <span>Color: Avg {changeWindow} Move</span>
+                            <div className="flex items-center gap-1">
+                                <div className="w-3 h-3 rounded-sm bg-zinc-700" />
+                                <span>Quiet</span>
+                            </div>
+                            <div className="flex items-center gap-1">
+                                <div className="w-3 h-3 rounded-sm bg-violet-500" />
+                                <span>Moving</span>
+                            </div>
+                            <span>|</span>
+                            <span>Volume-weighted over top markets</span>
                         </>
                     ) : viewState.level === 'market' ? (
                         <>
@@ -393,7 +729,17 @@ export default function Home() {
                         ? 'Click event for details'
                         : activeTab === 'dependency'
                         ? 'Click node to recenter | Hover edge for details'
-                        : 'Size = Volume | Click to drill down'}
+                        : activeTab === 'matrix'
+                        ? 'Hover a cell for its pair | Click for the pairwise detail'
+                        : activeTab === 'inconsistencies'
+                        ? 'Live data | Click a row for per-outcome bids and asks'
+                        : activeTab === 'entities'
+                        ? selectedEntityId
+                            ? 'Click a market to open it on Polymarket'
+                            : 'Click an entity for its markets'
+                        : activeTab === 'watchlist'
+                        ? 'Live data | Starred items are saved in this browser'
+                        : `Size = ${sizeMetricLabel} | Click to drill down`}
                 </span>
             </footer>
 
@@ -414,3 +760,12 @@ export default function Home() {
         </main>
     );
 }
+
+export default function Home() {
+    // useSearchParams needs a Suspense boundary so the page can still be prerendered
+    return (
+        <Suspense fallback={<main className="h-screen bg-zinc-950" />}>
+            <Dashboard />
+        </Suspense>
+    );
+}
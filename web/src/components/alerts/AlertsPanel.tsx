@@ -0,0 +1,545 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { X, Bell, BellRing, Plus, Trash2, Search, Check } from 'lucide-react';
+import { ProcessedEvent } from '@/lib/types';
+import { CATEGORIES } from '@/lib/categories';
+import { getEntityProfiles, resolveEntity } from '@/lib/entities';
+import {
+    AlertRule,
+    AlertRuleDraft,
+    AlertRuleType,
+    AlertScope,
+    MOVE_WINDOWS,
+    TriggeredAlert,
+    describeRule,
+} from '@/lib/alerts';
+import { useAlerts } from '@/hooks/useAlerts';
+
+interface AlertsPanelProps {
+    isOpen: boolean;
+    events: ProcessedEvent[]; // Live events, used to pick markets and entities
+    onClose: () => void;
+    onShowInHeatMap: (alert: TriggeredAlert) => void;
+}
+
+const RULE_TYPES: Array<{ id: AlertRuleType; label: string }> = [
+    { id: 'price-above', label: 'Price rises above' },
+    { id: 'price-below', label: 'Price falls below' },
+    { id: 'move', label: 'Moves by' },
+    { id: 'volume-spike', label: 'Volume spike' },
+    { id: 'new-market', label: 'New market' },
+];
+
+const SCOPES: Array<{ id: AlertScope['kind']; label: string }> = [
+    { id: 'market', label: 'One market' },
+    { id: 'watchlist', label: 'Watchlist' },
+    { id: 'all', label: 'All markets' },
+];
+
+const MAX_MARKET_RESULTS = 8;
+
+function formatTime(timestamp: number): string {
+    return new Date(timestamp).toLocaleString([], {
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+    });
+}
+
+// ============================================
+// Market Picker
+// ============================================
+
+interface MarketPickerProps {
+    events: ProcessedEvent[];
+    marketNames: Map<string, string>;
+    value: string | null;
+    onChange: (marketId: string | null) => void;
+}
+
+function MarketPicker({ events, marketNames, value, onChange }: MarketPickerProps) {
+    const [query, setQuery] = useState('');
+
+    const results = useMemo(() => {
+        const q = query.trim().toLowerCase();
+        if (q.length < 2) return [];
+
+        return events
+            .flatMap((event) => event.markets)
+            .filter((market) => market.question.toLowerCase().includes(q))
+            .sort((a, b) => b.volume - a.volume)
+            .slice(0, MAX_MARKET_RESULTS);
+    }, [events, query]);
+
+    if (value) {
+        return (
+            <div className="flex items-start gap-2 p-2 bg-zinc-800 rounded text-xs text-zinc-200">
+                <span className="flex-1 line-clamp-2">{marketNames.get(value) || value}</span>
+                <button
+                    onClick={() => onChange(null)}
+                    className="text-zinc-500 hover:text-white"
+                    title="Change market"
+                >
+                    <X className="w-3.5 h-3.5" />
+                </button>
+            </div>
+        );
+    }
+
+    return (
+        <div>
+            <div className="relative">
+                <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-zinc-500" />
+                <input
+                    type="text"
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    placeholder="Search markets..."
+                    className="w-full pl-7 pr-2 py-1.5 bg-zinc-800 rounded text-xs text-zinc-200 placeholder-zinc-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                />
+            </div>
+            {results.length > 0 && (
+                <div className="mt-1 max-h-40 overflow-y-auto rounded bg-zinc-800/60">
+                    {results.map((market) => (
+                        <button
+                            key={market.id}
+                            onClick={() => {
+                                onChange(market.id);
+                                setQuery('');
+                            }}
+                            className="w-full px-2 py-1.5 text-left text-xs text-zinc-300 hover:bg-zinc-700 line-clamp-1"
+                        >
+                            {market.question}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
+
+// ============================================
+// Rule Editor
+// ============================================
+
+interface RuleEditorProps {
+    events: ProcessedEvent[];
+    marketNames: Map<string, string>;
+    onSave: (rule: AlertRuleDraft) => void;
+    onCancel: () => void;
+}
+
+function RuleEditor({ events, marketNames, onSave, onCancel }: RuleEditorProps) {
+    const [type, setType] = useState<AlertRuleType>('price-above');
+    const [scopeKind, setScopeKind] = useState<AlertScope['kind']>('market');
+    const [marketId, setMarketId] = useState<string | null>(null);
+    const [pricePct, setPricePct] = useState(50);
+    const [movePp, setMovePp] = useState(5);
+    const [windowMs, setWindowMs] = useState(MOVE_WINDOWS[2].ms);
+    const [multiplier, setMultiplier] = useState(5);
+    const [matchKind, setMatchKind] = useState<'entity' | 'category'>('entity');
+    const [entity, setEntity] = useState('');
+    const [categoryId, setCategoryId] = useState('politics');
+
+    const entityOptions = useMemo(
+        () =>
+            getEntityProfiles(events)
+                .sort((a, b) => b.markets.length - a.markets.length)
+                .map((profile) => profile.entity.name),
+        [events]
+    );
+
+    const isPriceRule = type === 'price-above' || type === 'price-below';
+    const isScopedRule = type === 'move' || type === 'volume-spike';
+    const needsMarket = isPriceRule || (isScopedRule && scopeKind === 'market');
+
+    const buildDraft = (): AlertRuleDraft | null => {
+        if (needsMarket && !marketId) return null;
+        const scope: AlertScope =
+            scopeKind === 'market' ? { kind: 'market', marketId: marketId! } : { kind: scopeKind };
+
+        switch (type) {
+            case 'price-above':
+            case 'price-below':
+                return { type, marketId: marketId!, threshold: pricePct / 100 };
+            case 'move':
+                return { type, scope, threshold: movePp / 100, windowMs };
+            case 'volume-spike':
+                return { type, scope, multiplier };
+            case 'new-market': {
+                const value =
+                    matchKind === 'entity'
+                        ? resolveEntity(entity)?.id ?? entity.trim().toLowerCase()
+                        : categoryId;
+                return value ? { type, match: { kind: matchKind, value } } : null;
+            }
+        }
+    };
+
+    const draft = buildDraft();
+    const inputClass =
+        'bg-zinc-800 text-zinc-200 text-xs rounded px-1.5 py-1 border-none focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+    return (
+        <div className="p-3 bg-zinc-800/50 rounded-lg space-y-2">
+            <select
+                value={type}
+                onChange={(e) => setType(e.target.value as AlertRuleType)}
+                className={`w-full ${inputClass}`}
+            >
+                {RULE_TYPES.map((option) => (
+                    <option key={option.id} value={option.id}>
+                        {option.label}
+                    </option>
+                ))}
+            </select>
+
+            {isScopedRule && (
+                <div className="flex gap-1">
+                    {SCOPES.map((scope) => (
+                        <button
+                            key={scope.id}
+                            onClick={() => setScopeKind(scope.id)}
+                            className={`flex-1 px-2 py-1 text-xs rounded transition-colors ${
+                                scopeKind === scope.id
+                                    ? 'bg-blue-600 text-white'
+                                    : 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700'
+                            }`}
+                        >
+                            {scope.label}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {needsMarket && (
+                <MarketPicker
+                    events={events}
+                    marketNames={marketNames}
+                    value={marketId}
+                    onChange={setMarketId}
+                />
+            )}
+
+            {isPriceRule && (
+                <label className="flex items-center justify-between text-xs text-zinc-400">
+                    Threshold
+                    <span className="flex items-center gap-1">
+                        <input
+                            type="number"
+                            min={1}
+                            max={99}
+                            value={pricePct}
+                            onChange={(e) => setPricePct(Number(e.target.value))}
+                            className={`w-16 text-right ${inputClass}`}
+                        />
+                        %
+                    </span>
+                </label>
+            )}
+
+            {type === 'move' && (
+                <div className="flex items-center justify-between gap-2 text-xs text-zinc-400">
+                    <span className="flex items-center gap-1">
+                        <input
+                            type="number"
+                            min={1}
+                            max={50}
+                            value={movePp}
+                            onChange={(e) => setMovePp(Number(e.target.value))}
+                            className={`w-14 text-right ${inputClass}`}
+                        />
+                        pp within
+                    </span>
+                    <select
+                        value={windowMs}
+                        onChange={(e) => setWindowMs(Number(e.target.value))}
+                        className={inputClass}
+                    >
+                        {MOVE_WINDOWS.map((option) => (
+                            <option key={option.ms} value={option.ms}>
+                                {option.label}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+            )}
+
+            {type === 'volume-spike' && (
+                <label className="flex items-center justify-between text-xs text-zinc-400">
+                    Multiple of 24h rate
+                    <span className="flex items-center gap-1">
+                        <input
+                            type="number"
+                            min={2}
+                            max={100}
+                            value={multiplier}
+                            onChange={(e) => setMultiplier(Number(e.target.value))}
+                            className={`w-16 text-right ${inputClass}`}
+                        />
+                        ×
+                    </span>
+                </label>
+            )}
+
+            {type === 'new-market' && (
+                <div className="flex items-center gap-1">
+                    <select
+                        value={matchKind}
+                        onChange={(e) => setMatchKind(e.target.value as 'entity' | 'category')}
+                        className={inputClass}
+                    >
+                        <option value="entity">Mentioning</option>
+                        <option value="category">In category</option>
+                    </select>
+                    {matchKind === 'entity' ? (
+                        <>
+                            <input
+                                type="text"
+                                list="alert-entity-options"
+                                value={entity}
+                                onChange={(e) => setEntity(e.target.value)}
+                                placeholder="e.g. Bitcoin"
+                                className={`flex-1 min-w-0 ${inputClass}`}
+                            />
+                            <datalist id="alert-entity-options">
+                                {entityOptions.map((option) => (
+                                    <option key={option} value={option} />
+                                ))}
+                            </datalist>
+                        </>
+                    ) : (
+                        <select
+                            value={categoryId}
+                            onChange={(e) => setCategoryId(e.target.value)}
+                            className={`flex-1 ${inputClass}`}
+                        >
+                            {CATEGORIES.map((name) => (
+                                <option key={name} value={name.toLowerCase().replace(/\s+/g, '-')}>
+                                    {name}
+                                </option>
+                            ))}
+                        </select>
+                    )}
+                </div>
+            )}
+
+            <div className="flex justify-end gap-2 pt-1">
+                <button
+                    onClick={onCancel}
+                    className="px-2 py-1 text-xs rounded text-zinc-400 hover:text-white"
+                >
+                    Cancel
+                </button>
+                <button
+                    onClick={() => draft && onSave(draft)}
+                    disabled={!draft}
+                    className="flex items-center gap-1 px-2 py-1 text-xs rounded bg-blue-600 text-white hover:bg-blue-500 disabled:opacity-40 disabled:hover:bg-blue-600"
+                >
+                    <Check className="w-3 h-3" />
+                    Save rule
+                </button>
+            </div>
+        </div>
+    );
+}
+
+// ============================================
+// Rule Row
+// ============================================
+
+interface RuleRowProps {
+    rule: AlertRule;
+    marketNames: Map<string, string>;
+    onToggle: () => void;
+    onRemove: () => void;
+}
+
+function RuleRow({ rule, marketNames, onToggle, onRemove }: RuleRowProps) {
+    return (
+        <div className="flex items-start gap-2 p-2 bg-zinc-800/50 rounded-lg">
+            <input
+                type="checkbox"
+                checked={rule.enabled}
+                onChange={onToggle}
+                className="mt-0.5 rounded bg-zinc-700 border-zinc-600 text-blue-500 focus:ring-0"
+                title={rule.enabled ? 'Disable rule' : 'Enable rule'}
+            />
+            <span
+                className={`flex-1 text-xs line-clamp-2 ${
+                    rule.enabled ? 'text-zinc-200' : 'text-zinc-500'
+                }`}
+            >
+                {describeRule(rule, marketNames)}
+            </span>
+            <button
+                onClick={onRemove}
+                className="p-0.5 rounded text-zinc-500 hover:text-red-400 transition-colors"
+                title="Delete rule"
+            >
+                <Trash2 className="w-3.5 h-3.5" />
+            </button>
+        </div>
+    );
+}
+
+// ============================================
+// Main Panel Component
+// ============================================
+
+export default function AlertsPanel({ isOpen, events, onClose, onShowInHeatMap }: AlertsPanelProps) {
+    const {
+        rules,
+        log,
+        notificationState,
+        requestNotifications,
+        addRule,
+        toggleRule,
+        removeRule,
+        clearLog,
+    } = useAlerts();
+    const [isEditing, setIsEditing] = useState(false);
+
+    const marketNames = useMemo(() => {
+        const names = new Map<string, string>();
+        for (const event of events) {
+            for (const market of event.markets) names.set(market.id, market.question);
+        }
+        return names;
+    }, [events]);
+
+    if (!isOpen) return null;
+
+    return (
+        <aside className="w-80 flex-shrink-0 flex flex-col border-l border-zinc-800 bg-zinc-900">
+            {/* Header */}
+            <div className="p-4 border-b border-zinc-800">
+                <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                        <Bell className="w-4 h-4 text-amber-400" />
+                        <h2 className="text-sm font-semibold text-white">Alerts</h2>
+                        <span className="text-xs text-zinc-500">{rules.length} rules</span>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="p-1.5 rounded-lg hover:bg-zinc-700 transition-colors"
+                    >
+                        <X className="w-4 h-4 text-zinc-400" />
+                    </button>
+                </div>
+
+                {notificationState === 'default' && (
+                    <button
+                        onClick={requestNotifications}
+                        className="w-full flex items-center justify-center gap-1.5 mt-3 px-2 py-1.5 text-xs rounded bg-zinc-800 text-zinc-300 hover:bg-zinc-700 transition-colors"
+                    >
+                        <BellRing className="w-3.5 h-3.5" />
+                        Enable browser notifications
+                    </button>
+                )}
+                {notificationState === 'denied' && (
+                    <p className="mt-3 text-[11px] text-zinc-500">
+                        Notifications are blocked for this site; alerts are only logged below.
+                    </p>
+                )}
+            </div>
+
+            <div className="flex-1 overflow-y-auto">
+                {/* Rules */}
+                <div className="p-3 space-y-2 border-b border-zinc-800">
+                    <div className="flex items-center justify-between">
+                        <h3 className="text-[10px] uppercase tracking-wider text-zinc-500 font-semibold">
+                            Rules
+                        </h3>
+                        {!isEditing && (
+                            <button
+                                onClick={() => setIsEditing(true)}
+                                className="flex items-center gap-1 text-xs text-blue-400 hover:text-blue-300"
+                            >
+                                <Plus className="w-3.5 h-3.5" />
+                                New rule
+                            </button>
+                        )}
+                    </div>
+
+                    {isEditing && (
+                        <RuleEditor
+                            events={events}
+                            marketNames={marketNames}
+                            onSave={(draft) => {
+                                addRule(draft);
+                                setIsEditing(false);
+                            }}
+                            onCancel={() => setIsEditing(false)}
+                        />
+                    )}
+
+                    {rules.length === 0 && !isEditing ? (
+                        <p className="text-xs text-zinc-500 text-center py-2">
+                            Rules are checked on every live data refresh.
+                        </p>
+                    ) : (
+                        rules.map((rule) => (
+                            <RuleRow
+                                key={rule.id}
+                                rule={rule}
+                                marketNames={marketNames}
+                                onToggle={() => toggleRule(rule.id)}
+                                onRemove={() => removeRule(rule.id)}
+                            />
+                        ))
+                    )}
+                </div>
+
+                {/* Triggered log */}
+                <div className="p-3 space-y-2">
+                    <div className="flex items-center justify-between">
+                        <h3 className="text-[10px] uppercase tracking-wider text-zinc-500 font-semibold">
+                            Triggered
+                        </h3>
+                        <button
+                            onClick={clearLog}
+                            disabled={log.length === 0}
+                            className="p-1 rounded text-zinc-500 hover:text-white transition-colors disabled:opacity-40 disabled:hover:text-zinc-500"
+                            title="Clear log"
+                        >
+                            <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                    </div>
+
+                    {log.length === 0 ? (
+                        <p className="text-xs text-zinc-500 text-center py-2">No alerts yet.</p>
+                    ) : (
+                        log.map((alert) => (
+                            <button
+                                key={alert.id}
+                                onClick={() => onShowInHeatMap(alert)}
+                                className="w-full p-2 text-left bg-zinc-800/50 rounded-lg hover:bg-zinc-700/50 transition-colors"
+                                title="Show in Heat Map"
+                            >
+                                <div className="flex items-start gap-2">
+                                    {!alert.read && (
+                                        <span className="mt-1.5 w-1.5 h-1.5 rounded-full bg-amber-400 flex-shrink-0" />
+                                    )}
+                                    <div className="flex-1 min-w-0">
+                                        <div className="text-xs text-zinc-200 line-clamp-2">
+                                            {alert.question}
+                                        </div>
+                                        <div className="text-[11px] text-zinc-400 mt-0.5">
+                                            {alert.message}
+                                        </div>
+                                        <div className="text-[10px] text-zinc-600 mt-0.5">
+                                            {formatTime(alert.timestamp)}
+                                        </div>
+                                    </div>
+                                </div>
+                            </button>
+                        ))
+                    )}
+                </div>
+            </div>
+        </aside>
+    );
+}
@@ -0,0 +1,149 @@
+'use client';
+
+import React, { useState, useRef, useEffect } from 'react';
+import { History, Radio } from 'lucide-react';
+import { useSnapshots } from '@/hooks/useSnapshots';
+import * as d3 from 'd3';
+
+interface ReplayScrubberProps {
+    snapshotId: number | null; // null = live
+    onSnapshotChange: (snapshotId: number | null) => void;
+}
+
+function formatSnapshotTime(id: number): string {
+    const date = new Date(id);
+    const isToday = date.toDateString() === new Date().toDateString();
+    return isToday
+        ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+        : date.toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+}
+
+function formatAge(id: number, now: number): string {
+    const minutes = Math.round((now - id) / 60000);
+    if (minutes < 1) return 'just now';
+    if (minutes < 60) return `${minutes}m ago`;
+    const hours = Math.round(minutes / 60);
+    if (hours < 48) return `${hours}h ago`;
+    return `${Math.round(hours / 24)}d ago`;
+}
+
+export default function ReplayScrubber({ snapshotId, onSnapshotChange }: ReplayScrubberProps) {
+    const { snapshots } = useSnapshots();
+    const [isOpen, setIsOpen] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    const isReplaying = snapshotId !== null;
+    const selectedIndex = isReplaying
+        ? snapshots.findIndex((s) => s.id === snapshotId)
+        : snapshots.length - 1;
+    const selected = selectedIndex >= 0 ? snapshots[selectedIndex] : undefined;
+    const newestId = snapshots.length > 0 ? snapshots[snapshots.length - 1].id : 0;
+
+    // Close popover when clicking outside
+    useEffect(() => {
+        function handleClickOutside(event: MouseEvent) {
+            if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+                setIsOpen(false);
+            }
+        }
+
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, []);
+
+    const handleScrub = (index: number) => {
+        // The newest snapshot is the latest poll, so scrubbing to the end returns to live
+        if (index >= snapshots.length - 1) {
+            onSnapshotChange(null);
+        } else {
+            onSnapshotChange(snapshots[index].id);
+        }
+    };
+
+    return (
+        <div ref={containerRef} className="relative">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className={`flex items-center gap-1.5 px-2 py-1 rounded-md text-xs transition-colors ${
+                    isReplaying
+                        ? 'bg-amber-500/20 text-amber-300 hover:bg-amber-500/30'
+                        : 'text-zinc-400 hover:text-white hover:bg-zinc-800'
+                }`}
+                title="Replay recorded snapshots"
+            >
+                <History className="w-4 h-4" />
+                {isReplaying && selected && (
+                    <span className="font-mono">{formatSnapshotTime(selected.id)}</span>
+                )}
+            </button>
+
+            {isOpen && (
+                <div className="absolute right-0 top-full mt-2 w-80 bg-zinc-900 border border-zinc-700 rounded-lg shadow-xl p-3 z-50">
+                    <div className="flex items-center justify-between mb-2">
+                        <span className="text-xs font-semibold uppercase tracking-wider text-zinc-500">
+                            Replay
+                        </span>
+                        <button
+                            onClick={() => onSnapshotChange(null)}
+                            disabled={!isReplaying}
+                            className={`flex items-center gap-1 px-2 py-0.5 rounded text-xs transition-colors ${
+                                isReplaying
+                                    ? 'bg-blue-600 text-white hover:bg-blue-500'
+                                    : 'bg-zinc-800 text-zinc-500'
+                            }`}
+                        >
+                            <Radio className="w-3 h-3" />
+                            Live
+                        </button>
+                    </div>
+
+                    {snapshots.length < 2 ? (
+                        <p className="text-xs text-zinc-500">
+                            Snapshots are recorded on every refresh. Come back after a few polls to scrub through history.
+                        </p>
+                    ) : (
+                        <>
+                            <input
+                                type="range"
+                                min={0}
+                                max={snapshots.length - 1}
+                                step={1}
+                                value={Math.max(selectedIndex, 0)}
+                                onChange={(e) => handleScrub(Number(e.target.value))}
+                                className="w-full h-1 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-amber-500"
+                            />
+                            <div className="flex justify-between text-[10px] text-zinc-500 mt-1">
+                                <span>{formatSnapshotTime(snapshots[0].id)}</span>
+                                <span>{formatSnapshotTime(newestId)}</span>
+                            </div>
+
+                            {selected && (
+                                <div className="mt-3 pt-2 border-t border-zinc-800 space-y-1 text-xs text-zinc-400">
+                                    <div className="flex justify-between">
+                                        <span>{isReplaying ? 'Showing' : 'Latest poll'}</span>
+                                        <span className="text-zinc-200">
+                                            {formatSnapshotTime(selected.id)}{' '}
+                                            <span className="text-zinc-500">({formatAge(selected.id, newestId)})</span>
+                                        </span>
+                                    </div>
+                                    <div className="flex justify-between">
+                                        <span>Events / Markets</span>
+                                        <span className="font-mono text-zinc-200">
+                                            {selected.eventCount} / {selected.marketCount}
+                                        </span>
+                                    </div>
+                                    <div className="flex justify-between">
+                                        <span>Total Volume</span>
+                                        <span className="font-mono text-zinc-200">
+                                            ${d3.format('.2s')(selected.volumeTotal)}
+                                        </span>
+                                    </div>
+                                </div>
+                            )}
+                        </>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import React from 'react';
-import { Map, Grid3X3, Network } from 'lucide-react';
+import { Map, Grid3X3, Network, Star, LayoutGrid, Scale, Tags } from 'lucide-react';
 import { TabId } from '@/lib/types';
 
 interface TabNavigationProps {
@@ -13,6 +13,10 @@ const TABS: Array<{ id: TabId; label: string; icon: React.ElementType }> = [
     { id: 'heatmap', label: 'Heat Map', icon: Grid3X3 },
     { id: 'worldmap', label: 'World Map', icon: Map },
     { id: 'dependency', label: 'Dependencies', icon: Network },
+    { id: 'matrix', label: 'Matrix', icon: LayoutGrid },
+    { id: 'inconsistencies', label: 'Inconsistencies', icon: Scale },
+    { id: 'entities', label: 'Entities', icon: Tags },
+    { id: 'watchlist', label: 'Watchlist', icon: Star },
 ];
 
 export default function TabNavigation({
@@ -4,6 +4,7 @@ import React from 'react';
 import { X, MapPin, ChevronRight, TrendingUp, BarChart3 } from 'lucide-react';
 import * as d3 from 'd3';
 import { GeoEnrichedEvent } from '@/lib/types';
+import StarButton from '@/components/watchlist/StarButton';
 
 interface ClusterPanelProps {
     events: GeoEnrichedEvent[];
@@ -42,41 +43,44 @@ function EventCard({ event, onClick }: EventCardProps) {
             : { label: 'Calm', color: 'text-green-400' };
 
     return (
-        <button
-            onClick={onClick}
-            className="w-full text-left p-4 bg-zinc-800/50 rounded-lg hover:bg-zinc-700/50 transition-colors group"
-        >
-            <div className="flex items-start justify-between gap-3">
-                <div className="flex-1 min-w-0">
-                    <h3 className="text-sm font-medium text-zinc-200 line-clamp-2 group-hover:text-white">
-                        {event.title}
-                    </h3>
-                    <div className="flex items-center gap-3 mt-2 text-xs text-zinc-500">
-                        <span className="flex items-center gap-1">
-                            <TrendingUp className="w-3 h-3" />$
-                            {d3.format('.2s')(event.volumeTotal)}
-                        </span>
-                        <span className="flex items-center gap-1">
-                            <BarChart3 className="w-3 h-3" />
-                            {event.marketCount} markets
-                        </span>
-                        <span className={heatLevel.color}>{heatLevel.label}</span>
+        <div className="relative">
+            <button
+                onClick={onClick}
+                className="w-full text-left p-4 bg-zinc-800/50 rounded-lg hover:bg-zinc-700/50 transition-colors group"
+            >
+                <div className="flex items-start justify-between gap-3">
+                    <div className="flex-1 min-w-0">
+                        <h3 className="text-sm font-medium text-zinc-200 line-clamp-2 group-hover:text-white">
+                            {event.title}
+                        </h3>
+                        <div className="flex items-center gap-3 mt-2 text-xs text-zinc-500">
+                            <span className="flex items-center gap-1">
+                                <TrendingUp className="w-3 h-3" />$
+                                {d3.format('.2s')(event.volumeTotal)}
+                            </span>
+                            <span className="flex items-center gap-1">
+                                <BarChart3 className="w-3 h-3" />
+                                {event.marketCount} markets
+                            </span>
+                            <span className={heatLevel.color}>{heatLevel.label}</span>
+                        </div>
                     </div>
+                    <ChevronRight className="w-4 h-4 mr-6 text-zinc-500 group-hover:text-zinc-300 flex-shrink-0 mt-1" />
                 </div>
-                <ChevronRight className="w-4 h-4 text-zinc-500 group-hover:text-zinc-300 flex-shrink-0 mt-1" />
-            </div>
 
-            {/* Heat indicator bar */}
-            <div className="mt-3 h-1 bg-zinc-700 rounded-full overflow-hidden">
-                <div
-                    className="h-full transition-all"
-                    style={{
-                        width: `${event.volumeHeat * 100}%`,
-                        backgroundColor: heatColorScale(event.volumeHeat),
-                    }}
-                />
-            </div>
-        </button>
+                {/* Heat indicator bar */}
+                <div className="mt-3 h-1 bg-zinc-700 rounded-full overflow-hidden">
+                    <div
+                        className="h-full transition-all"
+                        style={{
+                            width: `${event.volumeHeat * 100}%`,
+                            backgroundColor: heatColorScale(event.volumeHeat),
+                        }}
+                    />
+                </div>
+            </button>
+            <StarButton kind="event" id={event.id} className="absolute top-3 right-3" />
+        </div>
     );
 }
 
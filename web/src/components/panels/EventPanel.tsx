@@ -1,9 +1,22 @@
 'use client';
 
-import React from 'react';
-import { X, ExternalLink, TrendingUp, Clock, MapPin, BarChart3 } from 'lucide-react';
+import React, { useState } from 'react';
+import {
+    X,
+    ExternalLink,
+    TrendingUp,
+    Clock,
+    MapPin,
+    BarChart3,
+    ChevronDown,
+} from 'lucide-react';
 import * as d3 from 'd3';
 import { GeoEnrichedEvent, MarketNode } from '@/lib/types';
+import { getPrimaryTokenId, getSortedOutcomes } from '@/lib/outcomes';
+import StarButton from '@/components/watchlist/StarButton';
+import OrderBookDepth from '@/components/viz/OrderBookDepth';
+import TradeTape from '@/components/viz/TradeTape';
+import PriceHistoryChart from '@/components/viz/PriceHistoryChart';
 
 interface EventPanelProps {
     event: GeoEnrichedEvent | null;
@@ -16,6 +29,8 @@ interface EventPanelProps {
 // ============================================
 
 function ProbabilityBar({ market, eventSlug }: { market: MarketNode; eventSlug: string }) {
+    const [isExpanded, setIsExpanded] = useState(false);
+    const tokenId = getPrimaryTokenId(market);
     const prob = market.outcomeProb;
     const yesPercent = Math.round(prob * 100);
 
@@ -26,45 +41,68 @@ function ProbabilityBar({ market, eventSlug }: { market: MarketNode; eventSlug:
             : `rgb(239, 68, 68)`; // Red for NO leaning
 
     return (
-        <a
-            href={`https://polymarket.com/event/${eventSlug}`}
-            target="_blank"
-            rel="noopener noreferrer"
-            className="block p-3 bg-zinc-800/50 rounded-lg hover:bg-zinc-700/50 transition-colors group"
-        >
-            <div className="flex items-start justify-between gap-2 mb-2">
-                <span className="text-sm text-zinc-200 line-clamp-2 group-hover:text-white">
-                    {market.question}
-                </span>
-                <ExternalLink className="w-4 h-4 text-zinc-500 flex-shrink-0 group-hover:text-zinc-300" />
-            </div>
+        <div className="relative">
+            <a
+                href={`https://polymarket.com/event/${eventSlug}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="block p-3 bg-zinc-800/50 rounded-lg hover:bg-zinc-700/50 transition-colors group"
+            >
+                <div className="flex items-start justify-between gap-2 mb-2">
+                    <span className="text-sm text-zinc-200 line-clamp-2 group-hover:text-white">
+                        {market.question}
+                    </span>
+                    <ExternalLink className="w-4 h-4 mr-6 text-zinc-500 flex-shrink-0 group-hover:text-zinc-300" />
+                </div>
 
-            <div className="flex items-center gap-2">
-                <div className="flex-1 h-2 bg-zinc-700 rounded-full overflow-hidden">
-                    <div
-                        className="h-full transition-all duration-300"
-                        style={{
-                            width: `${yesPercent}%`,
-                            backgroundColor: barColor,
-                        }}
-                    />
+                <div className="flex items-center gap-2">
+                    <div className="flex-1 h-2 bg-zinc-700 rounded-full overflow-hidden">
+                        <div
+                            className="h-full transition-all duration-300"
+                            style={{
+                                width: `${yesPercent}%`,
+                                backgroundColor: barColor,
+                            }}
+                        />
+                    </div>
+                    <span className="text-xs font-mono text-zinc-400 w-10 text-right">
+                        {yesPercent}%
+                    </span>
                 </div>
-                <span className="text-xs font-mono text-zinc-400 w-10 text-right">
-                    {yesPercent}%
-                </span>
-            </div>
 
-            <div className="flex justify-between text-[10px] text-zinc-500 mt-1">
-                <span>NO</span>
-                <span>YES</span>
-            </div>
+                <div className="flex justify-between text-[10px] text-zinc-500 mt-1">
+                    <span>NO</span>
+                    <span>YES</span>
+                </div>
 
-            {market.volume > 0 && (
-                <div className="mt-2 text-[10px] text-zinc-500">
-                    Vol: ${d3.format('.2s')(market.volume)}
+                {market.volume > 0 && (
+                    <div className="mt-2 text-[10px] text-zinc-500">
+                        Vol: ${d3.format('.2s')(market.volume)}
+                    </div>
+                )}
+            </a>
+            <StarButton kind="market" id={market.id} className="absolute top-2 right-2" />
+            {tokenId && (
+                <button
+                    onClick={() => setIsExpanded(!isExpanded)}
+                    className="absolute bottom-2 right-2 flex items-center gap-0.5 px-1.5 py-0.5 rounded text-[10px] text-zinc-500 hover:text-white hover:bg-zinc-700 transition-colors"
+                    aria-expanded={isExpanded}
+                >
+                    Book
+                    <ChevronDown
+                        className={`w-3 h-3 transition-transform ${isExpanded ? 'rotate-180' : ''}`}
+                    />
+                </button>
+            )}
+            {isExpanded && tokenId && (
+                <div className="mt-1 p-3 bg-zinc-800/30 rounded-lg space-y-3">
+                    <OrderBookDepth tokenId={tokenId} />
+                    {market.conditionId && (
+                        <TradeTape conditionId={market.conditionId} tokenId={tokenId} />
+                    )}
                 </div>
             )}
-        </a>
+        </div>
     );
 }
 
@@ -73,72 +111,113 @@ function ProbabilityBar({ market, eventSlug }: { market: MarketNode; eventSlug:
 // ============================================
 
 function MultiChoiceMarket({ market, eventSlug }: { market: MarketNode; eventSlug: string }) {
+    const [isExpanded, setIsExpanded] = useState(false);
+    // Outcome whose book and fills are shown, the leading one by default
+    const [selectedTokenId, setSelectedTokenId] = useState(() => getPrimaryTokenId(market));
+
     if (!market.outcomes || !market.outcomePrices) return null;
 
     // Sort outcomes by probability
-    const sortedOutcomes = market.outcomes
-        .map((outcome, i) => ({
-            name: outcome,
-            prob: market.outcomePrices![i] || 0,
-        }))
-        .sort((a, b) => b.prob - a.prob);
+    const sortedOutcomes = getSortedOutcomes(market);
+    const outcomeTokens = sortedOutcomes.flatMap((outcome) => {
+        const tokenId = market.clobTokenIds?.[market.outcomes!.indexOf(outcome.name)];
+        return tokenId ? [{ name: outcome.name, tokenId }] : [];
+    });
 
     return (
-        <a
-            href={`https://polymarket.com/event/${eventSlug}`}
-            target="_blank"
-            rel="noopener noreferrer"
-            className="block p-3 bg-zinc-800/50 rounded-lg hover:bg-zinc-700/50 transition-colors group"
-        >
-            <div className="flex items-start justify-between gap-2 mb-3">
-                <span className="text-sm text-zinc-200 line-clamp-2 group-hover:text-white">
-                    {market.question}
-                </span>
-                <ExternalLink className="w-4 h-4 text-zinc-500 flex-shrink-0 group-hover:text-zinc-300" />
-            </div>
+        <div className="relative">
+            <a
+                href={`https://polymarket.com/event/${eventSlug}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="block p-3 bg-zinc-800/50 rounded-lg hover:bg-zinc-700/50 transition-colors group"
+            >
+                <div className="flex items-start justify-between gap-2 mb-3">
+                    <span className="text-sm text-zinc-200 line-clamp-2 group-hover:text-white">
+                        {market.question}
+                    </span>
+                    <ExternalLink className="w-4 h-4 mr-6 text-zinc-500 flex-shrink-0 group-hover:text-zinc-300" />
+                </div>
+
+                <div className="space-y-1.5">
+                    {sortedOutcomes.slice(0, 4).map((outcome, i) => {
+                        const percent = Math.round(outcome.prob * 100);
+                        // Color gradient based on probability
+                        const color = d3.interpolateRgb(
+                            'rgb(239, 68, 68)',
+                            'rgb(59, 130, 246)'
+                        )(outcome.prob);
 
-            <div className="space-y-1.5">
-                {sortedOutcomes.slice(0, 4).map((outcome, i) => {
-                    const percent = Math.round(outcome.prob * 100);
-                    // Color gradient based on probability
-                    const color = d3.interpolateRgb(
-                        'rgb(239, 68, 68)',
-                        'rgb(59, 130, 246)'
-                    )(outcome.prob);
-
-                    return (
-                        <div key={i} className="flex items-center gap-2">
-                            <div className="flex-1 h-1.5 bg-zinc-700 rounded-full overflow-hidden">
-                                <div
-                                    className="h-full"
-                                    style={{
-                                        width: `${percent}%`,
-                                        backgroundColor: color,
-                                    }}
-                                />
+                        return (
+                            <div key={i} className="flex items-center gap-2">
+                                <div className="flex-1 h-1.5 bg-zinc-700 rounded-full overflow-hidden">
+                                    <div
+                                        className="h-full"
+                                        style={{
+                                            width: `${percent}%`,
+                                            backgroundColor: color,
+                                        }}
+                                    />
+                                </div>
+                                <span className="text-[10px] text-zinc-400 w-20 truncate">
+                                    {outcome.name}
+                                </span>
+                                <span className="text-[10px] font-mono text-zinc-400 w-8 text-right">
+                                    {percent}%
+                                </span>
                             </div>
-                            <span className="text-[10px] text-zinc-400 w-20 truncate">
-                                {outcome.name}
-                            </span>
-                            <span className="text-[10px] font-mono text-zinc-400 w-8 text-right">
-                                {percent}%
-                            </span>
+                        );
+                    })}
+                    {sortedOutcomes.length > 4 && (
+                        <div className="text-[10px] text-zinc-500">
+                            +{sortedOutcomes.length - 4} more options
                         </div>
-                    );
-                })}
-                {sortedOutcomes.length > 4 && (
-                    <div className="text-[10px] text-zinc-500">
-                        +{sortedOutcomes.length - 4} more options
+                    )}
+                </div>
+
+                {market.volume > 0 && (
+                    <div className="mt-2 text-[10px] text-zinc-500">
+                        Vol: ${d3.format('.2s')(market.volume)}
                     </div>
                 )}
-            </div>
-
-            {market.volume > 0 && (
-                <div className="mt-2 text-[10px] text-zinc-500">
-                    Vol: ${d3.format('.2s')(market.volume)}
+            </a>
+            <StarButton kind="market" id={market.id} className="absolute top-2 right-2" />
+            {outcomeTokens.length > 0 && (
+                <button
+                    onClick={() => setIsExpanded(!isExpanded)}
+                    className="absolute bottom-2 right-2 flex items-center gap-0.5 px-1.5 py-0.5 rounded text-[10px] text-zinc-500 hover:text-white hover:bg-zinc-700 transition-colors"
+                    aria-expanded={isExpanded}
+                >
+                    Book
+                    <ChevronDown
+                        className={`w-3 h-3 transition-transform ${isExpanded ? 'rotate-180' : ''}`}
+                    />
+                </button>
+            )}
+            {isExpanded && selectedTokenId && (
+                <div className="mt-1 p-3 bg-zinc-800/30 rounded-lg space-y-3">
+                    <div className="flex flex-wrap gap-1">
+                        {outcomeTokens.map((outcome) => (
+                            <button
+                                key={outcome.tokenId}
+                                onClick={() => setSelectedTokenId(outcome.tokenId)}
+                                className={`px-2 py-0.5 text-[10px] rounded transition-colors ${
+                                    selectedTokenId === outcome.tokenId
+                                        ? 'bg-blue-600 text-white'
+                                        : 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700'
+                                }`}
+                            >
+                                {outcome.name}
+                            </button>
+                        ))}
+                    </div>
+                    <OrderBookDepth tokenId={selectedTokenId} />
+                    {market.conditionId && (
+                        <TradeTape conditionId={market.conditionId} tokenId={selectedTokenId} />
+                    )}
                 </div>
             )}
-        </a>
+        </div>
     );
 }
 
@@ -176,12 +255,15 @@ export default function EventPanel({ event, isOpen, onClose }: EventPanelProps)
                         <h2 className="text-lg font-semibold text-white line-clamp-2">
                             {event.title}
                         </h2>
-                        <button
-                            onClick={onClose}
-                            className="p-1.5 rounded-lg hover:bg-zinc-700 transition-colors flex-shrink-0"
-                        >
-                            <X className="w-5 h-5 text-zinc-400" />
-                        </button>
+                        <div className="flex items-center gap-1 flex-shrink-0">
+                            <StarButton kind="event" id={event.id} />
+                            <button
+                                onClick={onClose}
+                                className="p-1.5 rounded-lg hover:bg-zinc-700 transition-colors"
+                            >
+                                <X className="w-5 h-5 text-zinc-400" />
+                            </button>
+                        </div>
                     </div>
                 </div>
 
@@ -254,6 +336,14 @@ export default function EventPanel({ event, isOpen, onClose }: EventPanelProps)
                         </div>
                     )}
 
+                    {/* Price History */}
+                    <div>
+                        <h3 className="text-sm font-medium text-zinc-400 mb-2">
+                            Price History
+                        </h3>
+                        <PriceHistoryChart key={event.id} markets={sortedMarkets} />
+                    </div>
+
                     {/* Markets */}
                     <div>
                         <h3 className="text-sm font-medium text-zinc-400 mb-3">
@@ -0,0 +1,232 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+    X,
+    Activity,
+    TrendingUp,
+    TrendingDown,
+    Zap,
+    PlusCircle,
+    XCircle,
+    Network,
+    Trash2,
+} from 'lucide-react';
+import * as d3 from 'd3';
+import { ChangeKind, ChangeRecord } from '@/lib/types';
+import { useMovers } from '@/hooks/useMovers';
+
+interface MoversPanelProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onShowInHeatMap: (change: ChangeRecord) => void;
+    onShowDependencies: (marketId: string) => void;
+}
+
+const KIND_FILTERS: Array<{ id: ChangeKind | 'all'; label: string }> = [
+    { id: 'all', label: 'All' },
+    { id: 'probability', label: 'Price' },
+    { id: 'volume-spike', label: 'Volume' },
+    { id: 'new-market', label: 'New' },
+    { id: 'closed-market', label: 'Closed' },
+];
+
+function formatTime(timestamp: number): string {
+    return new Date(timestamp).toLocaleTimeString([], {
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+    });
+}
+
+// ============================================
+// Change Summary
+// ============================================
+
+function ChangeIcon({ change }: { change: ChangeRecord }) {
+    switch (change.kind) {
+        case 'probability':
+            return change.delta >= 0 ? (
+                <TrendingUp className="w-4 h-4 text-green-400" />
+            ) : (
+                <TrendingDown className="w-4 h-4 text-red-400" />
+            );
+        case 'volume-spike':
+            return <Zap className="w-4 h-4 text-yellow-400" />;
+        case 'new-market':
+            return <PlusCircle className="w-4 h-4 text-blue-400" />;
+        case 'closed-market':
+            return <XCircle className="w-4 h-4 text-zinc-500" />;
+    }
+}
+
+function ChangeSummary({ change }: { change: ChangeRecord }) {
+    switch (change.kind) {
+        case 'probability':
+            return (
+                <span className="font-mono">
+                    {Math.round(change.from * 100)}% → {Math.round(change.to * 100)}%{' '}
+                    <span className={change.delta >= 0 ? 'text-green-400' : 'text-red-400'}>
+                        ({change.delta >= 0 ? '+' : ''}
+                        {(change.delta * 100).toFixed(1)}pp)
+                    </span>
+                </span>
+            );
+        case 'volume-spike':
+            return (
+                <span className="font-mono">
+                    +${d3.format('.2s')(change.volumeAdded)}{' '}
+                    <span className="text-yellow-400">({change.ratio.toFixed(0)}× normal)</span>
+                </span>
+            );
+        case 'new-market':
+            return (
+                <span className="font-mono">
+                    New at {Math.round(change.outcomeProb * 100)}% · ${d3.format('.2s')(change.volume)} vol
+                </span>
+            );
+        case 'closed-market':
+            return (
+                <span className="font-mono">
+                    Closed / delisted at {Math.round(change.lastProb * 100)}%
+                </span>
+            );
+    }
+}
+
+// ============================================
+// Change Row
+// ============================================
+
+interface ChangeRowProps {
+    change: ChangeRecord;
+    onShowInHeatMap: () => void;
+    onShowDependencies: () => void;
+}
+
+function ChangeRow({ change, onShowInHeatMap, onShowDependencies }: ChangeRowProps) {
+    // Closed markets are gone from the live data, so there is nothing to jump to
+    const canNavigate = change.kind !== 'closed-market';
+
+    return (
+        <div className="flex items-start gap-2 p-3 bg-zinc-800/50 rounded-lg hover:bg-zinc-700/50 transition-colors group">
+            <button
+                onClick={onShowInHeatMap}
+                disabled={!canNavigate}
+                className="flex-1 min-w-0 flex items-start gap-2 text-left disabled:cursor-default"
+                title={canNavigate ? 'Show in Heat Map' : undefined}
+            >
+                <div className="mt-0.5 flex-shrink-0">
+                    <ChangeIcon change={change} />
+                </div>
+                <div className="flex-1 min-w-0">
+                    <div className="text-sm text-zinc-200 line-clamp-2 group-hover:text-white">
+                        {change.question}
+                    </div>
+                    <div className="text-[11px] text-zinc-500 truncate mt-0.5">
+                        {change.eventTitle}
+                    </div>
+                    <div className="flex items-center justify-between gap-2 mt-1 text-xs text-zinc-400">
+                        <ChangeSummary change={change} />
+                        <span className="text-[10px] text-zinc-600 flex-shrink-0">
+                            {formatTime(change.timestamp)}
+                        </span>
+                    </div>
+                </div>
+            </button>
+            {canNavigate && (
+                <button
+                    onClick={onShowDependencies}
+                    className="p-1 rounded text-zinc-500 hover:text-white hover:bg-zinc-600 transition-colors flex-shrink-0"
+                    title="Show dependencies"
+                >
+                    <Network className="w-3.5 h-3.5" />
+                </button>
+            )}
+        </div>
+    );
+}
+
+// ============================================
+// Main Panel Component
+// ============================================
+
+export default function MoversPanel({
+    isOpen,
+    onClose,
+    onShowInHeatMap,
+    onShowDependencies,
+}: MoversPanelProps) {
+    const [kindFilter, setKindFilter] = useState<ChangeKind | 'all'>('all');
+    const { changes, totalCount, clear } = useMovers(kindFilter);
+
+    if (!isOpen) return null;
+
+    return (
+        <aside className="w-80 flex-shrink-0 flex flex-col border-l border-zinc-800 bg-zinc-900">
+            {/* Header */}
+            <div className="p-4 border-b border-zinc-800">
+                <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                        <Activity className="w-4 h-4 text-blue-400" />
+                        <h2 className="text-sm font-semibold text-white">Movers</h2>
+                        <span className="text-xs text-zinc-500">{totalCount}</span>
+                    </div>
+                    <div className="flex items-center gap-1">
+                        <button
+                            onClick={clear}
+                            disabled={totalCount === 0}
+                            className="p-1.5 rounded-lg text-zinc-400 hover:bg-zinc-700 hover:text-white transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+                            title="Clear feed"
+                        >
+                            <Trash2 className="w-4 h-4" />
+                        </button>
+                        <button
+                            onClick={onClose}
+                            className="p-1.5 rounded-lg hover:bg-zinc-700 transition-colors"
+                        >
+                            <X className="w-4 h-4 text-zinc-400" />
+                        </button>
+                    </div>
+                </div>
+
+                {/* Kind filter */}
+                <div className="flex gap-1 mt-3">
+                    {KIND_FILTERS.map((filter) => (
+                        <button
+                            key={filter.id}
+                            onClick={() => setKindFilter(filter.id)}
+                            className={`flex-1 px-2 py-1 text-xs rounded transition-colors ${
+                                kindFilter === filter.id
+                                    ? 'bg-blue-600 text-white'
+                                    : 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700'
+                            }`}
+                        >
+                            {filter.label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {/* Feed */}
+            <div className="flex-1 overflow-y-auto p-3 space-y-2">
+                {changes.length === 0 ? (
+                    <p className="text-xs text-zinc-500 text-center mt-8 px-4">
+                        {totalCount === 0
+                            ? 'Changes between polls will appear here as live data refreshes.'
+                            : 'No changes of this type yet.'}
+                    </p>
+                ) : (
+                    changes.map((change) => (
+                        <ChangeRow
+                            key={change.id}
+                            change={change}
+                            onShowInHeatMap={() => onShowInHeatMap(change)}
+                            onShowDependencies={() => onShowDependencies(change.marketId)}
+                        />
+                    ))
+                )}
+            </div>
+        </aside>
+    );
+}
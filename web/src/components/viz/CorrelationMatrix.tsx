@@ -0,0 +1,354 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import * as d3 from 'd3';
+import { Loader2 } from 'lucide-react';
+import { Category, CorrelationMethod, ProcessedEvent, TimeWindow } from '@/lib/types';
+import { CORRELATION_METHODS, getMethodLabel } from '@/lib/correlation';
+import { DendrogramNode } from '@/lib/hierarchicalClustering';
+import { PRESET_WINDOWS } from '@/lib/timeWindow';
+import { MatrixMarket, useCorrelationMatrix } from '@/hooks/useCorrelationMatrix';
+import PairDetailModal from '@/components/viz/DependencyMap/PairDetailModal';
+
+interface CorrelationMatrixProps {
+    events: ProcessedEvent[];
+    categories: Category[];
+}
+
+type MatrixOrder = 'cluster' | 'volume';
+
+const TOP_N_OPTIONS = [10, 20, 30, 50];
+const ORDER_OPTIONS: Array<{ id: MatrixOrder; label: string }> = [
+    { id: 'cluster', label: 'Clustered' },
+    { id: 'volume', label: 'Volume' },
+];
+
+const DENDROGRAM_SIZE = 60;
+const LABEL_WIDTH = 240;
+const GRID_TARGET = 640; // Approximate grid size in px
+
+const colorScale = d3
+    .scaleLinear<string>()
+    .domain([-1, 0, 1])
+    .range(['#ef4444', '#27272a', '#22c55e'])
+    .clamp(true);
+
+function truncateText(text: string, maxLength: number): string {
+    return text.length <= maxLength ? text : text.slice(0, maxLength - 1) + '…';
+}
+
+// ============================================
+// Dendrogram
+// ============================================
+
+/**
+ * Elbow paths for a dendrogram in (along, depth) coordinates: `along` runs
+ * with the matrix rows/columns, `depth` grows away from the matrix edge.
+ */
+function buildDendrogramPaths(
+    root: DendrogramNode,
+    leafCenter: (leaf: number) => number,
+    depthOf: (height: number) => number
+): Array<Array<[number, number]>> {
+    const paths: Array<Array<[number, number]>> = [];
+
+    const visit = (node: DendrogramNode): number => {
+        if (!node.children) return leafCenter(node.id);
+        const [left, right] = node.children;
+        const leftAlong = visit(left);
+        const rightAlong = visit(right);
+        const depth = depthOf(node.height);
+        paths.push([
+            [leftAlong, depthOf(left.height)],
+            [leftAlong, depth],
+            [rightAlong, depth],
+            [rightAlong, depthOf(right.height)],
+        ]);
+        return (leftAlong + rightAlong) / 2;
+    };
+
+    visit(root);
+    return paths;
+}
+
+// ============================================
+// Main Component
+// ============================================
+
+/**
+ * Market-wide correlation heat-matrix for the top markets by volume, ordered
+ * by hierarchical clustering with dendrograms along the top and left edges.
+ * Clicking a cell opens the pairwise drill-down.
+ */
+export default function CorrelationMatrix({ events, categories }: CorrelationMatrixProps) {
+    const [categoryId, setCategoryId] = useState<string | null>(null);
+    const [topN, setTopN] = useState(20);
+    const [timeWindow, setTimeWindow] = useState<TimeWindow>('7d');
+    const [method, setMethod] = useState<CorrelationMethod>('pearson');
+    const [order, setOrder] = useState<MatrixOrder>('cluster');
+    const [hovered, setHovered] = useState<{ row: number; col: number } | null>(null);
+    const [selectedPair, setSelectedPair] = useState<[MatrixMarket, MatrixMarket] | null>(null);
+
+    const { markets, matrix, clustering, isLoading, isError } = useCorrelationMatrix(events, {
+        categoryId,
+        topN,
+        timeWindow,
+        method,
+    });
+
+    const n = markets.length;
+    const cell = Math.max(10, Math.min(32, Math.floor(GRID_TARGET / Math.max(n, 1))));
+    const gridSize = n * cell;
+    const showDendrogram = order === 'cluster' && !!clustering.root && n > 1;
+
+    // Market indices in display order (rows and columns alike)
+    const ordering = useMemo(
+        () => (order === 'cluster' && clustering.order.length === n ? clustering.order : markets.map((_, i) => i)),
+        [order, clustering.order, markets, n]
+    );
+
+    const dendrogram = useMemo(() => {
+        if (!showDendrogram || !clustering.root) return null;
+        const position = new Map(ordering.map((index, i) => [index, i]));
+        const depth = d3
+            .scaleLinear()
+            .domain([0, clustering.root.height || 1])
+            .range([0, DENDROGRAM_SIZE - 6]);
+        return buildDendrogramPaths(
+            clustering.root,
+            (leaf) => ((position.get(leaf) ?? 0) + 0.5) * cell,
+            (height) => depth(height)
+        );
+    }, [showDendrogram, clustering.root, ordering, cell]);
+
+    const hoveredValue = hovered ? (matrix.values[hovered.row]?.[hovered.col] ?? null) : null;
+    const hasData = matrix.values.some((row, i) => row.some((value, j) => i !== j && Number.isFinite(value)));
+
+    const origin = DENDROGRAM_SIZE + 4;
+    const svgWidth = origin + gridSize + 8 + LABEL_WIDTH;
+    const svgHeight = origin + gridSize + 4;
+
+    return (
+        <div className="flex flex-col h-full w-full">
+            {/* Controls */}
+            <div className="flex flex-wrap items-center gap-4 p-4 border-b border-zinc-800 text-sm">
+                <div className="flex items-center gap-1">
+                    <span className="text-zinc-500 text-xs">Scope:</span>
+                    <select
+                        value={categoryId || ''}
+                        onChange={(e) => setCategoryId(e.target.value || null)}
+                        className="bg-zinc-800 text-zinc-300 text-xs rounded px-1.5 py-0.5 border-none focus:ring-0"
+                    >
+                        <option value="">All categories</option>
+                        {categories.map((category) => (
+                            <option key={category.id} value={category.id}>
+                                {category.name}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+
+                <div className="flex items-center gap-1">
+                    <span className="text-zinc-500 text-xs">Top:</span>
+                    <div className="flex bg-zinc-800 rounded-md p-0.5">
+                        {TOP_N_OPTIONS.map((option) => (
+                            <button
+                                key={option}
+                                onClick={() => setTopN(option)}
+                                className={`px-2 py-0.5 text-xs rounded transition-colors ${
+                                    topN === option ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-white'
+                                }`}
+                            >
+                                {option}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="flex items-center gap-1">
+                    <span className="text-zinc-500 text-xs">Window:</span>
+                    <div className="flex bg-zinc-800 rounded-md p-0.5">
+                        {PRESET_WINDOWS.map(({ id, label }) => (
+                            <button
+                                key={id}
+                                onClick={() => setTimeWindow(id)}
+                                className={`px-2 py-0.5 text-xs rounded transition-colors ${
+                                    timeWindow === id ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-white'
+                                }`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="flex items-center gap-1">
+                    <span className="text-zinc-500 text-xs">Method:</span>
+                    <select
+                        value={method}
+                        onChange={(e) => setMethod(e.target.value as CorrelationMethod)}
+                        className="bg-zinc-800 text-zinc-300 text-xs rounded px-1.5 py-0.5 border-none focus:ring-0"
+                    >
+                        {CORRELATION_METHODS.map((option) => (
+                            <option key={option.id} value={option.id}>
+                                {option.label}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+
+                <div className="flex items-center gap-1">
+                    <span className="text-zinc-500 text-xs">Order:</span>
+                    <div className="flex bg-zinc-800 rounded-md p-0.5">
+                        {ORDER_OPTIONS.map(({ id, label }) => (
+                            <button
+                                key={id}
+                                onClick={() => setOrder(id)}
+                                className={`px-2 py-0.5 text-xs rounded transition-colors ${
+                                    order === id ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-white'
+                                }`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                {/* Hover readout */}
+                <div className="flex-1 min-w-0 text-xs text-right text-zinc-500 truncate">
+                    {hovered ? (
+                        <>
+                            <span className="text-zinc-300">{markets[hovered.row]?.question}</span>
+                            {' × '}
+                            <span className="text-zinc-300">{markets[hovered.col]?.question}</span>
+                            {': '}
+                            <span
+                                className={`font-mono font-bold ${
+                                    hoveredValue !== null && hoveredValue < 0 ? 'text-red-400' : 'text-green-400'
+                                }`}
+                            >
+                                {hoveredValue === null || !Number.isFinite(hoveredValue)
+                                    ? 'n/a'
+                                    : `${hoveredValue > 0 ? '+' : ''}${(hoveredValue * 100).toFixed(0)}%`}
+                            </span>
+                            <span className="ml-1">(n={matrix.counts[hovered.row]?.[hovered.col] ?? 0})</span>
+                        </>
+                    ) : (
+                        `${n} markets · ${getMethodLabel(method)} over ${timeWindow}`
+                    )}
+                </div>
+            </div>
+
+            {/* Matrix */}
+            <div className="flex-1 relative overflow-auto p-4">
+                {isLoading && !hasData && (
+                    <div className="absolute inset-0 flex items-center justify-center bg-zinc-950/80 z-10">
+                        <div className="flex items-center gap-3 text-zinc-400">
+                            <Loader2 className="w-5 h-5 animate-spin" />
+                            <span>Loading price data...</span>
+                        </div>
+                    </div>
+                )}
+
+                {isError && (
+                    <div className="flex items-center justify-center h-full text-red-400 text-sm">
+                        Failed to load price history
+                    </div>
+                )}
+
+                {n < 2 && !isLoading && (
+                    <div className="flex items-center justify-center h-full text-zinc-500 text-sm">
+                        Not enough markets with price history in this scope
+                    </div>
+                )}
+
+                {n >= 2 && (
+                    <svg width={svgWidth} height={svgHeight} onMouseLeave={() => setHovered(null)}>
+                        {/* Dendrograms: top (columns) and left (rows) */}
+                        {dendrogram && (
+                            <g stroke="rgb(113, 113, 122)" strokeWidth={1} fill="none">
+                                {dendrogram.map((points, i) => (
+                                    <React.Fragment key={i}>
+                                        <polyline
+                                            points={points
+                                                .map(([along, depth]) => `${origin + along},${DENDROGRAM_SIZE - depth}`)
+                                                .join(' ')}
+                                        />
+                                        <polyline
+                                            points={points
+                                                .map(([along, depth]) => `${DENDROGRAM_SIZE - depth},${origin + along}`)
+                                                .join(' ')}
+                                        />
+                                    </React.Fragment>
+                                ))}
+                            </g>
+                        )}
+
+                        {/* Cells */}
+                        <g transform={`translate(${origin}, ${origin})`}>
+                            {ordering.map((row, i) =>
+                                ordering.map((col, j) => {
+                                    const value = matrix.values[row][col];
+                                    const hasValue = Number.isFinite(value);
+                                    const isClickable = row !== col && hasValue;
+                                    return (
+                                        <rect
+                                            key={`${row}-${col}`}
+                                            x={j * cell}
+                                            y={i * cell}
+                                            width={cell - 1}
+                                            height={cell - 1}
+                                            fill={hasValue ? colorScale(value) : 'rgb(24, 24, 27)'}
+                                            stroke={
+                                                hovered && (hovered.row === row || hovered.col === col)
+                                                    ? 'rgb(161, 161, 170)'
+                                                    : 'none'
+                                            }
+                                            strokeWidth={0.5}
+                                            className={isClickable ? 'cursor-pointer' : undefined}
+                                            onMouseEnter={() => setHovered({ row, col })}
+                                            onClick={() =>
+                                                isClickable && setSelectedPair([markets[row], markets[col]])
+                                            }
+                                        />
+                                    );
+                                })
+                            )}
+                        </g>
+
+                        {/* Row labels */}
+                        <g transform={`translate(${origin + gridSize + 8}, ${origin})`}>
+                            {ordering.map((index, i) => (
+                                <text
+                                    key={markets[index].id}
+                                    y={i * cell + cell / 2}
+                                    dominantBaseline="middle"
+                                    className={
+                                        hovered && (hovered.row === index || hovered.col === index)
+                                            ? 'fill-white'
+                                            : 'fill-zinc-400'
+                                    }
+                                    style={{ fontSize: `${Math.min(12, Math.max(9, cell * 0.6))}px` }}
+                                >
+                                    <title>{`${markets[index].question}\n${markets[index].eventTitle}`}</title>
+                                    {truncateText(markets[index].question, 40)}
+                                </text>
+                            ))}
+                        </g>
+                    </svg>
+                )}
+            </div>
+
+            {/* Pairwise drill-down */}
+            {selectedPair && (
+                <PairDetailModal
+                    source={selectedPair[0]}
+                    target={selectedPair[1]}
+                    timeWindow={timeWindow}
+                    method={method}
+                    onClose={() => setSelectedPair(null)}
+                />
+            )}
+        </div>
+    );
+}
@@ -1,7 +1,9 @@
 'use client';
 
 import React from 'react';
-import { DependencyMapFilters, TimeWindow } from '@/lib/types';
+import { DependencyMapFilters, TimeRange } from '@/lib/types';
+import { PRESET_WINDOWS, getPriceHistoryQuery } from '@/lib/timeWindow';
+import { CORRELATION_METHODS, SIGNIFICANCE_LEVEL, formatLag } from '@/lib/correlation';
 import { SlidersHorizontal } from 'lucide-react';
 
 interface DependencyFiltersProps {
@@ -14,14 +16,30 @@ interface DependencyFiltersProps {
         correlationEdges: number;
         entityEdges: number;
         temporalEdges: number;
+        implicationEdges: number;
+        violations: number;
+        communities: number;
     };
 }
 
-const TIME_WINDOWS: { value: TimeWindow; label: string }[] = [
-    { value: '1h', label: '1H' },
-    { value: '24h', label: '24H' },
-    { value: '7d', label: '7D' },
-];
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_CUSTOM_DAYS = 14;
+const LAG_OPTIONS = [0, 1, 2, 3, 5, 10]; // History points
+const DEPTH_OPTIONS = [1, 2, 3];
+
+// <input type="date"> values are local calendar days
+function toDateInput(ms: number): string {
+    const date = new Date(ms);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function fromDateInput(value: string, endOfDay: boolean): number | null {
+    if (!value) return null;
+    const date = new Date(`${value}T00:00:00`);
+    if (Number.isNaN(date.getTime())) return null;
+    return endOfDay ? date.getTime() + DAY_MS - 1000 : date.getTime();
+}
 
 const DEPENDENCY_TYPES: { value: DependencyMapFilters['dependencyType']; label: string; color?: string }[] = [
     { value: 'all', label: 'All' },
@@ -29,6 +47,7 @@ const DEPENDENCY_TYPES: { value: DependencyMapFilters['dependencyType']; label:
     { value: 'correlation', label: 'Corr', color: '#22c55e' },
     { value: 'entity', label: 'Entity', color: '#3b82f6' },
     { value: 'temporal', label: 'Time', color: '#a855f7' },
+    { value: 'implication', label: 'Implies', color: '#f59e0b' },
 ];
 
 export default function DependencyFilters({
@@ -36,6 +55,27 @@ export default function DependencyFilters({
     onFiltersChange,
     stats,
 }: DependencyFiltersProps) {
+    const selectCustom = () => {
+        const end = Date.now();
+        onFiltersChange({
+            ...filters,
+            timeWindow: 'custom',
+            customRange: filters.customRange || { start: end - DEFAULT_CUSTOM_DAYS * DAY_MS, end },
+        });
+    };
+
+    const updateRange = (patch: Partial<TimeRange>) => {
+        if (!filters.customRange) return;
+        const next = { ...filters.customRange, ...patch };
+        if (next.start < next.end) {
+            onFiltersChange({ ...filters, customRange: next });
+        }
+    };
+
+    // Lags are measured in history points; their duration follows the window's fidelity
+    const stepMs = getPriceHistoryQuery(filters.timeWindow, filters.customRange).fidelity * 60000;
+    const stepLabel = formatLag(stepMs);
+
     return (
         <div className="flex items-center gap-4 text-sm">
             {/* Stats */}
@@ -43,6 +83,20 @@ export default function DependencyFilters({
                 <span>{stats.totalNodes} nodes</span>
                 <span className="text-zinc-600">|</span>
                 <span>{stats.totalEdges} edges</span>
+                {filters.scope === 'global' && (
+                    <>
+                        <span className="text-zinc-600">|</span>
+                        <span>{stats.communities} communities</span>
+                    </>
+                )}
+                {stats.violations > 0 && (
+                    <>
+                        <span className="text-zinc-600">|</span>
+                        <span className="text-rose-400" title="Implied markets trading below the markets that imply them">
+                            {stats.violations} violation{stats.violations === 1 ? '' : 's'}
+                        </span>
+                    </>
+                )}
             </div>
 
             <div className="h-4 w-px bg-zinc-700" />
@@ -51,12 +105,12 @@ export default function DependencyFilters({
             <div className="flex items-center gap-1">
                 <span className="text-zinc-500 text-xs">Window:</span>
                 <div className="flex bg-zinc-800 rounded-md p-0.5">
-                    {TIME_WINDOWS.map(({ value, label }) => (
+                    {PRESET_WINDOWS.map(({ id, label }) => (
                         <button
-                            key={value}
-                            onClick={() => onFiltersChange({ ...filters, timeWindow: value })}
+                            key={id}
+                            onClick={() => onFiltersChange({ ...filters, timeWindow: id })}
                             className={`px-2 py-0.5 text-xs rounded transition-colors ${
-                                filters.timeWindow === value
+                                filters.timeWindow === id
                                     ? 'bg-zinc-700 text-white'
                                     : 'text-zinc-400 hover:text-white'
                             }`}
@@ -64,7 +118,40 @@ export default function DependencyFilters({
                             {label}
                         </button>
                     ))}
+                    <button
+                        onClick={selectCustom}
+                        className={`px-2 py-0.5 text-xs rounded transition-colors ${
+                            filters.timeWindow === 'custom'
+                                ? 'bg-zinc-700 text-white'
+                                : 'text-zinc-400 hover:text-white'
+                        }`}
+                    >
+                        Custom
+                    </button>
                 </div>
+                {filters.timeWindow === 'custom' && filters.customRange && (
+                    <div className="flex items-center gap-1 ml-1">
+                        <input
+                            type="date"
+                            value={toDateInput(filters.customRange.start)}
+                            onChange={(e) => {
+                                const start = fromDateInput(e.target.value, false);
+                                if (start !== null) updateRange({ start });
+                            }}
+                            className="bg-zinc-800 text-zinc-300 text-xs rounded px-1.5 py-0.5 border-none focus:ring-0 [color-scheme:dark]"
+                        />
+                        <span className="text-zinc-600 text-xs">–</span>
+                        <input
+                            type="date"
+                            value={toDateInput(filters.customRange.end)}
+                            onChange={(e) => {
+                                const end = fromDateInput(e.target.value, true);
+                                if (end !== null) updateRange({ end });
+                            }}
+                            className="bg-zinc-800 text-zinc-300 text-xs rounded px-1.5 py-0.5 border-none focus:ring-0 [color-scheme:dark]"
+                        />
+                    </div>
+                )}
             </div>
 
             {/* Dependency Type */}
@@ -93,6 +180,30 @@ export default function DependencyFilters({
                 </div>
             </div>
 
+            {/* Correlation Method */}
+            <div
+                className="flex items-center gap-1"
+                title={CORRELATION_METHODS.find((option) => option.id === filters.correlationMethod)?.description}
+            >
+                <span className="text-zinc-500 text-xs">Method:</span>
+                <select
+                    value={filters.correlationMethod}
+                    onChange={(e) =>
+                        onFiltersChange({
+                            ...filters,
+                            correlationMethod: e.target.value as DependencyMapFilters['correlationMethod'],
+                        })
+                    }
+                    className="bg-zinc-800 text-zinc-300 text-xs rounded px-1.5 py-0.5 border-none focus:ring-0"
+                >
+                    {CORRELATION_METHODS.map((option) => (
+                        <option key={option.id} value={option.id}>
+                            {option.label}
+                        </option>
+                    ))}
+                </select>
+            </div>
+
             {/* Correlation Threshold */}
             <div className="flex items-center gap-2">
                 <SlidersHorizontal className="w-3 h-3 text-zinc-500" />
@@ -128,8 +239,68 @@ export default function DependencyFilters({
                 <span className="text-zinc-400 text-xs">Cross-event</span>
             </label>
 
+            {/* Significance Toggle */}
+            <label
+                className="flex items-center gap-1.5 cursor-pointer"
+                title={`Only keep correlations with a Benjamini-Hochberg adjusted p-value ≤ ${SIGNIFICANCE_LEVEL}`}
+            >
+                <input
+                    type="checkbox"
+                    checked={filters.significantOnly}
+                    onChange={(e) =>
+                        onFiltersChange({ ...filters, significantOnly: e.target.checked })
+                    }
+                    className="w-3 h-3 rounded border-zinc-600 bg-zinc-800 text-blue-500 focus:ring-0"
+                />
+                <span className="text-zinc-400 text-xs">Significant only</span>
+            </label>
+
+            {/* Lead/Lag Range */}
+            <div
+                className="flex items-center gap-1"
+                title={`Search up to ${filters.maxLag} history points (${stepLabel} each) either way for a market that moves first`}
+            >
+                <span className="text-zinc-500 text-xs">Lag:</span>
+                <select
+                    value={filters.maxLag}
+                    onChange={(e) =>
+                        onFiltersChange({ ...filters, maxLag: parseInt(e.target.value) })
+                    }
+                    className="bg-zinc-800 text-zinc-300 text-xs rounded px-1.5 py-0.5 border-none focus:ring-0"
+                >
+                    {LAG_OPTIONS.map((steps) => (
+                        <option key={steps} value={steps}>
+                            {steps === 0 ? 'Off' : `±${formatLag(steps * stepMs)}`}
+                        </option>
+                    ))}
+                </select>
+            </div>
+
+            {/* Depth (ego mode) */}
+            {filters.scope === 'ego' && (
+                <div className="flex items-center gap-1" title="Hops from the center market">
+                    <span className="text-zinc-500 text-xs">Depth:</span>
+                    <select
+                        value={filters.depth}
+                        onChange={(e) =>
+                            onFiltersChange({ ...filters, depth: parseInt(e.target.value) })
+                        }
+                        className="bg-zinc-800 text-zinc-300 text-xs rounded px-1.5 py-0.5 border-none focus:ring-0"
+                    >
+                        {DEPTH_OPTIONS.map((depth) => (
+                            <option key={depth} value={depth}>
+                                {depth} hop{depth === 1 ? '' : 's'}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+            )}
+
             {/* Max Edges */}
-            <div className="flex items-center gap-1">
+            <div
+                className="flex items-center gap-1"
+                title={filters.scope === 'global' ? 'Strongest edges kept per market' : 'Neighbours of the selected market'}
+            >
                 <span className="text-zinc-500 text-xs">Max:</span>
                 <select
                     value={filters.maxEdges}
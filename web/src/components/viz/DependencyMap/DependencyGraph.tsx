@@ -3,6 +3,9 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
 import * as d3 from 'd3';
 import { DependencyGraph, DependencyNode, DependencyEdge } from '@/lib/types';
+import { getCommunityColor } from '@/lib/community';
+import { getCategoryColor } from '@/lib/categories';
+import { INCONSISTENCY_THRESHOLD, formatOverround } from '@/lib/arbitrage';
 import { RotateCcw } from 'lucide-react';
 
 // ============================================
@@ -14,7 +17,9 @@ interface DependencyGraphProps {
     width: number;
     height: number;
     onNodeClick?: (node: DependencyNode) => void;
+    onNodeExpand?: (node: DependencyNode) => void; // Shift-click: add the node's own dependencies
     onEdgeHover?: (edge: DependencyEdge | null, event?: React.MouseEvent) => void;
+    onEdgeClick?: (edge: DependencyEdge) => void;
 }
 
 interface SimNode extends DependencyNode {
@@ -34,19 +39,9 @@ interface SimLink {
 // Color Scales
 // ============================================
 
-const CATEGORY_COLORS: Record<string, string> = {
-    'politics': '#ef4444', // red
-    'crypto': '#f97316', // orange
-    'sports': '#22c55e', // green
-    'pop-culture': '#a855f7', // purple
-    'business': '#3b82f6', // blue
-    'science': '#06b6d4', // cyan
-    'world': '#eab308', // yellow
-    'other': '#71717a', // gray
-};
-
-function getCategoryColor(categoryId: string): string {
-    return CATEGORY_COLORS[categoryId] || CATEGORY_COLORS['other'];
+/** Nodes are colored by community in the global graph, by category otherwise. */
+function getNodeColor(node: DependencyNode): string {
+    return node.communityId !== undefined ? getCommunityColor(node.communityId) : getCategoryColor(node.categoryId);
 }
 
 function getEdgeColor(edge: DependencyEdge): string {
@@ -60,11 +55,62 @@ function getEdgeColor(edge: DependencyEdge): string {
             return '#3b82f6'; // Blue for shared entities
         case 'temporal':
             return '#a855f7'; // Purple for temporal proximity
+        case 'implication':
+            // Amber, or rose when the implied market trades below the implying one
+            return edge.violation !== undefined ? '#f43f5e' : '#f59e0b';
         default:
             return '#71717a';
     }
 }
 
+// Arrowheads for directed edges (lead/lag, implication), keyed by edge color
+const ARROW_MARKERS: Record<string, string> = {
+    '#22c55e': 'lead-arrow-positive',
+    '#ef4444': 'lead-arrow-negative',
+    '#f59e0b': 'implication-arrow',
+    '#f43f5e': 'implication-arrow-violated',
+};
+const ARROW_SIZE = 10;
+
+// Minimum gap between hop-distance rings in multi-hop ego graphs
+const MIN_RING_SPACING = 140;
+
+/**
+ * Midpoint badges: price violations of implications, and the over/underround
+ * of inconsistent exclusive events. Only one structural edge per event carries
+ * the latter, so a fan of sibling edges shows it once.
+ */
+function getEdgeBadges(links: SimLink[]): Map<string, { text: string; color: string }> {
+    const badges = new Map<string, { text: string; color: string }>();
+    const seenEvents = new Set<string>();
+    for (const { edge } of links) {
+        if (edge.type === 'implication' && edge.violation !== undefined) {
+            badges.set(edge.id, { text: `−${(edge.violation * 100).toFixed(1)}¢`, color: '#fb7185' }); // rose-400
+            continue;
+        }
+        if (edge.type !== 'structural' || edge.overround === undefined || !edge.sharedEventId) continue;
+        if (Math.abs(edge.overround) < INCONSISTENCY_THRESHOLD || seenEvents.has(edge.sharedEventId)) continue;
+        seenEvents.add(edge.sharedEventId);
+        badges.set(edge.id, {
+            text: formatOverround(edge.overround),
+            color: edge.overround > 0 ? '#fbbf24' : '#38bdf8', // amber-400 / sky-400
+        });
+    }
+    return badges;
+}
+
+/**
+ * Endpoint a directed edge starts from: the leader of a lagged correlation,
+ * or the implying market of an implication. Null for undirected edges.
+ */
+function getArrowTailId(edge: DependencyEdge): string | null {
+    const tail =
+        edge.type === 'correlation' && edge.lagMs ? edge.leaderId :
+        edge.type === 'implication' ? edge.antecedentId :
+        undefined;
+    return tail && (tail === edge.sourceId || tail === edge.targetId) ? tail : null;
+}
+
 // ============================================
 // Component
 // ============================================
@@ -74,7 +120,9 @@ export default function DependencyGraphViz({
     width,
     height,
     onNodeClick,
+    onNodeExpand,
     onEdgeHover,
+    onEdgeClick,
 }: DependencyGraphProps) {
     const svgRef = useRef<SVGSVGElement>(null);
     const gRef = useRef<SVGGElement>(null);
@@ -89,14 +137,23 @@ export default function DependencyGraphViz({
     const dragDistanceRef = useRef(0);
     const dragStartPos = useRef({ x: 0, y: 0 });
 
+    // Global graphs have no center and many more nodes, so draw them smaller
+    const isGlobal = graph.centerNodeId === null;
+
+    // Multi-hop ego graphs lay each hop out on its own ring around the center
+    const maxHop = isGlobal ? 0 : Math.max(0, ...graph.nodes.map((n) => n.hop || 0));
+    const ringSpacing = maxHop > 1
+        ? Math.max(MIN_RING_SPACING, (Math.min(width, height) * 0.45) / maxHop)
+        : 0;
+
     // Volume to radius scale
     const radiusScale = useCallback((volume: number) => {
-        const minRadius = 20;
-        const maxRadius = 50;
+        const minRadius = isGlobal ? 8 : 20;
+        const maxRadius = isGlobal ? 28 : 50;
         const maxVolume = Math.max(...graph.nodes.map(n => n.volume), 1);
         const normalized = Math.sqrt(volume / maxVolume);
         return minRadius + normalized * (maxRadius - minRadius);
-    }, [graph.nodes]);
+    }, [graph.nodes, isGlobal]);
 
     // Setup d3.zoom
     useEffect(() => {
@@ -175,11 +232,11 @@ export default function DependencyGraphViz({
         const simulation = d3.forceSimulation<SimNode>(simNodes)
             .force('link', d3.forceLink<SimNode, SimLink>(simLinks)
                 .id(d => d.id)
-                .distance(150)
+                .distance(isGlobal ? 80 : 150)
                 .strength(d => d.edge.weight * 0.5)
             )
             .force('charge', d3.forceManyBody<SimNode>()
-                .strength(-300)
+                .strength(isGlobal ? -120 : -300)
             )
             .force('center', d3.forceCenter(width / 2, height / 2))
             .force('collision', d3.forceCollide<SimNode>()
@@ -188,6 +245,14 @@ export default function DependencyGraphViz({
             .alphaDecay(0.05)
             .velocityDecay(0.4);
 
+        if (ringSpacing > 0) {
+            simulation.force('hops', d3.forceRadial<SimNode>(
+                d => (d.hop || 0) * ringSpacing,
+                width / 2,
+                height / 2
+            ).strength(d => (d.hop ? 0.6 : 0)));
+        }
+
         // Update state on each tick
         simulation.on('tick', () => {
             setNodes([...simNodes]);
@@ -199,7 +264,7 @@ export default function DependencyGraphViz({
         return () => {
             simulation.stop();
         };
-    }, [graph, width, height, radiusScale]);
+    }, [graph, width, height, radiusScale, isGlobal, ringSpacing]);
 
     // Handle node drag — inverse-transform mouse coords to simulation space
     const handleDragStart = useCallback((event: React.MouseEvent, node: SimNode) => {
@@ -236,8 +301,12 @@ export default function DependencyGraphViz({
     const handleNodeClick = useCallback((event: React.MouseEvent, node: SimNode) => {
         // Only trigger click if user didn't drag
         if (dragDistanceRef.current > 5) return;
+        if (event.shiftKey && onNodeExpand) {
+            onNodeExpand(node);
+            return;
+        }
         onNodeClick?.(node);
-    }, [onNodeClick]);
+    }, [onNodeClick, onNodeExpand]);
 
     const resetZoom = useCallback(() => {
         if (!svgRef.current || !zoomRef.current) return;
@@ -251,12 +320,13 @@ export default function DependencyGraphViz({
     if (!graph.nodes.length) {
         return (
             <div className="flex items-center justify-center h-full w-full text-zinc-500">
-                Select a market to view dependencies
+                {isGlobal ? 'No connected markets for these filters' : 'Select a market to view dependencies'}
             </div>
         );
     }
 
     const isZoomed = Math.abs(zoomScale - 1) > 0.01;
+    const edgeBadges = getEdgeBadges(links);
 
     return (
         <div className="relative w-full h-full">
@@ -274,8 +344,54 @@ export default function DependencyGraphViz({
                     className="zoom-bg"
                 />
 
+                {/* Arrowheads for lead/lag edges (fixed size regardless of stroke width) */}
+                <defs>
+                    {Object.entries(ARROW_MARKERS).map(([color, id]) => (
+                        <marker
+                            key={id}
+                            id={id}
+                            viewBox="0 0 10 10"
+                            refX={10}
+                            refY={5}
+                            markerWidth={ARROW_SIZE}
+                            markerHeight={ARROW_SIZE}
+                            markerUnits="userSpaceOnUse"
+                            orient="auto"
+                        >
+                            <path d="M 0 0 L 10 5 L 0 10 z" fill={color} />
+                        </marker>
+                    ))}
+                </defs>
+
                 {/* Zoomable group */}
                 <g ref={gRef}>
+                    {/* Hop-distance rings */}
+                    {ringSpacing > 0 && (
+                        <g className="hop-rings pointer-events-none">
+                            {d3.range(1, maxHop + 1).map((hop) => (
+                                <g key={hop}>
+                                    <circle
+                                        cx={width / 2}
+                                        cy={height / 2}
+                                        r={hop * ringSpacing}
+                                        fill="none"
+                                        stroke="#3f3f46"
+                                        strokeDasharray="2,6"
+                                    />
+                                    <text
+                                        x={width / 2}
+                                        y={height / 2 - hop * ringSpacing - 6}
+                                        textAnchor="middle"
+                                        className="fill-zinc-600"
+                                        style={{ fontSize: '10px' }}
+                                    >
+                                        {hop} hop{hop === 1 ? '' : 's'}
+                                    </text>
+                                </g>
+                            ))}
+                        </g>
+                    )}
+
                     {/* Edge lines */}
                     <g className="edges">
                         {links.map((link) => {
@@ -285,32 +401,79 @@ export default function DependencyGraphViz({
                                 link.edge.type === 'structural' ? '4,4' :
                                 link.edge.type === 'temporal' ? '8,4' :
                                 'none';
+                            const color = getEdgeColor(link.edge);
+
+                            // Directed edges point from the leader (or implying market),
+                            // stopping at the other end's rim so the arrowhead shows
+                            let [from, to] = [link.source, link.target];
+                            let x2 = to.x;
+                            let y2 = to.y;
+                            const tailId = getArrowTailId(link.edge);
+                            const isDirected = tailId !== null;
+                            if (isDirected) {
+                                if (tailId === link.target.id) [from, to] = [to, from];
+                                const dx = to.x - from.x;
+                                const dy = to.y - from.y;
+                                const distance = Math.sqrt(dx * dx + dy * dy) || 1;
+                                const inset = Math.min(radiusScale(to.volume) + 4, distance);
+                                x2 = to.x - (dx / distance) * inset;
+                                y2 = to.y - (dy / distance) * inset;
+                            }
 
                             return (
                                 <line
                                     key={link.edge.id}
-                                    x1={link.source.x}
-                                    y1={link.source.y}
-                                    x2={link.target.x}
-                                    y2={link.target.y}
-                                    stroke={getEdgeColor(link.edge)}
+                                    x1={from.x}
+                                    y1={from.y}
+                                    x2={x2}
+                                    y2={y2}
+                                    stroke={color}
+                                    markerEnd={isDirected ? `url(#${ARROW_MARKERS[color]})` : undefined}
                                     strokeWidth={strokeWidth}
                                     strokeOpacity={opacity}
                                     strokeDasharray={strokeDasharray}
                                     className="cursor-pointer transition-opacity hover:opacity-100"
                                     onMouseEnter={(e) => onEdgeHover?.(link.edge, e)}
                                     onMouseLeave={() => onEdgeHover?.(null)}
+                                    onClick={() => onEdgeClick?.(link.edge)}
                                 />
                             );
                         })}
                     </g>
 
+                    {/* Edge badges: implication violations, exclusive-event over/underround */}
+                    <g className="edge-badges pointer-events-none">
+                        {links
+                            .filter((link) => edgeBadges.has(link.edge.id))
+                            .map((link) => {
+                                const { text, color } = edgeBadges.get(link.edge.id)!;
+                                return (
+                                    <g
+                                        key={link.edge.id}
+                                        transform={`translate(${(link.source.x + link.target.x) / 2}, ${(link.source.y + link.target.y) / 2}) scale(${1 / zoomScale})`}
+                                    >
+                                        <rect x={-22} y={-9} width={44} height={18} rx={9} fill="#18181b" stroke={color} />
+                                        <text
+                                            textAnchor="middle"
+                                            dominantBaseline="middle"
+                                            fill={color}
+                                            className="font-mono"
+                                            style={{ fontSize: '10px' }}
+                                        >
+                                            {text}
+                                        </text>
+                                    </g>
+                                );
+                            })}
+                    </g>
+
                     {/* Nodes */}
                     <g className="nodes">
                         {nodes.map((node) => {
                             const radius = radiusScale(node.volume);
                             const isCenter = node.id === graph.centerNodeId;
-                            const categoryColor = getCategoryColor(node.categoryId);
+                            const isCommunity = !!node.memberIds;
+                            const nodeColor = getNodeColor(node);
                             const glowIntensity = (node.volatility || 0) * 15;
                             // Show more text when zoomed in
                             const labelMaxLen = Math.round(25 + (zoomScale - 1) * 30);
@@ -328,14 +491,20 @@ export default function DependencyGraphViz({
                                     onMouseUp={() => handleDragEnd(node)}
                                 >
                                     {/* Native SVG tooltip — full title on hover */}
-                                    <title>{node.question}</title>
+                                    <title>
+                                        {isCommunity
+                                            ? `${node.question}\n${node.memberIds!.length} markets (click to expand)`
+                                            : (node.leadingOutcome
+                                                ? `${node.question}\nLeading: ${node.leadingOutcome} (${Math.round(node.outcomeProb * 100)}%)`
+                                                : node.question) + (onNodeExpand ? '\nShift-click to expand' : '')}
+                                    </title>
 
                                     {/* Glow effect for volatility */}
                                     {glowIntensity > 0 && (
                                         <circle
                                             r={radius + 5}
                                             fill="none"
-                                            stroke={categoryColor}
+                                            stroke={nodeColor}
                                             strokeWidth={2}
                                             opacity={0.3}
                                             style={{
@@ -347,12 +516,23 @@ export default function DependencyGraphViz({
                                     {/* Main circle */}
                                     <circle
                                         r={radius}
-                                        fill={categoryColor}
+                                        fill={nodeColor}
                                         stroke={isCenter ? '#fff' : '#27272a'}
                                         strokeWidth={isCenter ? 3 : 2}
                                         className="transition-all duration-200 hover:brightness-110"
                                     />
 
+                                    {/* Collapsed community ring */}
+                                    {isCommunity && (
+                                        <circle
+                                            r={radius + 5}
+                                            fill="none"
+                                            stroke={nodeColor}
+                                            strokeWidth={1.5}
+                                            strokeDasharray="3,3"
+                                        />
+                                    )}
+
                                     {/* Center indicator */}
                                     {isCenter && (
                                         <circle
@@ -377,14 +557,14 @@ export default function DependencyGraphViz({
                                         </text>
                                     </g>
 
-                                    {/* Probability badge */}
+                                    {/* Probability badge (member count for communities) */}
                                     <text
                                         textAnchor="middle"
                                         dominantBaseline="middle"
                                         className="font-bold fill-white pointer-events-none"
-                                        style={{ fontSize: `${Math.max(10, radius / 3)}px` }}
+                                        style={{ fontSize: `${Math.max(isGlobal ? 8 : 10, radius / 3)}px` }}
                                     >
-                                        {Math.round(node.outcomeProb * 100)}%
+                                        {isCommunity ? node.memberIds!.length : `${Math.round(node.outcomeProb * 100)}%`}
                                     </text>
                                 </g>
                             );
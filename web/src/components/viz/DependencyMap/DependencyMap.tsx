@@ -1,13 +1,22 @@
 'use client';
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { ProcessedEvent, DependencyMapFilters, DependencyEdge, DependencyNode } from '@/lib/types';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { ProcessedEvent, DependencyMapFilters, DependencyEdge, DependencyNode, DependencyScope } from '@/lib/types';
 import { useDependencyData } from '@/hooks/useDependencyData';
+import { collapseCommunities, getCommunityColor } from '@/lib/community';
 import DependencyGraphViz from './DependencyGraph';
 import DependencyFilters from './DependencyFilters';
 import DependencyTooltip from './DependencyTooltip';
 import MarketSelector from './MarketSelector';
-import { Loader2, HelpCircle, X } from 'lucide-react';
+import PairDetailModal from './PairDetailModal';
+import { Loader2, HelpCircle, X, Minimize2, Maximize2 } from 'lucide-react';
+
+const SCOPES: { id: DependencyScope; label: string; title: string }[] = [
+    { id: 'ego', label: 'Focus', title: 'Dependencies of one selected market' },
+    { id: 'global', label: 'Global', title: 'All markets, grouped into communities' },
+];
+
+const NO_EXPANSIONS: string[] = [];
 
 interface DependencyMapProps {
     events: ProcessedEvent[];
@@ -29,14 +38,41 @@ export default function DependencyMap({
     const [hoveredEdge, setHoveredEdge] = useState<DependencyEdge | null>(null);
     const [tooltipPosition, setTooltipPosition] = useState<{ x: number; y: number } | null>(null);
     const [showManual, setShowManual] = useState(false);
+    const [selectedEdge, setSelectedEdge] = useState<DependencyEdge | null>(null);
+    const [collapsed, setCollapsed] = useState<Set<number>>(new Set());
+    // Shift-click expansions belong to the center market they were made around
+    const [expansion, setExpansion] = useState<{ centerId: string | null; ids: string[] }>({
+        centerId: null,
+        ids: [],
+    });
+
+    const isGlobal = filters.scope === 'global';
+    const showGraph = isGlobal || !!selectedMarketId;
+    const expandedIds = expansion.centerId === selectedMarketId ? expansion.ids : NO_EXPANSIONS;
 
     // Fetch dependency data
-    const { graph, isLoading, isError, stats } = useDependencyData(
+    const { graph: fullGraph, isLoading, isError, stats } = useDependencyData(
         selectedMarketId,
         filters,
-        events
+        events,
+        expandedIds
     );
 
+    const communities = fullGraph?.communities;
+    const graph = useMemo(
+        () => (fullGraph ? collapseCommunities(fullGraph, collapsed) : null),
+        [fullGraph, collapsed]
+    );
+
+    const toggleCommunity = useCallback((communityId: number) => {
+        setCollapsed((prev) => {
+            const next = new Set(prev);
+            if (next.has(communityId)) next.delete(communityId);
+            else next.add(communityId);
+            return next;
+        });
+    }, []);
+
     // Handle container resize
     useEffect(() => {
         const container = containerRef.current;
@@ -71,28 +107,86 @@ export default function DependencyMap({
         []
     );
 
-    // Handle node click - recenter on clicked market
+    // Handle edge click - open the pair drill-down
+    const handleEdgeClick = useCallback((edge: DependencyEdge) => {
+        setHoveredEdge(null);
+        setTooltipPosition(null);
+        setSelectedEdge(edge);
+    }, []);
+
+    // Aggregated community edges have no single market pair to drill into
+    const selectedPair = selectedEdge && graph
+        ? {
+              source: graph.nodes.find((n) => n.id === selectedEdge.sourceId),
+              target: graph.nodes.find((n) => n.id === selectedEdge.targetId),
+          }
+        : null;
+
+    // Handle node click - expand a community, or recenter on the clicked market
+    // (leaving global mode for that market's focused view)
     const handleNodeClick = useCallback(
         (node: DependencyNode) => {
-            if (node.id !== selectedMarketId) {
+            if (node.memberIds && node.communityId !== undefined) {
+                toggleCommunity(node.communityId);
+                return;
+            }
+            if (isGlobal) {
+                onFiltersChange({ ...filters, scope: 'ego' });
+                onMarketSelect(node.id);
+            } else if (node.id !== selectedMarketId) {
                 onMarketSelect(node.id);
             }
         },
-        [selectedMarketId, onMarketSelect]
+        [selectedMarketId, onMarketSelect, isGlobal, filters, onFiltersChange, toggleCommunity]
+    );
+
+    // Handle shift-click - toggle a node's own dependencies without recentering
+    const handleNodeExpand = useCallback(
+        (node: DependencyNode) => {
+            if (node.id === selectedMarketId) return;
+            setExpansion((prev) => {
+                const ids = prev.centerId === selectedMarketId ? prev.ids : [];
+                return {
+                    centerId: selectedMarketId,
+                    ids: ids.includes(node.id) ? ids.filter((id) => id !== node.id) : [...ids, node.id],
+                };
+            });
+        },
+        [selectedMarketId]
     );
 
     return (
         <div className="flex flex-col h-full w-full">
             {/* Header */}
             <div className="flex items-center justify-between p-4 border-b border-zinc-800">
-                <MarketSelector
-                    events={events}
-                    selectedMarketId={selectedMarketId}
-                    onMarketSelect={onMarketSelect}
-                />
+                <div className="flex items-center gap-3">
+                    <div className="flex bg-zinc-800 rounded-md p-0.5">
+                        {SCOPES.map(({ id, label, title }) => (
+                            <button
+                                key={id}
+                                onClick={() => onFiltersChange({ ...filters, scope: id })}
+                                title={title}
+                                className={`px-2.5 py-1 text-xs rounded transition-colors ${
+                                    filters.scope === id
+                                        ? 'bg-zinc-700 text-white'
+                                        : 'text-zinc-400 hover:text-white'
+                                }`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                    {!isGlobal && (
+                        <MarketSelector
+                            events={events}
+                            selectedMarketId={selectedMarketId}
+                            onMarketSelect={onMarketSelect}
+                        />
+                    )}
+                </div>
 
                 <div className="flex items-center gap-3">
-                    {selectedMarketId && (
+                    {showGraph && (
                         <DependencyFilters
                             filters={filters}
                             onFiltersChange={onFiltersChange}
@@ -115,7 +209,7 @@ export default function DependencyMap({
                 className="flex-1 relative overflow-hidden bg-zinc-900"
             >
                 {/* Loading State */}
-                {isLoading && selectedMarketId && (
+                {isLoading && showGraph && (
                     <div className="absolute inset-0 flex items-center justify-center bg-zinc-900/80 z-10">
                         <div className="flex items-center gap-3 text-zinc-400">
                             <Loader2 className="w-5 h-5 animate-spin" />
@@ -137,7 +231,7 @@ export default function DependencyMap({
                 )}
 
                 {/* Empty State */}
-                {!selectedMarketId && (
+                {!showGraph && (
                     <div className="absolute inset-0 flex items-center justify-center">
                         <div className="text-center max-w-md">
                             <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-zinc-800 flex items-center justify-center">
@@ -165,6 +259,7 @@ export default function DependencyMap({
                             <p className="text-xs text-zinc-600">
                                 Tip: Markets in the same event are structurally connected.
                                 Price correlations show how markets move together.
+                                Switch to Global to see clusters across all markets.
                             </p>
                         </div>
                     </div>
@@ -177,12 +272,61 @@ export default function DependencyMap({
                         width={dimensions.width}
                         height={dimensions.height}
                         onNodeClick={handleNodeClick}
+                        onNodeExpand={isGlobal ? undefined : handleNodeExpand}
                         onEdgeHover={handleEdgeHover}
+                        onEdgeClick={handleEdgeClick}
                     />
                 )}
 
+                {/* Communities */}
+                {isGlobal && !isLoading && communities && communities.length > 0 && (
+                    <div className="absolute top-4 right-4 w-64 max-h-[60%] flex flex-col bg-zinc-800/90 backdrop-blur-sm rounded-lg text-xs">
+                        <div className="flex items-center justify-between px-3 py-2 border-b border-zinc-700">
+                            <span className="text-zinc-300 font-medium">
+                                {communities.length} communities
+                            </span>
+                            <div className="flex items-center gap-2">
+                                <button
+                                    onClick={() => setCollapsed(new Set(communities.map((c) => c.id)))}
+                                    className="text-zinc-500 hover:text-white transition-colors"
+                                    title="Collapse all"
+                                >
+                                    <Minimize2 className="w-3.5 h-3.5" />
+                                </button>
+                                <button
+                                    onClick={() => setCollapsed(new Set())}
+                                    className="text-zinc-500 hover:text-white transition-colors"
+                                    title="Expand all"
+                                >
+                                    <Maximize2 className="w-3.5 h-3.5" />
+                                </button>
+                            </div>
+                        </div>
+                        <div className="overflow-y-auto p-1.5">
+                            {communities.map((community) => {
+                                const isCollapsed = collapsed.has(community.id);
+                                return (
+                                    <button
+                                        key={community.id}
+                                        onClick={() => toggleCommunity(community.id)}
+                                        className="w-full flex items-center gap-2 px-1.5 py-1 rounded hover:bg-zinc-700/60 text-left"
+                                        title={isCollapsed ? 'Expand community' : 'Collapse community'}
+                                    >
+                                        <div
+                                            className={`w-3 h-3 rounded-full shrink-0 ${isCollapsed ? 'ring-1 ring-offset-1 ring-offset-zinc-800 ring-zinc-400' : ''}`}
+                                            style={{ backgroundColor: getCommunityColor(community.id) }}
+                                        />
+                                        <span className="flex-1 truncate text-zinc-300">{community.label}</span>
+                                        <span className="text-zinc-500 tabular-nums">{community.nodeIds.length}</span>
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    </div>
+                )}
+
                 {/* Legend */}
-                {selectedMarketId && (
+                {showGraph && (
                     <div className="absolute bottom-4 left-4 bg-zinc-800/90 backdrop-blur-sm rounded-lg p-3 text-xs">
                         <div className="flex flex-col gap-2">
                             <div className="flex items-center gap-2">
@@ -205,17 +349,52 @@ export default function DependencyMap({
                                 <div className="w-3 h-3 rounded-full bg-purple-500" />
                                 <span className="text-zinc-400">Similar timing</span>
                             </div>
+                            <div className="flex items-center gap-2">
+                                <div className="w-3 h-3 rounded-full bg-amber-500" />
+                                <span className="text-zinc-400">Implies (rose = violated)</span>
+                            </div>
                             <div className="flex items-center gap-2 pt-1 border-t border-zinc-700">
                                 <div className="w-4 h-0.5 bg-zinc-400" style={{ borderStyle: 'dashed' }} />
                                 <span className="text-zinc-500">Dashed = structural/temporal</span>
                             </div>
+                            {isGlobal && (
+                                <span className="text-zinc-500">Node color = community</span>
+                            )}
                         </div>
                     </div>
                 )}
             </div>
 
             {/* Tooltip */}
-            <DependencyTooltip edge={hoveredEdge} position={tooltipPosition} />
+            <DependencyTooltip
+                edge={hoveredEdge}
+                position={tooltipPosition}
+                nodes={
+                    hoveredEdge && graph
+                        ? graph.nodes.filter(
+                              (n) => n.id === hoveredEdge.sourceId || n.id === hoveredEdge.targetId
+                          )
+                        : []
+                }
+            />
+
+            {/* Pair Drill-Down */}
+            {selectedEdge && selectedPair?.source && selectedPair.target &&
+                !selectedPair.source.memberIds && !selectedPair.target.memberIds && (
+                <PairDetailModal
+                    source={selectedPair.source}
+                    target={selectedPair.target}
+                    leadLag={
+                        selectedEdge.lagMs && selectedEdge.correlation !== undefined
+                            ? { correlation: selectedEdge.correlation, lagMs: selectedEdge.lagMs }
+                            : undefined
+                    }
+                    timeWindow={filters.timeWindow}
+                    customRange={filters.customRange}
+                    method={selectedEdge.correlationMethod || filters.correlationMethod}
+                    onClose={() => setSelectedEdge(null)}
+                />
+            )}
 
             {/* Manual Modal */}
             {showManual && (
@@ -249,6 +428,12 @@ export default function DependencyMap({
                                     Select a center market, and the graph shows other markets linked to it
                                     through various relationship types.
                                 </p>
+                                <p className="text-zinc-400 mt-2">
+                                    <span className="text-zinc-300">Global</span> mode instead links every
+                                    market to the others and groups them into communities (Louvain modularity
+                                    clustering). Correlations are tested among the top 60 markets by volume only. Each community gets its own color and can be
+                                    collapsed into a single node from the communities panel.
+                                </p>
                             </section>
 
                             <section>
@@ -294,6 +479,16 @@ export default function DependencyMap({
                                                 suggesting they may be affected by the same upcoming events.</span>
                                         </div>
                                     </div>
+                                    <div className="flex items-start gap-2">
+                                        <div className="w-3 h-3 rounded-full bg-amber-500 mt-0.5 shrink-0" />
+                                        <div>
+                                            <span className="text-white">Implication</span>
+                                            <span className="text-zinc-500"> &mdash; YES on one market forces YES on the other, e.g.
+                                                &quot;BTC above $120k&quot; implies &quot;BTC above $100k&quot;, and &quot;by June&quot; implies
+                                                &quot;by December&quot;. The arrow points at the implied market, which should never trade
+                                                lower; when it does the edge turns rose and shows the gap.</span>
+                                        </div>
+                                    </div>
                                 </div>
                             </section>
 
@@ -304,15 +499,18 @@ export default function DependencyMap({
                                     <p><span className="text-zinc-300">Type filter</span> &mdash; Show only a specific edge type, or all at once.</p>
                                     <p><span className="text-zinc-300">Corr threshold</span> &mdash; Minimum correlation strength to display an edge (higher = fewer, stronger connections).</p>
                                     <p><span className="text-zinc-300">Cross-event</span> &mdash; When enabled, shows connections to markets in different events. When off, only same-event connections appear.</p>
-                                    <p><span className="text-zinc-300">Max edges</span> &mdash; Limits the total number of connections shown to keep the graph readable.</p>
+                                    <p><span className="text-zinc-300">Depth</span> &mdash; How many hops away from the center market to explore. Beyond the first hop each market adds only its few strongest links, laid out on rings by distance.</p>
+                                    <p><span className="text-zinc-300">Max edges</span> &mdash; Limits the total number of connections shown to keep the graph readable. In Global mode it applies per market.</p>
                                 </div>
                             </section>
 
                             <section>
                                 <h3 className="text-white font-medium mb-2">Interactions</h3>
                                 <div className="space-y-1.5 text-zinc-400">
-                                    <p><span className="text-zinc-300">Click a node</span> &mdash; Recenter the graph on that market.</p>
+                                    <p><span className="text-zinc-300">Click a node</span> &mdash; Recenter the graph on that market. In Global mode, clicking a collapsed community expands it.</p>
+                                    <p><span className="text-zinc-300">Shift-click a node</span> &mdash; Add that market&apos;s own dependencies without recentering; shift-click again to remove them.</p>
                                     <p><span className="text-zinc-300">Hover an edge</span> &mdash; See the relationship details and strength.</p>
+                                    <p><span className="text-zinc-300">Click an edge</span> &mdash; Compare both price histories and see how their rolling correlation changes over the window.</p>
                                     <p><span className="text-zinc-300">Node size</span> &mdash; Proportional to trading volume.</p>
                                     <p><span className="text-zinc-300">Edge thickness</span> &mdash; Proportional to relationship strength.</p>
                                 </div>
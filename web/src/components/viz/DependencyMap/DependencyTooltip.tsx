@@ -1,11 +1,16 @@
 'use client';
 
 import React from 'react';
-import { DependencyEdge } from '@/lib/types';
+import { DependencyEdge, DependencyNode } from '@/lib/types';
+import { formatTimeWindow } from '@/lib/timeWindow';
+import { SIGNIFICANCE_LEVEL, formatLag, getMethodLabel } from '@/lib/correlation';
+import { INCONSISTENCY_THRESHOLD, formatOverround } from '@/lib/arbitrage';
+import TradeTape from '@/components/viz/TradeTape';
 
 interface DependencyTooltipProps {
     edge: DependencyEdge | null;
     position: { x: number; y: number } | null;
+    nodes?: DependencyNode[]; // Edge endpoints, for their recent trades
 }
 
 // Type badge colors and labels
@@ -14,17 +19,29 @@ const TYPE_CONFIG = {
     correlation: { bg: 'bg-green-900/50', text: 'text-green-400', label: 'Correlation' },
     entity: { bg: 'bg-blue-900/50', text: 'text-blue-400', label: 'Shared Entity' },
     temporal: { bg: 'bg-purple-900/50', text: 'text-purple-400', label: 'Time Link' },
+    implication: { bg: 'bg-amber-900/50', text: 'text-amber-400', label: 'Implication' },
 };
 
+const RULE_LABELS = {
+    threshold: 'Threshold',
+    deadline: 'Deadline',
+    margin: 'Margin',
+};
+
+function formatPValue(p: number): string {
+    return p < 0.001 ? '< 0.001' : p.toFixed(3);
+}
+
 // Strength bar colors
 const STRENGTH_COLORS = {
     structural: 'bg-zinc-500',
     correlation: 'bg-green-500',
     entity: 'bg-blue-500',
     temporal: 'bg-purple-500',
+    implication: 'bg-amber-500',
 };
 
-export default function DependencyTooltip({ edge, position }: DependencyTooltipProps) {
+export default function DependencyTooltip({ edge, position, nodes = [] }: DependencyTooltipProps) {
     if (!edge || !position) return null;
 
     const isPositive = edge.correlation !== undefined && edge.correlation > 0;
@@ -35,6 +52,12 @@ export default function DependencyTooltip({ edge, position }: DependencyTooltipP
     const strengthColor = STRENGTH_COLORS[edge.type] || STRENGTH_COLORS.structural;
 
     // For correlation, adjust color based on direction
+    // Lead/lag: name the market that moves first
+    const leader = edge.leaderId && edge.lagMs ? nodes.find((node) => node.id === edge.leaderId) : undefined;
+    // Implication: YES on the antecedent forces YES on the consequent
+    const antecedent = edge.antecedentId ? nodes.find((node) => node.id === edge.antecedentId) : undefined;
+    const consequent = antecedent ? nodes.find((node) => node.id !== antecedent.id) : undefined;
+
     const adjustedTypeConfig =
         edge.type === 'correlation' && isNegative
             ? { bg: 'bg-red-900/50', text: 'text-red-400', label: 'Correlation' }
@@ -57,7 +80,10 @@ export default function DependencyTooltip({ edge, position }: DependencyTooltipP
                 </span>
 
                 {edge.timeWindow && (
-                    <span className="text-xs text-zinc-500">{edge.timeWindow}</span>
+                    <span className="text-xs text-zinc-500">
+                        {formatTimeWindow(edge.timeWindow, edge.timeRange)}
+                        {edge.correlationMethod && ` · ${getMethodLabel(edge.correlationMethod)}`}
+                    </span>
                 )}
             </div>
 
@@ -76,6 +102,61 @@ export default function DependencyTooltip({ edge, position }: DependencyTooltipP
                 </div>
             )}
 
+            {/* Significance */}
+            {edge.type === 'correlation' && edge.pValue !== undefined && edge.qValue !== undefined && (
+                <div className="mb-2 flex items-center gap-2">
+                    <span
+                        className={`px-1.5 py-0.5 text-[10px] font-medium rounded ${
+                            edge.qValue <= SIGNIFICANCE_LEVEL
+                                ? 'bg-emerald-900/50 text-emerald-400'
+                                : 'bg-amber-900/50 text-amber-400'
+                        }`}
+                    >
+                        {edge.qValue <= SIGNIFICANCE_LEVEL ? 'Significant' : 'Not significant'}
+                    </span>
+                    <span className="text-zinc-400 text-xs font-mono">
+                        p {formatPValue(edge.pValue)} · q {formatPValue(edge.qValue)}
+                    </span>
+                </div>
+            )}
+
+            {/* Lead/Lag */}
+            {edge.type === 'correlation' && leader && edge.lagMs && (
+                <div className="mb-2">
+                    <span className="text-zinc-400 text-xs">Leads by {formatLag(edge.lagMs)}: </span>
+                    <span className="text-zinc-200 text-xs">{leader.question}</span>
+                </div>
+            )}
+
+            {/* Implication */}
+            {edge.type === 'implication' && antecedent && consequent && (
+                <div className="mb-2 space-y-1">
+                    <div className="text-xs">
+                        <span className="text-amber-300">{antecedent.question}</span>
+                        <span className="text-zinc-400"> implies </span>
+                        <span className="text-zinc-200">{consequent.question}</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        {edge.implicationRule && (
+                            <span className="px-1.5 py-0.5 text-[10px] font-medium rounded bg-zinc-700 text-zinc-300">
+                                {RULE_LABELS[edge.implicationRule]}
+                            </span>
+                        )}
+                        <span
+                            className={`px-1.5 py-0.5 text-[10px] font-medium rounded ${
+                                edge.violation !== undefined
+                                    ? 'bg-rose-900/50 text-rose-400'
+                                    : 'bg-emerald-900/50 text-emerald-400'
+                            }`}
+                        >
+                            {edge.violation !== undefined
+                                ? `Violated by ${(edge.violation * 100).toFixed(1)}¢`
+                                : 'Prices consistent'}
+                        </span>
+                    </div>
+                </div>
+            )}
+
             {/* Shared Entities */}
             {edge.type === 'entity' && edge.sharedEntities && edge.sharedEntities.length > 0 && (
                 <div className="mb-2">
@@ -110,6 +191,24 @@ export default function DependencyTooltip({ edge, position }: DependencyTooltipP
                 </div>
             )}
 
+            {/* Exclusive-outcome price sum */}
+            {edge.overround !== undefined && (
+                <div className="mb-2">
+                    <span className="text-zinc-400 text-xs">Outcome prices sum to </span>
+                    <span
+                        className={`text-xs font-mono font-medium ${
+                            Math.abs(edge.overround) < INCONSISTENCY_THRESHOLD
+                                ? 'text-zinc-200'
+                                : edge.overround > 0
+                                ? 'text-amber-400'
+                                : 'text-sky-400'
+                        }`}
+                    >
+                        {((1 + edge.overround) * 100).toFixed(1)}% ({formatOverround(edge.overround)})
+                    </span>
+                </div>
+            )}
+
             {/* Explanation */}
             {edge.explanation && (
                 <p className="text-xs text-zinc-400 leading-relaxed">{edge.explanation}</p>
@@ -134,6 +233,26 @@ export default function DependencyTooltip({ edge, position }: DependencyTooltipP
                     </span>
                 </div>
             </div>
+
+            {/* Recent trades on each endpoint */}
+            {nodes.some((node) => node.conditionId && node.tokenId) && (
+                <div className="mt-2 pt-2 border-t border-zinc-700 space-y-2">
+                    {nodes.map((node) =>
+                        node.conditionId && node.tokenId ? (
+                            <div key={node.id}>
+                                <div className="text-[10px] text-zinc-400 line-clamp-1 mb-0.5">
+                                    {node.question}
+                                </div>
+                                <TradeTape
+                                    conditionId={node.conditionId}
+                                    tokenId={node.tokenId}
+                                    compact
+                                />
+                            </div>
+                        ) : null
+                    )}
+                </div>
+            )}
         </div>
     );
 }
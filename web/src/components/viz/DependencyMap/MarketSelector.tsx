@@ -3,6 +3,8 @@
 import React, { useState, useMemo, useRef, useEffect } from 'react';
 import { Search, X } from 'lucide-react';
 import { ProcessedEvent, MarketNode } from '@/lib/types';
+import { getLeadingOutcome } from '@/lib/outcomes';
+import StarButton from '@/components/watchlist/StarButton';
 import * as d3 from 'd3';
 
 interface MarketSelectorProps {
@@ -109,6 +111,7 @@ export default function MarketSelector({
                             {selectedMarket.eventTitle} | ${d3.format('.2s')(selectedMarket.volume)}
                         </p>
                     </div>
+                    <StarButton kind="market" id={selectedMarket.id} />
                     <button
                         onClick={handleClear}
                         className="p-1 text-zinc-400 hover:text-white transition-colors"
@@ -160,32 +163,42 @@ export default function MarketSelector({
                             </div>
                         ) : (
                             filteredMarkets.map((market) => (
-                                <button
+                                <div
                                     key={market.id}
-                                    onClick={() => handleSelect(market)}
-                                    className={`w-full text-left px-3 py-2 hover:bg-zinc-700 transition-colors border-b border-zinc-700/50 last:border-b-0 ${
+                                    className={`flex items-center pr-2 hover:bg-zinc-700 transition-colors border-b border-zinc-700/50 last:border-b-0 ${
                                         market.id === selectedMarketId ? 'bg-zinc-700' : ''
                                     }`}
                                 >
-                                    <p className="text-sm text-white truncate">{market.question}</p>
-                                    <div className="flex items-center gap-2 mt-0.5">
-                                        <span className="text-xs text-zinc-500 truncate flex-1">
-                                            {market.eventTitle}
-                                        </span>
-                                        <span className="text-xs text-zinc-400 font-mono">
-                                            ${d3.format('.2s')(market.volume)}
-                                        </span>
-                                        <span
-                                            className={`text-xs font-mono ${
-                                                market.outcomeProb > 0.5
-                                                    ? 'text-blue-400'
-                                                    : 'text-red-400'
-                                            }`}
-                                        >
-                                            {Math.round(market.outcomeProb * 100)}%
-                                        </span>
-                                    </div>
-                                </button>
+                                    <button
+                                        onClick={() => handleSelect(market)}
+                                        className="flex-1 min-w-0 text-left px-3 py-2"
+                                    >
+                                        <p className="text-sm text-white truncate">{market.question}</p>
+                                        <div className="flex items-center gap-2 mt-0.5">
+                                            <span className="text-xs text-zinc-500 truncate flex-1">
+                                                {market.eventTitle}
+                                            </span>
+                                            <span className="text-xs text-zinc-400 font-mono">
+                                                ${d3.format('.2s')(market.volume)}
+                                            </span>
+                                            <span
+                                                className={`text-xs font-mono ${
+                                                    market.outcomeProb > 0.5
+                                                        ? 'text-blue-400'
+                                                        : 'text-red-400'
+                                                }`}
+                                            >
+                                                {Math.round(market.outcomeProb * 100)}%
+                                                {market.isMultiChoice && (
+                                                    <span className="text-zinc-500 ml-1">
+                                                        {getLeadingOutcome(market).name}
+                                                    </span>
+                                                )}
+                                            </span>
+                                        </div>
+                                    </button>
+                                    <StarButton kind="market" id={market.id} size="sm" />
+                                </div>
                             ))
                         )}
                     </div>
@@ -0,0 +1,410 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import * as d3 from 'd3';
+import { Loader2, X } from 'lucide-react';
+import {
+    CorrelationMethod,
+    DependencyNode,
+    PriceHistoryPoint,
+    TimeRange,
+    TimeWindow,
+} from '@/lib/types';
+import {
+    computeCorrelation,
+    computeRollingCorrelation,
+    formatLag,
+    getMethodLabel,
+    RollingCorrelationPoint,
+} from '@/lib/correlation';
+import { formatTimeWindow } from '@/lib/timeWindow';
+import { usePriceHistory } from '@/hooks/usePriceHistory';
+
+export type PairMarket = Pick<DependencyNode, 'id' | 'question' | 'tokenId'>;
+
+interface PairDetailModalProps {
+    source: PairMarket;
+    target: PairMarket;
+    leadLag?: { correlation: number; lagMs: number }; // Best lead/lag offset, when it isn't 0
+    timeWindow: TimeWindow;
+    customRange?: TimeRange | null;
+    method: CorrelationMethod;
+    onClose: () => void;
+}
+
+const WIDTH = 560;
+const PRICE_HEIGHT = 170;
+const CORR_HEIGHT = 110;
+const MARGIN = { top: 8, right: 34, bottom: 18, left: 6 };
+
+const SOURCE_COLOR = '#60a5fa';
+const TARGET_COLOR = '#f59e0b';
+
+const ROLLING_WINDOWS = [10, 20, 40]; // Price changes per window
+
+const bisectTime = d3.bisector((point: { timestamp: number }) => point.timestamp).center;
+
+function formatTick(timestamp: number, spanMs: number): string {
+    const date = new Date(timestamp);
+    return spanMs <= 2 * 24 * 60 * 60 * 1000
+        ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+        : date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+}
+
+function formatPercent(value: number | undefined): string {
+    return value === undefined ? '—' : `${(value * 100).toFixed(1)}%`;
+}
+
+/**
+ * Drill-down for a pair of markets: both prices overlaid, with the
+ * rolling correlation between them on a shared time axis beneath. The rolling
+ * line and its "overall" reference are both measured at lag 0; a lead/lag
+ * correlation is only quoted in the header.
+ */
+export default function PairDetailModal({
+    source,
+    target,
+    leadLag,
+    timeWindow,
+    customRange = null,
+    method,
+    onClose,
+}: PairDetailModalProps) {
+    const [windowSize, setWindowSize] = useState(20);
+    const [hoverTime, setHoverTime] = useState<number | null>(null);
+
+    const tokenIds = useMemo(
+        () => [source.tokenId, target.tokenId].filter((id): id is string => !!id),
+        [source.tokenId, target.tokenId]
+    );
+    const { histories, isLoading } = usePriceHistory(tokenIds, timeWindow, customRange);
+
+    const sourceHistory = useMemo(
+        () => (source.tokenId && histories.get(source.tokenId)) || [],
+        [histories, source.tokenId]
+    );
+    const targetHistory = useMemo(
+        () => (target.tokenId && histories.get(target.tokenId)) || [],
+        [histories, target.tokenId]
+    );
+
+    // Same-time correlation over the whole window, comparable to the rolling line
+    const correlation = useMemo(() => {
+        const result = computeCorrelation(sourceHistory, targetHistory, { method });
+        return result.confidence > 0 ? result.correlation : undefined;
+    }, [sourceHistory, targetHistory, method]);
+
+    const rolling = useMemo(
+        () => computeRollingCorrelation(sourceHistory, targetHistory, windowSize, method),
+        [sourceHistory, targetHistory, windowSize, method]
+    );
+
+    // How consistent the relationship is across windows
+    const summary = useMemo(() => {
+        if (rolling.length === 0) return null;
+        const values = rolling.map((point) => point.correlation);
+        const sign = Math.sign(correlation ?? d3.mean(values) ?? 0) || 1;
+        return {
+            min: d3.min(values) ?? 0,
+            max: d3.max(values) ?? 0,
+            sameSign: values.filter((value) => Math.sign(value) === sign).length / values.length,
+        };
+    }, [rolling, correlation]);
+
+    const chart = useMemo(() => {
+        const points = [...sourceHistory, ...targetHistory];
+        if (points.length === 0) return null;
+
+        const [minTime, maxTime] = d3.extent(points, (p) => p.timestamp) as [number, number];
+        const [minPrice, maxPrice] = d3.extent(points, (p) => p.price) as [number, number];
+        const padding = Math.max((maxPrice - minPrice) * 0.1, 0.02);
+
+        const x = d3
+            .scaleTime()
+            .domain([minTime, maxTime])
+            .range([MARGIN.left, WIDTH - MARGIN.right]);
+        const yPrice = d3
+            .scaleLinear()
+            .domain([Math.max(0, minPrice - padding), Math.min(1, maxPrice + padding)])
+            .range([PRICE_HEIGHT - MARGIN.bottom, MARGIN.top])
+            .nice();
+        const yCorr = d3
+            .scaleLinear()
+            .domain([-1, 1])
+            .range([CORR_HEIGHT - MARGIN.bottom, MARGIN.top]);
+
+        const priceLine = d3
+            .line<PriceHistoryPoint>()
+            .x((p) => x(p.timestamp))
+            .y((p) => yPrice(p.price))
+            .curve(d3.curveMonotoneX);
+        const corrLine = d3
+            .line<RollingCorrelationPoint>()
+            .x((p) => x(p.timestamp))
+            .y((p) => yCorr(p.correlation));
+
+        return {
+            x,
+            yPrice,
+            yCorr,
+            sourcePath: priceLine(sourceHistory) || '',
+            targetPath: priceLine(targetHistory) || '',
+            corrPath: corrLine(rolling) || '',
+            xTicks: x.ticks(5),
+            priceTicks: yPrice.ticks(4),
+            spanMs: maxTime - minTime,
+        };
+    }, [sourceHistory, targetHistory, rolling]);
+
+    const valueAt = <T extends { timestamp: number }>(series: T[]): T | undefined =>
+        series.length === 0
+            ? undefined
+            : hoverTime === null
+            ? series[series.length - 1]
+            : series[bisectTime(series, hoverTime)];
+
+    const handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
+        if (!chart) return;
+        const rect = e.currentTarget.getBoundingClientRect();
+        const svgX = ((e.clientX - rect.left) / rect.width) * WIDTH;
+        const [minX, maxX] = chart.x.range();
+        setHoverTime(chart.x.invert(Math.min(Math.max(svgX, minX), maxX)).getTime());
+    };
+
+    const crosshair = (height: number) =>
+        chart && hoverTime !== null ? (
+            <line
+                x1={chart.x(hoverTime)}
+                x2={chart.x(hoverTime)}
+                y1={MARGIN.top}
+                y2={height - MARGIN.bottom}
+                stroke="rgb(161, 161, 170)"
+                strokeDasharray="2 2"
+                pointerEvents="none"
+            />
+        ) : null;
+
+    const hoveredCorrelation = valueAt(rolling)?.correlation;
+
+    return (
+        <div
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm"
+            onClick={onClose}
+        >
+            <div
+                className="bg-zinc-900 border border-zinc-700 rounded-xl shadow-2xl max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto"
+                onClick={(e) => e.stopPropagation()}
+            >
+                {/* Header */}
+                <div className="flex items-start justify-between gap-4 p-4 border-b border-zinc-800">
+                    <div className="min-w-0 space-y-1">
+                        {[
+                            { node: source, color: SOURCE_COLOR },
+                            { node: target, color: TARGET_COLOR },
+                        ].map(({ node, color }) => (
+                            <div key={node.id} className="flex items-center gap-2 text-sm">
+                                <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: color }} />
+                                <span className="text-zinc-200 truncate">{node.question}</span>
+                            </div>
+                        ))}
+                        <div className="text-xs text-zinc-500">
+                            {formatTimeWindow(timeWindow, customRange)} ·{' '}
+                            {getMethodLabel(method)}
+                            {correlation !== undefined &&
+                                ` · overall ${correlation > 0 ? '+' : ''}${(correlation * 100).toFixed(0)}% at lag 0`}
+                            {leadLag &&
+                                ` · ${leadLag.correlation > 0 ? '+' : ''}${(leadLag.correlation * 100).toFixed(0)}% at ${formatLag(
+                                    leadLag.lagMs
+                                )} lag`}
+                        </div>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="p-1 rounded-md text-zinc-500 hover:text-white hover:bg-zinc-800 transition-colors"
+                    >
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+
+                <div className="p-4 space-y-3">
+                    {!chart ? (
+                        <div className="flex items-center justify-center h-40 text-xs text-zinc-500">
+                            {isLoading ? (
+                                <Loader2 className="w-4 h-4 text-blue-500 animate-spin" />
+                            ) : (
+                                'No price history available for this pair'
+                            )}
+                        </div>
+                    ) : (
+                        <>
+                            {/* Prices */}
+                            <div>
+                                <div className="flex items-center justify-between text-[11px] mb-1">
+                                    <span className="text-zinc-500">
+                                        {hoverTime === null ? 'Latest' : new Date(hoverTime).toLocaleString()}
+                                    </span>
+                                    <span className="font-mono space-x-3">
+                                        <span style={{ color: SOURCE_COLOR }}>
+                                            {formatPercent(valueAt(sourceHistory)?.price)}
+                                        </span>
+                                        <span style={{ color: TARGET_COLOR }}>
+                                            {formatPercent(valueAt(targetHistory)?.price)}
+                                        </span>
+                                    </span>
+                                </div>
+                                <svg
+                                    viewBox={`0 0 ${WIDTH} ${PRICE_HEIGHT}`}
+                                    className="w-full h-auto cursor-crosshair"
+                                    onMouseMove={handleMouseMove}
+                                    onMouseLeave={() => setHoverTime(null)}
+                                >
+                                    {chart.priceTicks.map((tick) => (
+                                        <g key={tick}>
+                                            <line
+                                                x1={MARGIN.left}
+                                                x2={WIDTH - MARGIN.right}
+                                                y1={chart.yPrice(tick)}
+                                                y2={chart.yPrice(tick)}
+                                                stroke="rgb(39, 39, 42)"
+                                            />
+                                            <text
+                                                x={WIDTH - MARGIN.right + 4}
+                                                y={chart.yPrice(tick) + 3}
+                                                className="fill-zinc-500"
+                                                fontSize={9}
+                                            >
+                                                {Math.round(tick * 100)}%
+                                            </text>
+                                        </g>
+                                    ))}
+                                    <path d={chart.sourcePath} fill="none" stroke={SOURCE_COLOR} strokeWidth={1.5} />
+                                    <path d={chart.targetPath} fill="none" stroke={TARGET_COLOR} strokeWidth={1.5} />
+                                    {crosshair(PRICE_HEIGHT)}
+                                </svg>
+                            </div>
+
+                            {/* Rolling correlation */}
+                            <div>
+                                <div className="flex items-center justify-between text-[11px] mb-1">
+                                    <span className="text-zinc-500">
+                                        Rolling correlation:{' '}
+                                        <span className="font-mono text-zinc-200">
+                                            {hoveredCorrelation === undefined
+                                                ? '—'
+                                                : `${hoveredCorrelation > 0 ? '+' : ''}${(hoveredCorrelation * 100).toFixed(0)}%`}
+                                        </span>
+                                    </span>
+                                    <div className="flex items-center gap-1">
+                                        <span className="text-zinc-500">Window:</span>
+                                        {ROLLING_WINDOWS.map((size) => (
+                                            <button
+                                                key={size}
+                                                onClick={() => setWindowSize(size)}
+                                                className={`px-2 py-0.5 text-[10px] rounded transition-colors ${
+                                                    windowSize === size
+                                                        ? 'bg-blue-600 text-white'
+                                                        : 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700'
+                                                }`}
+                                            >
+                                                {size} pts
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                                {rolling.length === 0 ? (
+                                    <div className="flex items-center justify-center h-20 text-xs text-zinc-500">
+                                        Not enough overlapping history for a {windowSize}-point window
+                                    </div>
+                                ) : (
+                                    <svg
+                                        viewBox={`0 0 ${WIDTH} ${CORR_HEIGHT}`}
+                                        className="w-full h-auto cursor-crosshair"
+                                        onMouseMove={handleMouseMove}
+                                        onMouseLeave={() => setHoverTime(null)}
+                                    >
+                                        {[-1, 0, 1].map((tick) => (
+                                            <g key={tick}>
+                                                <line
+                                                    x1={MARGIN.left}
+                                                    x2={WIDTH - MARGIN.right}
+                                                    y1={chart.yCorr(tick)}
+                                                    y2={chart.yCorr(tick)}
+                                                    stroke={tick === 0 ? 'rgb(82, 82, 91)' : 'rgb(39, 39, 42)'}
+                                                />
+                                                <text
+                                                    x={WIDTH - MARGIN.right + 4}
+                                                    y={chart.yCorr(tick) + 3}
+                                                    className="fill-zinc-500"
+                                                    fontSize={9}
+                                                >
+                                                    {tick > 0 ? '+1' : tick}
+                                                </text>
+                                            </g>
+                                        ))}
+                                        {correlation !== undefined && (
+                                            <g>
+                                                <line
+                                                    x1={MARGIN.left}
+                                                    x2={WIDTH - MARGIN.right}
+                                                    y1={chart.yCorr(correlation)}
+                                                    y2={chart.yCorr(correlation)}
+                                                    stroke="rgb(161, 161, 170)"
+                                                    strokeDasharray="4 3"
+                                                    strokeOpacity={0.6}
+                                                />
+                                                <text
+                                                    x={MARGIN.left + 2}
+                                                    y={chart.yCorr(correlation) - 3}
+                                                    className="fill-zinc-500"
+                                                    fontSize={9}
+                                                >
+                                                    overall, lag 0
+                                                </text>
+                                            </g>
+                                        )}
+                                        <path d={chart.corrPath} fill="none" stroke="#22c55e" strokeWidth={1.5} />
+                                        {chart.xTicks.map((tick) => (
+                                            <text
+                                                key={tick.getTime()}
+                                                x={chart.x(tick)}
+                                                y={CORR_HEIGHT - 4}
+                                                textAnchor="middle"
+                                                className="fill-zinc-500"
+                                                fontSize={9}
+                                            >
+                                                {formatTick(tick.getTime(), chart.spanMs)}
+                                            </text>
+                                        ))}
+                                        {crosshair(CORR_HEIGHT)}
+                                    </svg>
+                                )}
+                            </div>
+
+                            {/* Stability summary */}
+                            {summary && (
+                                <div className="grid grid-cols-3 gap-2 text-[11px] pt-2 border-t border-zinc-800">
+                                    <div>
+                                        <div className="text-zinc-500">Same sign as overall</div>
+                                        <div className="font-mono text-zinc-200">
+                                            {(summary.sameSign * 100).toFixed(0)}% of windows
+                                        </div>
+                                    </div>
+                                    <div>
+                                        <div className="text-zinc-500">Range</div>
+                                        <div className="font-mono text-zinc-200">
+                                            {(summary.min * 100).toFixed(0)}% to {(summary.max * 100).toFixed(0)}%
+                                        </div>
+                                    </div>
+                                    <div>
+                                        <div className="text-zinc-500">Windows</div>
+                                        <div className="font-mono text-zinc-200">{rolling.length}</div>
+                                    </div>
+                                </div>
+                            )}
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
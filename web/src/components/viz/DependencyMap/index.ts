@@ -3,3 +3,4 @@ export { default as DependencyGraph } from './DependencyGraph';
 export { default as DependencyFilters } from './DependencyFilters';
 export { default as DependencyTooltip } from './DependencyTooltip';
 export { default as MarketSelector } from './MarketSelector';
+export { default as PairDetailModal } from './PairDetailModal';
@@ -0,0 +1,48 @@
+'use client';
+
+import React from 'react';
+import { getCategoryColor, getCategoryName } from '@/lib/categories';
+import { EntityProfile } from '@/lib/entities';
+
+interface CategoryMixBarProps {
+    mix: EntityProfile['categoryMix'];
+    showLegend?: boolean;
+}
+
+/**
+ * Stacked bar of an entity's volume by category, with an optional legend.
+ */
+export default function CategoryMixBar({ mix, showLegend = false }: CategoryMixBarProps) {
+    const total = mix.reduce((sum, c) => sum + c.volume, 0);
+    const share = (volume: number) => (total > 0 ? volume / total : 1 / mix.length);
+
+    return (
+        <div>
+            <div className="flex h-2 w-full overflow-hidden rounded-full bg-zinc-800">
+                {mix.map((c) => (
+                    <div
+                        key={c.categoryId}
+                        style={{ width: `${share(c.volume) * 100}%`, backgroundColor: getCategoryColor(c.categoryId) }}
+                        title={`${getCategoryName(c.categoryId)}: ${Math.round(share(c.volume) * 100)}% of volume, ${
+                            c.marketCount
+                        } market${c.marketCount === 1 ? '' : 's'}`}
+                    />
+                ))}
+            </div>
+            {showLegend && (
+                <div className="flex flex-wrap gap-x-3 gap-y-1 mt-1.5 text-[11px] text-zinc-400">
+                    {mix.map((c) => (
+                        <span key={c.categoryId} className="flex items-center gap-1">
+                            <span
+                                className="w-2 h-2 rounded-sm"
+                                style={{ backgroundColor: getCategoryColor(c.categoryId) }}
+                            />
+                            {getCategoryName(c.categoryId)}
+                            <span className="text-zinc-600">{Math.round(share(c.volume) * 100)}%</span>
+                        </span>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
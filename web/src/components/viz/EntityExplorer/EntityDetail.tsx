@@ -0,0 +1,115 @@
+'use client';
+
+import React from 'react';
+import * as d3 from 'd3';
+import { ArrowLeft, Bitcoin, Building2, Flag, Landmark, User } from 'lucide-react';
+import HeatMap from '@/components/viz/HeatMap';
+import { PriceChangeSummary, ProcessedEvent, TimeWindow } from '@/lib/types';
+import { EntityProfile, EntityRecord, EntityType } from '@/lib/entities';
+import CategoryMixBar from './CategoryMixBar';
+import EntityTimeline from './EntityTimeline';
+
+interface EntityDetailProps {
+    entity: EntityRecord;
+    profile: EntityProfile | null; // null when no loaded market mentions the entity
+    events: ProcessedEvent[];
+    change?: PriceChangeSummary;
+    changeWindow: TimeWindow;
+    onBack: () => void;
+}
+
+export const ENTITY_TYPE_CONFIG: Record<EntityType, { label: string; icon: React.ElementType }> = {
+    person: { label: 'Person', icon: User },
+    company: { label: 'Company', icon: Building2 },
+    crypto: { label: 'Crypto', icon: Bitcoin },
+    country: { label: 'Country', icon: Flag },
+    organization: { label: 'Organization', icon: Landmark },
+};
+
+/**
+ * Volume-weighted mean absolute move in points, e.g. "2.3pp", or "—" without history.
+ */
+export function formatMove(change: PriceChangeSummary | undefined): string {
+    return change ? `${(change.magnitude * 100).toFixed(1)}pp` : '—';
+}
+
+function Stat({ label, children }: { label: string; children: React.ReactNode }) {
+    return (
+        <div>
+            <div className="text-[10px] uppercase tracking-wider text-zinc-500">{label}</div>
+            <div className="font-mono text-sm text-zinc-200">{children}</div>
+        </div>
+    );
+}
+
+/**
+ * One entity's page: its aliases and metadata, totals, category mix, and all
+ * of its markets as a probability treemap and a resolution-date timeline.
+ */
+export default function EntityDetail({ entity, profile, events, change, changeWindow, onBack }: EntityDetailProps) {
+    const { icon: Icon, label: typeLabel } = ENTITY_TYPE_CONFIG[entity.type];
+    const details = [entity.metadata?.role, entity.metadata?.ticker, entity.metadata?.country].filter(Boolean);
+
+    return (
+        <div className="flex flex-col h-full w-full">
+            {/* Header */}
+            <div className="flex flex-wrap items-start gap-6 p-4 border-b border-zinc-800">
+                <button
+                    onClick={onBack}
+                    className="flex items-center gap-1 text-zinc-400 hover:text-white transition-colors text-sm"
+                >
+                    <ArrowLeft className="w-4 h-4" />
+                    Entities
+                </button>
+
+                <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                        <Icon className="w-4 h-4 text-zinc-400" />
+                        <h2 className="text-lg font-semibold text-white">{entity.name}</h2>
+                        <span className="px-1.5 py-0.5 rounded bg-zinc-800 text-[10px] uppercase tracking-wider text-zinc-400">
+                            {typeLabel}
+                        </span>
+                    </div>
+                    {details.length > 0 && <div className="text-xs text-zinc-400 mt-0.5">{details.join(' · ')}</div>}
+                    {entity.aliases.length > 0 && (
+                        <div className="text-[11px] text-zinc-500 mt-0.5">Also matched: {entity.aliases.join(', ')}</div>
+                    )}
+                </div>
+
+                {profile && (
+                    <>
+                        <div className="flex gap-6">
+                            <Stat label="Markets">{profile.markets.length}</Stat>
+                            <Stat label="Events">{profile.eventIds.length}</Stat>
+                            <Stat label="Volume">${d3.format('.2s')(profile.volume)}</Stat>
+                            <Stat label="24h Vol">${d3.format('.2s')(profile.volume24h)}</Stat>
+                            <Stat label={`Avg ${changeWindow} Move`}>{formatMove(change)}</Stat>
+                        </div>
+                        <div className="flex-1 min-w-48 max-w-md">
+                            <div className="text-[10px] uppercase tracking-wider text-zinc-500 mb-1">Category Mix</div>
+                            <CategoryMixBar mix={profile.categoryMix} showLegend />
+                        </div>
+                    </>
+                )}
+            </div>
+
+            {!profile ? (
+                <div className="mt-16 text-center text-zinc-500 text-sm">
+                    No loaded market mentions {entity.name}.
+                </div>
+            ) : (
+                <>
+                    {/* Treemap */}
+                    <div className="flex-1 min-h-0 p-4">
+                        <HeatMap level="market" data={profile.markets} />
+                    </div>
+
+                    {/* Timeline */}
+                    <div className="px-4 pb-3 border-t border-zinc-800 pt-2">
+                        <EntityTimeline markets={profile.markets} events={events} />
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,289 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import * as d3 from 'd3';
+import { ChevronDown, ChevronUp, Loader2, Search, Tags } from 'lucide-react';
+import { MarketNode, PriceChangeSummary, ProcessedEvent, TimeWindow } from '@/lib/types';
+import { EntityProfile, EntityType, getEntity, getEntityProfiles } from '@/lib/entities';
+import { getPrimaryTokenId } from '@/lib/outcomes';
+import { computePriceChange, summarizeChanges } from '@/lib/priceChange';
+import { usePriceHistory } from '@/hooks/usePriceHistory';
+import CategoryMixBar from './CategoryMixBar';
+import EntityDetail, { ENTITY_TYPE_CONFIG, formatMove } from './EntityDetail';
+
+interface EntityExplorerProps {
+    events: ProcessedEvent[];
+    entityId: string | null; // Entity shown in detail, or null for the list
+    onEntitySelect: (entityId: string | null) => void;
+}
+
+type SortKey = 'entity' | 'markets' | 'volume' | 'move';
+
+const COLUMNS: Array<{ key: SortKey; label: string; align: 'left' | 'right' }> = [
+    { key: 'entity', label: 'Entity', align: 'left' },
+    { key: 'markets', label: 'Markets', align: 'right' },
+    { key: 'volume', label: 'Volume', align: 'right' },
+    { key: 'move', label: 'Avg Move', align: 'right' },
+];
+
+const MOVE_WINDOWS: TimeWindow[] = ['1h', '24h', '7d'];
+
+// Movement is sampled from each entity's largest markets, for the largest
+// entities first, up to this many price histories
+const SAMPLE_MARKETS_PER_ENTITY = 3;
+const MAX_HISTORY_TOKENS = 90;
+
+function sortValue(profile: EntityProfile, key: SortKey, change?: PriceChangeSummary): number | string | null {
+    switch (key) {
+        case 'entity':
+            return profile.entity.name.toLowerCase();
+        case 'markets':
+            return profile.markets.length;
+        case 'volume':
+            return profile.volume;
+        case 'move':
+            return change ? change.magnitude : null;
+    }
+}
+
+// ============================================
+// Main Component
+// ============================================
+
+/**
+ * Every entity the registry finds in the loaded markets, with total volume,
+ * market count, average probability movement and category mix. Selecting an
+ * entity opens its detail page.
+ */
+export default function EntityExplorer({ events, entityId, onEntitySelect }: EntityExplorerProps) {
+    const [query, setQuery] = useState('');
+    const [typeFilter, setTypeFilter] = useState<EntityType | null>(null);
+    const [moveWindow, setMoveWindow] = useState<TimeWindow>('24h');
+    const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({
+        key: 'volume',
+        descending: true,
+    });
+
+    // Largest volume first
+    const profiles = useMemo(() => getEntityProfiles(events), [events]);
+    const selected = entityId ? profiles.find((p) => p.entity.id === entityId) || null : null;
+
+    // Sample markets per entity, the selected entity first
+    const samples = useMemo(() => {
+        const bySelection = selected ? [selected, ...profiles.filter((p) => p !== selected)] : profiles;
+        const marketsByEntity = new Map<string, MarketNode[]>();
+        const tokenByMarket = new Map<string, string>();
+
+        for (const profile of bySelection) {
+            const markets = profile.markets.slice(0, SAMPLE_MARKETS_PER_ENTITY);
+            const newTokens = markets.flatMap((market) => {
+                const tokenId = getPrimaryTokenId(market);
+                return tokenId && !tokenByMarket.has(market.id) ? [[market.id, tokenId] as const] : [];
+            });
+            if (tokenByMarket.size + newTokens.length > MAX_HISTORY_TOKENS) break;
+            for (const [marketId, tokenId] of newTokens) tokenByMarket.set(marketId, tokenId);
+            marketsByEntity.set(profile.entity.id, markets);
+        }
+
+        return { marketsByEntity, tokenByMarket };
+    }, [profiles, selected]);
+
+    const tokenIds = useMemo(
+        () => Array.from(new Set(samples.tokenByMarket.values())),
+        [samples]
+    );
+    const { histories, isLoading } = usePriceHistory(tokenIds, moveWindow);
+
+    const changes = useMemo(() => {
+        const marketChanges = new Map<string, number>();
+        for (const [marketId, tokenId] of samples.tokenByMarket) {
+            const change = computePriceChange(histories.get(tokenId) || []);
+            if (change !== null) marketChanges.set(marketId, change);
+        }
+
+        const summaries = new Map<string, PriceChangeSummary>();
+        for (const [id, markets] of samples.marketsByEntity) {
+            const summary = summarizeChanges(markets, marketChanges);
+            if (summary) summaries.set(id, summary);
+        }
+        return summaries;
+    }, [samples, histories]);
+
+    const rows = useMemo(() => {
+        const needle = query.trim().toLowerCase();
+        const matches = profiles.filter(
+            ({ entity }) =>
+                (!typeFilter || entity.type === typeFilter) &&
+                (!needle ||
+                    [entity.name, ...entity.aliases].some((alias) => alias.toLowerCase().includes(needle)))
+        );
+
+        // Missing values sort last either way
+        return matches.sort((a, b) => {
+            const va = sortValue(a, sort.key, changes.get(a.entity.id));
+            const vb = sortValue(b, sort.key, changes.get(b.entity.id));
+            if (va === null || vb === null) return va === null ? (vb === null ? 0 : 1) : -1;
+            const order = va < vb ? -1 : va > vb ? 1 : 0;
+            return sort.descending ? -order : order;
+        });
+    }, [profiles, query, typeFilter, sort, changes]);
+
+    const toggleSort = (key: SortKey) =>
+        setSort((prev) => ({ key, descending: prev.key === key ? !prev.descending : key !== 'entity' }));
+
+    // Detail page
+    const selectedEntity = entityId ? getEntity(entityId) : undefined;
+    if (selectedEntity) {
+        return (
+            <EntityDetail
+                entity={selectedEntity}
+                profile={selected}
+                events={events}
+                change={changes.get(selectedEntity.id)}
+                changeWindow={moveWindow}
+                onBack={() => onEntitySelect(null)}
+            />
+        );
+    }
+
+    return (
+        <div className="flex flex-col h-full w-full">
+            {/* Controls */}
+            <div className="flex flex-wrap items-center gap-4 p-4 border-b border-zinc-800 text-sm">
+                <div className="flex items-center gap-1.5 bg-zinc-800 rounded px-2 py-0.5">
+                    <Search className="w-3.5 h-3.5 text-zinc-500" />
+                    <input
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                        placeholder="Search entities"
+                        className="bg-transparent text-zinc-200 text-xs w-40 focus:outline-none"
+                    />
+                </div>
+
+                <div className="flex items-center gap-1">
+                    <span className="text-zinc-500 text-xs">Type:</span>
+                    <select
+                        value={typeFilter || ''}
+                        onChange={(e) => setTypeFilter((e.target.value as EntityType) || null)}
+                        className="bg-zinc-800 text-zinc-300 text-xs rounded px-1.5 py-0.5 border-none focus:ring-0"
+                    >
+                        <option value="">All types</option>
+                        {(Object.keys(ENTITY_TYPE_CONFIG) as EntityType[]).map((type) => (
+                            <option key={type} value={type}>
+                                {ENTITY_TYPE_CONFIG[type].label}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+
+                <div className="flex items-center gap-1">
+                    <span className="text-zinc-500 text-xs">Move over:</span>
+                    <div className="flex bg-zinc-800 rounded-md p-0.5">
+                        {MOVE_WINDOWS.map((option) => (
+                            <button
+                                key={option}
+                                onClick={() => setMoveWindow(option)}
+                                className={`px-2 py-0.5 text-xs rounded transition-colors ${
+                                    moveWindow === option ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-white'
+                                }`}
+                            >
+                                {option}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="flex-1 min-w-0 flex items-center justify-end gap-2 text-xs text-zinc-500">
+                    {isLoading && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+                    <span>
+                        {rows.length} entit{rows.length === 1 ? 'y' : 'ies'}
+                    </span>
+                </div>
+            </div>
+
+            {/* Table */}
+            <div className="flex-1 overflow-y-auto">
+                {rows.length === 0 ? (
+                    <div className="mt-16 text-center text-zinc-500 text-sm">
+                        <Tags className="w-8 h-8 mx-auto mb-3 text-zinc-700" />
+                        No entities match these filters.
+                    </div>
+                ) : (
+                    <table className="w-full max-w-6xl mx-auto">
+                        <thead className="sticky top-0 bg-zinc-950">
+                            <tr className="text-[10px] uppercase tracking-wider text-zinc-500 border-b border-zinc-800">
+                                {COLUMNS.map(({ key, label, align }) => (
+                                    <th
+                                        key={key}
+                                        onClick={() => toggleSort(key)}
+                                        className={`py-2 px-4 font-semibold cursor-pointer select-none hover:text-zinc-300 ${
+                                            align === 'left' ? 'text-left' : 'text-right'
+                                        } ${sort.key === key ? 'text-zinc-300' : ''}`}
+                                    >
+                                        {label}
+                                        {sort.key === key &&
+                                            (sort.descending ? (
+                                                <ChevronDown className="inline w-3 h-3 ml-0.5" />
+                                            ) : (
+                                                <ChevronUp className="inline w-3 h-3 ml-0.5" />
+                                            ))}
+                                    </th>
+                                ))}
+                                <th className="py-2 px-4 text-left font-semibold w-1/4">Category Mix</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rows.map((profile) => {
+                                const { entity } = profile;
+                                const Icon = ENTITY_TYPE_CONFIG[entity.type].icon;
+                                const change = changes.get(entity.id);
+                                return (
+                                    <tr
+                                        key={entity.id}
+                                        onClick={() => onEntitySelect(entity.id)}
+                                        className="border-b border-zinc-800/60 hover:bg-zinc-800/40 transition-colors cursor-pointer"
+                                    >
+                                        <td className="py-2 px-4">
+                                            <div className="flex items-center gap-2">
+                                                <Icon className="w-3.5 h-3.5 text-zinc-500 flex-shrink-0" />
+                                                <span className="text-sm text-zinc-200">{entity.name}</span>
+                                                {entity.metadata?.ticker && (
+                                                    <span className="text-[10px] font-mono text-zinc-500">
+                                                        {entity.metadata.ticker}
+                                                    </span>
+                                                )}
+                                            </div>
+                                        </td>
+                                        <td className="py-2 px-4 text-right font-mono text-sm text-zinc-400">
+                                            {profile.markets.length}
+                                        </td>
+                                        <td className="py-2 px-4 text-right font-mono text-sm text-zinc-400">
+                                            ${d3.format('.2s')(profile.volume)}
+                                        </td>
+                                        <td className="py-2 px-4 text-right font-mono text-sm whitespace-nowrap">
+                                            <span className="text-zinc-300">{formatMove(change)}</span>
+                                            {change && Math.abs(change.change) >= 0.0005 && (
+                                                <span
+                                                    className={`ml-1.5 text-xs ${
+                                                        change.change > 0 ? 'text-green-400' : 'text-red-400'
+                                                    }`}
+                                                    title="Volume-weighted net change"
+                                                >
+                                                    {change.change > 0 ? '+' : ''}
+                                                    {(change.change * 100).toFixed(1)}
+                                                </span>
+                                            )}
+                                        </td>
+                                        <td className="py-2 px-4">
+                                            <CategoryMixBar mix={profile.categoryMix} />
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+        </div>
+    );
+}
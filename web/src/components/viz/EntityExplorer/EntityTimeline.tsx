@@ -0,0 +1,165 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import * as d3 from 'd3';
+import { MarketNode, ProcessedEvent } from '@/lib/types';
+import { getCategoryColor, getCategoryName } from '@/lib/categories';
+
+interface EntityTimelineProps {
+    markets: MarketNode[];
+    events: ProcessedEvent[];
+}
+
+const WIDTH = 900;
+const HEIGHT = 180;
+const MARGIN = { top: 12, right: 36, bottom: 20, left: 12 };
+
+interface TimelinePoint {
+    market: MarketNode;
+    categoryId: string;
+    endTime: number;
+}
+
+/**
+ * An entity's markets along their resolution dates: height is the current
+ * probability, radius the volume, color the category. Markets without an
+ * end date are left out.
+ */
+export default function EntityTimeline({ markets, events }: EntityTimelineProps) {
+    const [hovered, setHovered] = useState<TimelinePoint | null>(null);
+    const [now] = useState(() => Date.now());
+
+    const points = useMemo((): TimelinePoint[] => {
+        const eventById = new Map(events.map((e) => [e.id, e]));
+        return markets.flatMap((market) => {
+            const event = market.eventId ? eventById.get(market.eventId) : undefined;
+            const endTime = new Date(market.endDate || event?.endDate || '').getTime();
+            if (Number.isNaN(endTime)) return [];
+            return [{ market, categoryId: event?.categoryId || 'other', endTime }];
+        });
+    }, [markets, events]);
+
+    const chart = useMemo(() => {
+        if (points.length === 0) return null;
+
+        const [minTime, maxTime] = d3.extent([...points.map((p) => p.endTime), now]) as [number, number];
+        const x = d3
+            .scaleTime()
+            .domain([minTime, Math.max(maxTime, minTime + 24 * 60 * 60 * 1000)])
+            .range([MARGIN.left, WIDTH - MARGIN.right])
+            .nice();
+        const y = d3
+            .scaleLinear()
+            .domain([0, 1])
+            .range([HEIGHT - MARGIN.bottom, MARGIN.top]);
+        const radius = d3
+            .scaleSqrt()
+            .domain([0, d3.max(points, (p) => p.market.volume) || 1])
+            .range([3, 14]);
+
+        return { x, y, radius, xTicks: x.ticks(6) };
+    }, [points, now]);
+
+    if (!chart) {
+        return (
+            <div className="flex items-center justify-center h-24 text-xs text-zinc-500">
+                No resolution dates available
+            </div>
+        );
+    }
+
+    // Largest markets first so small ones stay on top and hoverable
+    const ordered = [...points].sort((a, b) => b.market.volume - a.market.volume);
+    const dateFormat = d3.timeFormat('%b %d, %Y');
+
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-1 text-[11px] min-h-[16px]">
+                {hovered ? (
+                    <span className="text-zinc-300 truncate">
+                        {hovered.market.question}
+                        <span className="text-zinc-500">
+                            {' '}
+                            · {(hovered.market.outcomeProb * 100).toFixed(1)}% · ${d3.format('.2s')(hovered.market.volume)} ·{' '}
+                            {getCategoryName(hovered.categoryId)} · resolves {dateFormat(new Date(hovered.endTime))}
+                        </span>
+                    </span>
+                ) : (
+                    <span className="text-zinc-500">
+                        {points.length} of {markets.length} markets by resolution date
+                    </span>
+                )}
+            </div>
+
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+                {/* Grid */}
+                {[0, 0.5, 1].map((tick) => (
+                    <g key={tick}>
+                        <line
+                            x1={MARGIN.left}
+                            x2={WIDTH - MARGIN.right}
+                            y1={chart.y(tick)}
+                            y2={chart.y(tick)}
+                            stroke="rgb(39, 39, 42)"
+                        />
+                        <text
+                            x={WIDTH - MARGIN.right + 4}
+                            y={chart.y(tick) + 3}
+                            className="fill-zinc-500"
+                            fontSize={9}
+                        >
+                            {Math.round(tick * 100)}%
+                        </text>
+                    </g>
+                ))}
+                {chart.xTicks.map((tick) => (
+                    <text
+                        key={tick.getTime()}
+                        x={chart.x(tick)}
+                        y={HEIGHT - 4}
+                        textAnchor="middle"
+                        className="fill-zinc-500"
+                        fontSize={9}
+                    >
+                        {d3.timeFormat('%b %Y')(tick)}
+                    </text>
+                ))}
+
+                {/* Today */}
+                <line
+                    x1={chart.x(now)}
+                    x2={chart.x(now)}
+                    y1={MARGIN.top}
+                    y2={HEIGHT - MARGIN.bottom}
+                    stroke="rgb(161, 161, 170)"
+                    strokeDasharray="2 2"
+                />
+                <text x={chart.x(now) + 3} y={MARGIN.top + 6} className="fill-zinc-500" fontSize={9}>
+                    Today
+                </text>
+
+                {/* Markets */}
+                {ordered.map((point) => (
+                    <circle
+                        key={point.market.id}
+                        cx={chart.x(point.endTime)}
+                        cy={chart.y(point.market.outcomeProb)}
+                        r={chart.radius(point.market.volume)}
+                        fill={getCategoryColor(point.categoryId)}
+                        fillOpacity={hovered === null || hovered === point ? 0.75 : 0.25}
+                        stroke={hovered === point ? 'white' : 'rgb(24, 24, 27)'}
+                        className="cursor-pointer"
+                        onMouseEnter={() => setHovered(point)}
+                        onMouseLeave={() => setHovered(null)}
+                        onClick={() =>
+                            window.open(
+                                `https://polymarket.com/event/${point.market.eventSlug || point.market.slug}`,
+                                '_blank'
+                            )
+                        }
+                    />
+                ))}
+            </svg>
+        </div>
+    );
+}
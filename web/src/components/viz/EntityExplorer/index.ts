@@ -0,0 +1,4 @@
+export { default as EntityExplorer } from './EntityExplorer';
+export { default as EntityDetail } from './EntityDetail';
+export { default as EntityTimeline } from './EntityTimeline';
+export { default as CategoryMixBar } from './CategoryMixBar';
@@ -2,8 +2,21 @@
 
 import React, { useMemo, useState, useRef, useCallback, useEffect, useLayoutEffect } from 'react';
 import * as d3 from 'd3';
-import { ViewLevel, Category, ProcessedEvent, MarketNode } from '@/lib/types';
+import {
+    ViewLevel,
+    Category,
+    ProcessedEvent,
+    MarketNode,
+    HeatMapColorMode,
+    PriceChangeSummary,
+    TimeWindow,
+    SizeMetric,
+} from '@/lib/types';
+import { getLeadingOutcome, getSortedOutcomes } from '@/lib/outcomes';
+import { CHANGE_SATURATION } from '@/lib/priceChange';
 import { RotateCcw } from 'lucide-react';
+import StarButton from '@/components/watchlist/StarButton';
+import { useWatchlist } from '@/hooks/useWatchlist';
 
 // ============================================
 // Types
@@ -12,9 +25,13 @@ import { RotateCcw } from 'lucide-react';
 interface HeatMapNode {
     id: string;
     name: string;
-    value: number; // For sizing
+    value: number; // For sizing (per the selected SizeMetric)
+    sizeFallback?: boolean; // Open interest unreported, so `value` is liquidity
+    volume: number; // Total volume, always used for the min-volume filter
     heat: number; // 0-1 for coloring
-    probability?: number; // Only for markets
+    probability?: number; // Only for markets (YES, or leading outcome for multi-choice)
+    outcomeLabel?: string; // Leading outcome name for multi-choice markets
+    outcomes?: Array<{ name: string; prob: number }>; // Multi-choice markets, sorted by prob
     slug?: string;
     // Tooltip & enrichment data
     volume24h?: number;
@@ -31,6 +48,10 @@ interface HeatMapProps {
     data: Category[] | ProcessedEvent[] | MarketNode[];
     onNodeClick?: (node: HeatMapNode) => void;
     minVolume?: number;
+    sizeMetric?: SizeMetric;
+    colorMode?: HeatMapColorMode;
+    changeWindow?: TimeWindow;
+    priceChanges?: Map<string, PriceChangeSummary>; // Keyed by node id
 }
 
 // Viewport in treemap coordinate space (0–100)
@@ -66,20 +87,159 @@ const probabilityColorScale = (prob: number): string => {
     return d3.interpolateRgb('rgb(239, 68, 68)', 'rgb(59, 130, 246)')(prob);
 };
 
+const NO_CHANGE_DATA_COLOR = '#27272a';
+
+// Diverging: red (falling) -> zinc (flat) -> green (rising)
+const changeColorScale = (change: number, saturation: number): string => {
+    const t = Math.min(Math.max(change / saturation, -1), 1);
+    if (t < 0) {
+        return d3.interpolateRgb('#3f3f46', '#ef4444')(-t);
+    }
+    return d3.interpolateRgb('#3f3f46', '#22c55e')(t);
+};
+
+// Sequential: zinc (quiet) -> violet (moving), for aggregated |change|
+const movementColorScale = (magnitude: number, saturation: number): string => {
+    const t = Math.min(Math.max(magnitude / saturation, 0), 1);
+    return d3.interpolateRgb('#3f3f46', '#8b5cf6')(t);
+};
+
+function formatChange(change: number): string {
+    const pp = change * 100;
+    return `${pp >= 0 ? '+' : ''}${pp.toFixed(1)}pp`;
+}
+
+// ============================================
+// Tooltip Rows
+// ============================================
+
+interface TooltipChangeRowsProps {
+    summary?: PriceChangeSummary;
+    changeWindow: TimeWindow;
+    isMarketLevel: boolean;
+}
+
+function TooltipChangeRows({ summary, changeWindow, isMarketLevel }: TooltipChangeRowsProps) {
+    if (!summary) {
+        return (
+            <div className="flex justify-between gap-4">
+                <span>Change ({changeWindow})</span>
+                <span className="text-zinc-500">No history</span>
+            </div>
+        );
+    }
+
+    const changeClass = summary.change >= 0 ? 'text-green-400' : 'text-red-400';
+
+    if (isMarketLevel) {
+        return (
+            <div className="flex justify-between gap-4">
+                <span>Change ({changeWindow})</span>
+                <span className={`font-mono ${changeClass}`}>{formatChange(summary.change)}</span>
+            </div>
+        );
+    }
+
+    return (
+        <>
+            <div className="flex justify-between gap-4">
+                <span>Avg move ({changeWindow})</span>
+                <span className="font-mono text-violet-400">
+                    ±{(summary.magnitude * 100).toFixed(1)}pp
+                </span>
+            </div>
+            <div className="flex justify-between gap-4">
+                <span>Net change</span>
+                <span className={`font-mono ${changeClass}`}>{formatChange(summary.change)}</span>
+            </div>
+            <div className="flex justify-between gap-4">
+                <span>Markets sampled</span>
+                <span className="text-zinc-200">{summary.sampleCount}</span>
+            </div>
+        </>
+    );
+}
+
+// ============================================
+// Sizing
+// ============================================
+
+interface SizeInputs {
+    volume: number;
+    volume24h: number;
+    liquidity: number;
+    openInterest: number;
+    marketCount: number;
+}
+
+function getSizeValue(metric: SizeMetric, inputs: SizeInputs): number {
+    switch (metric) {
+        case 'volume':
+            return inputs.volume;
+        case 'volume24h':
+            return inputs.volume24h;
+        case 'liquidity':
+            return inputs.liquidity;
+        case 'openInterest':
+            // Not every payload reports open interest; resting liquidity is the closest stand-in
+            return inputs.openInterest || inputs.liquidity;
+        case 'marketCount':
+            return inputs.marketCount;
+        case 'equal':
+            return 1;
+    }
+}
+
+/**
+ * Size value and whether open interest fell back to liquidity (markets never
+ * report it; some events don't either).
+ */
+function getSizeFields(metric: SizeMetric, inputs: SizeInputs): Pick<HeatMapNode, 'value' | 'sizeFallback'> {
+    return {
+        value: getSizeValue(metric, inputs),
+        sizeFallback: metric === 'openInterest' && !inputs.openInterest,
+    };
+}
+
+function formatSizeValue(metric: SizeMetric, value: number, fallback = false): string | null {
+    switch (metric) {
+        case 'marketCount':
+            return `${value} mkt${value === 1 ? '' : 's'}`;
+        case 'equal':
+            return null;
+        case 'volume24h':
+            return `$${d3.format('.2s')(value)}/24h`;
+        case 'liquidity':
+            return `$${d3.format('.2s')(value)} liq`;
+        case 'openInterest':
+            return `$${d3.format('.2s')(value)} ${fallback ? 'liq' : 'OI'}`;
+        default:
+            return `$${d3.format('.2s')(value)}`;
+    }
+}
+
 // ============================================
 // Data Transformation
 // ============================================
 
 function transformToNodes(
     level: ViewLevel,
-    data: Category[] | ProcessedEvent[] | MarketNode[]
+    data: Category[] | ProcessedEvent[] | MarketNode[],
+    sizeMetric: SizeMetric
 ): HeatMapNode[] {
     switch (level) {
         case 'category':
             return (data as Category[]).map((cat) => ({
                 id: cat.id,
                 name: cat.name,
-                value: cat.volumeTotal,
+                ...getSizeFields(sizeMetric, {
+                    volume: cat.volumeTotal,
+                    volume24h: cat.volume24h,
+                    liquidity: cat.liquidity,
+                    openInterest: cat.openInterest,
+                    marketCount: cat.marketCount,
+                }),
+                volume: cat.volumeTotal,
                 heat: cat.volumeHeat,
                 volume24h: cat.volume24h,
                 eventCount: cat.eventCount,
@@ -89,7 +249,14 @@ function transformToNodes(
             return (data as ProcessedEvent[]).map((event) => ({
                 id: event.id,
                 name: event.title,
-                value: event.volumeTotal,
+                ...getSizeFields(sizeMetric, {
+                    volume: event.volumeTotal,
+                    volume24h: event.volume24h,
+                    liquidity: event.liquidity,
+                    openInterest: event.openInterest || 0,
+                    marketCount: event.marketCount,
+                }),
+                volume: event.volumeTotal,
                 heat: event.volumeHeat,
                 slug: event.slug,
                 volume24h: event.volume24h,
@@ -103,9 +270,18 @@ function transformToNodes(
             return (data as MarketNode[]).map((market) => ({
                 id: market.id,
                 name: market.question,
-                value: market.volume,
+                ...getSizeFields(sizeMetric, {
+                    volume: market.volume,
+                    volume24h: market.volume24hr || 0,
+                    liquidity: market.liquidity || 0,
+                    openInterest: 0,
+                    marketCount: 1,
+                }),
+                volume: market.volume,
                 heat: 0,
                 probability: market.outcomeProb,
+                outcomeLabel: market.isMultiChoice ? getLeadingOutcome(market).name : undefined,
+                outcomes: market.isMultiChoice ? getSortedOutcomes(market) : undefined,
                 slug: market.eventSlug || market.slug,
                 volume24h: market.volume24hr,
                 liquidity: market.liquidity,
@@ -162,6 +338,10 @@ export default function HeatMap({
     data,
     onNodeClick,
     minVolume = 0,
+    sizeMetric = 'volume',
+    colorMode = 'activity',
+    changeWindow = '24h',
+    priceChanges,
 }: HeatMapProps) {
     // Viewport state: the visible region in treemap coordinates (0–100)
     const [viewport, setViewport] = useState<Viewport>(DEFAULT_VIEWPORT);
@@ -183,6 +363,8 @@ export default function HeatMap({
     const [tooltipStyle, setTooltipStyle] = useState<{ left: number; top: number }>({ left: 0, top: 0 });
     const tooltipRef = useRef<HTMLDivElement>(null);
 
+    const { isWatched } = useWatchlist();
+
     const applyViewport = useCallback((vp: Viewport) => {
         const clamped = clampViewport(vp);
         viewportRef.current = clamped;
@@ -317,8 +499,8 @@ export default function HeatMap({
 
     // Transform and filter data
     const root = useMemo(() => {
-        const nodes = transformToNodes(level, data).filter(
-            (n) => n.value >= minVolume
+        const nodes = transformToNodes(level, data, sizeMetric).filter(
+            (n) => n.volume >= minVolume && n.value > 0
         );
 
         if (nodes.length === 0) return null;
@@ -349,10 +531,22 @@ export default function HeatMap({
         treemapLayout(rootNode);
 
         return rootNode as d3.HierarchyRectangularNode<HierarchyData>;
-    }, [level, data, minVolume]);
+    }, [level, data, minVolume, sizeMetric]);
+
+    const isChangeMode = colorMode === 'change';
 
-    // Get color for a node based on level
+    // Get color for a node based on level and color mode
     const getNodeColor = (node: HeatMapNode): string => {
+        if (isChangeMode) {
+            const summary = priceChanges?.get(node.id);
+            if (!summary) return NO_CHANGE_DATA_COLOR;
+            const saturation = CHANGE_SATURATION[changeWindow];
+            // Markets show direction; aggregates show how much their markets moved,
+            // since opposite moves (e.g. within a multi-outcome event) cancel out
+            return level === 'market'
+                ? changeColorScale(summary.change, saturation)
+                : movementColorScale(summary.magnitude, saturation);
+        }
         if (level === 'market' && node.probability !== undefined) {
             return probabilityColorScale(node.probability);
         }
@@ -424,6 +618,10 @@ export default function HeatMap({
                 if (screenWidth < 1 || screenHeight < 1) return null;
 
                 const color = getNodeColor(node);
+                const changeSummary = isChangeMode ? priceChanges?.get(node.id) : undefined;
+                const sizeLabel = formatSizeValue(sizeMetric, node.value, node.sizeFallback);
+                const watchKind = level === 'market' ? 'market' : level === 'event' ? 'event' : null;
+                const watched = watchKind !== null && isWatched(watchKind, node.id);
                 const showText = screenWidth > 4 && screenHeight > 4;
                 const showStats = screenWidth > 6;
                 const showFullProb = screenWidth > 10 && screenHeight > 8;
@@ -491,9 +689,21 @@ export default function HeatMap({
                             </div>
                         )}
 
+                        {/* Watchlist star (event & market levels) */}
+                        {showText && watchKind && (
+                            <StarButton
+                                kind={watchKind}
+                                id={node.id}
+                                size="sm"
+                                className={`absolute top-0.5 right-0.5 z-[3] bg-black/30 ${
+                                    watched ? '' : 'opacity-0 group-hover:opacity-100'
+                                }`}
+                            />
+                        )}
+
                         {/* Activity badge (market level) */}
                         {showText && isMarketLevel && node.volume24hrRatio !== undefined && node.volume24hrRatio > 0.08 && (
-                            <span className={`absolute top-1 right-1 z-[2] px-1 py-0.5 text-[7px] font-bold uppercase rounded text-white drop-shadow-md pointer-events-none ${node.volume24hrRatio > 0.15 ? 'bg-red-500/80' : 'bg-yellow-500/80'
+                            <span className={`absolute top-1 right-7 z-[2] px-1 py-0.5 text-[7px] font-bold uppercase rounded text-white drop-shadow-md pointer-events-none ${node.volume24hrRatio > 0.15 ? 'bg-red-500/80' : 'bg-yellow-500/80'
                                 }`}>
                                 {node.volume24hrRatio > 0.15 ? 'HOT' : 'ACTIVE'}
                             </span>
@@ -512,18 +722,33 @@ export default function HeatMap({
                                     <div className="mt-auto flex items-end justify-between gap-1">
                                         {isMarketLevel &&
                                             node.probability !== undefined ? (
-                                            <div className="flex items-center gap-1">
-                                                <span className="text-[10px] font-mono font-bold opacity-90 drop-shadow-md">
+                                            <div className="flex items-center gap-1 min-w-0">
+                                                <span className="text-[10px] font-mono font-bold opacity-90 drop-shadow-md truncate">
                                                     {Math.round(node.probability * 100)}%
-                                                    <span className="text-[8px] opacity-70 ml-0.5">YES</span>
+                                                    <span className="text-[8px] opacity-70 ml-0.5">
+                                                        {node.outcomeLabel || 'YES'}
+                                                    </span>
                                                 </span>
-                                                {showFullProb && (
+                                                {changeSummary ? (
+                                                    <span className="text-[9px] font-mono font-bold opacity-90 drop-shadow-md">
+                                                        {formatChange(changeSummary.change)}
+                                                    </span>
+                                                ) : showFullProb && !node.outcomeLabel && (
                                                     <span className="text-[9px] font-mono opacity-60 drop-shadow-md">
                                                         {Math.round((1 - node.probability) * 100)}%
                                                         <span className="text-[7px] opacity-70 ml-0.5">NO</span>
                                                     </span>
                                                 )}
                                             </div>
+                                        ) : isChangeMode ? (
+                                            showStats && changeSummary && (
+                                                <span
+                                                    className="text-[9px] font-mono opacity-80"
+                                                    title="Average probability move"
+                                                >
+                                                    ±{(changeSummary.magnitude * 100).toFixed(1)}pp
+                                                </span>
+                                            )
                                         ) : (
                                             showStats && (
                                                 <span
@@ -540,10 +765,10 @@ export default function HeatMap({
                                             )
                                         )}
 
-                                        {/* Volume */}
-                                        {showStats && (
+                                        {/* Size metric value */}
+                                        {showStats && sizeLabel && (
                                             <span className="text-[9px] opacity-70 font-mono">
-                                                ${d3.format('.2s')(node.value)}
+                                                {sizeLabel}
                                             </span>
                                         )}
                                     </div>
@@ -598,8 +823,27 @@ export default function HeatMap({
                         </h4>
                     </div>
 
-                    {/* Probability (market level) */}
-                    {isMarketLevel && tooltipNode.probability !== undefined && (
+                    {/* Outcomes (multi-choice markets) */}
+                    {isMarketLevel && tooltipNode.outcomes && (
+                        <div className="mb-2 space-y-0.5">
+                            {tooltipNode.outcomes.slice(0, 4).map((outcome) => (
+                                <div key={outcome.name} className="flex justify-between gap-4 text-xs">
+                                    <span className="text-zinc-300 truncate">{outcome.name}</span>
+                                    <span className="font-mono font-bold text-blue-400">
+                                        {Math.round(outcome.prob * 100)}%
+                                    </span>
+                                </div>
+                            ))}
+                            {tooltipNode.outcomes.length > 4 && (
+                                <div className="text-[10px] text-zinc-500">
+                                    +{tooltipNode.outcomes.length - 4} more options
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    {/* Probability (binary markets) */}
+                    {isMarketLevel && tooltipNode.probability !== undefined && !tooltipNode.outcomes && (
                         <div className="mb-2">
                             <span className="text-blue-400 font-mono font-bold text-sm">
                                 {Math.round(tooltipNode.probability * 100)}% YES
@@ -612,12 +856,27 @@ export default function HeatMap({
 
                     {/* Stats */}
                     <div className="space-y-1 text-xs text-zinc-400">
+                        {isChangeMode && (
+                            <TooltipChangeRows
+                                summary={priceChanges?.get(tooltipNode.id)}
+                                changeWindow={changeWindow}
+                                isMarketLevel={isMarketLevel}
+                            />
+                        )}
                         <div className="flex justify-between gap-4">
                             <span>Volume</span>
                             <span className="font-mono text-zinc-200">
-                                ${d3.format('.2s')(tooltipNode.value)}
+                                ${d3.format('.2s')(tooltipNode.volume)}
                             </span>
                         </div>
+                        {sizeMetric === 'openInterest' && (
+                            <div className="flex justify-between gap-4">
+                                <span>{tooltipNode.sizeFallback ? 'Liquidity (no OI reported)' : 'Open Interest'}</span>
+                                <span className="font-mono text-zinc-200">
+                                    ${d3.format('.2s')(tooltipNode.value)}
+                                </span>
+                            </div>
+                        )}
                         {tooltipNode.volume24h !== undefined && tooltipNode.volume24h > 0 && (
                             <div className="flex justify-between gap-4">
                                 <span>24h Volume</span>
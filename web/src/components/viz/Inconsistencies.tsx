@@ -0,0 +1,338 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import * as d3 from 'd3';
+import { AlertTriangle, ChevronDown, ChevronRight, ChevronUp, ExternalLink, Loader2, Scale } from 'lucide-react';
+import { Category, ProcessedEvent } from '@/lib/types';
+import {
+    ExclusiveGroup,
+    INCONSISTENCY_THRESHOLD,
+    applyOrderBooks,
+    describeIncompleteness,
+    findExclusiveGroups,
+    formatOverround,
+    isExecutable,
+} from '@/lib/arbitrage';
+import { useOrderBooks } from '@/hooks/useOrderBook';
+
+interface InconsistenciesProps {
+    events: ProcessedEvent[];
+    categories: Category[];
+}
+
+type SortKey = 'event' | 'legs' | 'overround' | 'askSum' | 'bidSum' | 'arbEdge' | 'volume';
+
+const COLUMNS: Array<{ key: SortKey; label: string; align: 'left' | 'right' }> = [
+    { key: 'event', label: 'Event', align: 'left' },
+    { key: 'legs', label: 'Outcomes', align: 'right' },
+    { key: 'overround', label: 'Σ Price', align: 'right' },
+    { key: 'askSum', label: 'Σ Ask', align: 'right' },
+    { key: 'bidSum', label: 'Σ Bid', align: 'right' },
+    { key: 'arbEdge', label: 'Arb Edge', align: 'right' },
+    { key: 'volume', label: 'Volume', align: 'right' },
+];
+
+const MIN_DEVIATION_OPTIONS = [0, 0.01, INCONSISTENCY_THRESHOLD, 0.05];
+
+// Books are fetched for the most inconsistent events first, up to this many tokens
+// (the expanded event always gets its books)
+const MAX_BOOK_TOKENS = 60;
+
+function sortValue(group: ExclusiveGroup, key: SortKey): number | string | null {
+    switch (key) {
+        case 'event':
+            return group.eventTitle.toLowerCase();
+        case 'legs':
+            return group.legs.length;
+        case 'overround':
+            return Math.abs(group.overround);
+        case 'askSum':
+            return group.askSum;
+        case 'bidSum':
+            return group.bidSum;
+        case 'arbEdge':
+            return group.arbEdge;
+        case 'volume':
+            return group.volume;
+    }
+}
+
+function formatPrice(value: number | null): string {
+    return value === null ? '—' : `${(value * 100).toFixed(1)}¢`;
+}
+
+function deviationClass(overround: number): string {
+    if (Math.abs(overround) < INCONSISTENCY_THRESHOLD) return 'text-zinc-400';
+    return overround > 0 ? 'text-amber-400' : 'text-sky-400';
+}
+
+// ============================================
+// Main Component
+// ============================================
+
+/**
+ * Mutually exclusive events whose YES prices do not sum to 100%. Quoted
+ * prices give the over/underround; best bids and asks show whether buying
+ * (or selling) every outcome would lock in a profit.
+ */
+export default function Inconsistencies({ events, categories }: InconsistenciesProps) {
+    const [categoryId, setCategoryId] = useState<string | null>(null);
+    const [minDeviation, setMinDeviation] = useState(0);
+    const [executableOnly, setExecutableOnly] = useState(false);
+    const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({
+        key: 'overround',
+        descending: true,
+    });
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+
+    // Largest deviation first
+    const groups = useMemo(
+        () => findExclusiveGroups(categoryId ? events.filter((e) => e.categoryId === categoryId) : events),
+        [events, categoryId]
+    );
+
+    // Fetch books for the expanded event, then the most inconsistent events
+    // that still fit; a group too big for what is left is skipped, not a stop
+    const tokenIds = useMemo(() => {
+        const ids: string[] = [];
+        const expanded = groups.find((g) => g.eventId === expandedId);
+        const ordered = expanded ? [expanded, ...groups.filter((g) => g !== expanded)] : groups;
+        for (const group of ordered) {
+            const groupIds = group.legs.flatMap((leg) => (leg.tokenId ? [leg.tokenId] : []));
+            if (group !== expanded && ids.length + groupIds.length > MAX_BOOK_TOKENS) continue;
+            ids.push(...groupIds);
+        }
+        return ids;
+    }, [groups, expandedId]);
+
+    const { books, isLoading } = useOrderBooks(tokenIds);
+
+    const rows = useMemo(() => {
+        const withBooks = groups
+            .map((group) => applyOrderBooks(group, books))
+            .filter((group) => Math.abs(group.overround) >= minDeviation)
+            .filter((group) => !executableOnly || isExecutable(group));
+
+        // Missing values sort last either way
+        return withBooks.sort((a, b) => {
+            const va = sortValue(a, sort.key);
+            const vb = sortValue(b, sort.key);
+            if (va === null || vb === null) return va === null ? (vb === null ? 0 : 1) : -1;
+            const order = va < vb ? -1 : va > vb ? 1 : 0;
+            return sort.descending ? -order : order;
+        });
+    }, [groups, books, minDeviation, executableOnly, sort]);
+
+    const executableCount = rows.filter(isExecutable).length;
+
+    const toggleSort = (key: SortKey) =>
+        setSort((prev) => ({ key, descending: prev.key === key ? !prev.descending : key !== 'event' }));
+
+    return (
+        <div className="flex flex-col h-full w-full">
+            {/* Controls */}
+            <div className="flex flex-wrap items-center gap-4 p-4 border-b border-zinc-800 text-sm">
+                <div className="flex items-center gap-1">
+                    <span className="text-zinc-500 text-xs">Scope:</span>
+                    <select
+                        value={categoryId || ''}
+                        onChange={(e) => setCategoryId(e.target.value || null)}
+                        className="bg-zinc-800 text-zinc-300 text-xs rounded px-1.5 py-0.5 border-none focus:ring-0"
+                    >
+                        <option value="">All categories</option>
+                        {categories.map((category) => (
+                            <option key={category.id} value={category.id}>
+                                {category.name}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+
+                <div className="flex items-center gap-1">
+                    <span className="text-zinc-500 text-xs">Min deviation:</span>
+                    <div className="flex bg-zinc-800 rounded-md p-0.5">
+                        {MIN_DEVIATION_OPTIONS.map((option) => (
+                            <button
+                                key={option}
+                                onClick={() => setMinDeviation(option)}
+                                className={`px-2 py-0.5 text-xs rounded transition-colors ${
+                                    minDeviation === option ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-white'
+                                }`}
+                            >
+                                {option === 0 ? 'All' : `${Math.round(option * 100)}%`}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                <label className="flex items-center gap-1.5 text-xs text-zinc-400 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={executableOnly}
+                        onChange={(e) => setExecutableOnly(e.target.checked)}
+                        className="accent-green-500"
+                    />
+                    Executable only
+                </label>
+
+                <div className="flex-1 min-w-0 flex items-center justify-end gap-2 text-xs text-zinc-500">
+                    {isLoading && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+                    <span>
+                        {rows.length} exclusive event{rows.length === 1 ? '' : 's'}
+                        {executableCount > 0 && (
+                            <span className="text-green-400"> · {executableCount} executable</span>
+                        )}
+                    </span>
+                </div>
+            </div>
+
+            {/* Table */}
+            <div className="flex-1 overflow-y-auto">
+                {rows.length === 0 ? (
+                    <div className="mt-16 text-center text-zinc-500 text-sm">
+                        <Scale className="w-8 h-8 mx-auto mb-3 text-zinc-700" />
+                        No mutually exclusive events match these filters.
+                    </div>
+                ) : (
+                    <table className="w-full max-w-6xl mx-auto">
+                        <thead className="sticky top-0 bg-zinc-950">
+                            <tr className="text-[10px] uppercase tracking-wider text-zinc-500 border-b border-zinc-800">
+                                <th className="w-8" />
+                                {COLUMNS.map(({ key, label, align }) => (
+                                    <th
+                                        key={key}
+                                        onClick={() => toggleSort(key)}
+                                        className={`py-2 pr-4 font-semibold cursor-pointer select-none hover:text-zinc-300 ${
+                                            align === 'left' ? 'text-left' : 'text-right'
+                                        } ${sort.key === key ? 'text-zinc-300' : ''}`}
+                                    >
+                                        {label}
+                                        {sort.key === key &&
+                                            (sort.descending ? (
+                                                <ChevronDown className="inline w-3 h-3 ml-0.5" />
+                                            ) : (
+                                                <ChevronUp className="inline w-3 h-3 ml-0.5" />
+                                            ))}
+                                    </th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rows.map((group) => {
+                                const isExpanded = group.eventId === expandedId;
+                                const executable = isExecutable(group);
+                                const incompleteness = describeIncompleteness(group);
+                                return (
+                                    <React.Fragment key={group.eventId}>
+                                        <tr
+                                            onClick={() => setExpandedId(isExpanded ? null : group.eventId)}
+                                            className="border-b border-zinc-800/60 hover:bg-zinc-800/40 transition-colors cursor-pointer"
+                                        >
+                                            <td className="py-2 pl-2 text-zinc-500">
+                                                {isExpanded ? (
+                                                    <ChevronDown className="w-4 h-4" />
+                                                ) : (
+                                                    <ChevronRight className="w-4 h-4" />
+                                                )}
+                                            </td>
+                                            <td className="py-2 pr-4">
+                                                <div className="flex items-center gap-1.5">
+                                                    <span className="text-sm text-zinc-200 line-clamp-1">{group.eventTitle}</span>
+                                                    {incompleteness && (
+                                                        <span title={`Not every outcome is a listed leg (${incompleteness})`}>
+                                                            <AlertTriangle className="w-3.5 h-3.5 text-zinc-500 flex-shrink-0" />
+                                                        </span>
+                                                    )}
+                                                </div>
+                                            </td>
+                                            <td className="py-2 pr-4 text-right font-mono text-sm text-zinc-400">
+                                                {group.legs.length}
+                                            </td>
+                                            <td className="py-2 pr-4 text-right font-mono text-sm whitespace-nowrap">
+                                                <span className="text-zinc-300">{(group.priceSum * 100).toFixed(1)}%</span>
+                                                <span className={`ml-1.5 text-xs ${deviationClass(group.overround)}`}>
+                                                    {formatOverround(group.overround)}
+                                                </span>
+                                            </td>
+                                            <td className="py-2 pr-4 text-right font-mono text-sm text-zinc-400">
+                                                {formatPrice(group.askSum)}
+                                            </td>
+                                            <td className="py-2 pr-4 text-right font-mono text-sm text-zinc-400">
+                                                {formatPrice(group.bidSum)}
+                                            </td>
+                                            <td
+                                                className={`py-2 pr-4 text-right font-mono text-sm ${
+                                                    executable ? 'text-green-400 font-bold' : 'text-zinc-500'
+                                                }`}
+                                            >
+                                                {group.arbEdge === null ? '—' : formatPrice(group.arbEdge)}
+                                            </td>
+                                            <td className="py-2 pr-4 text-right font-mono text-sm text-zinc-400">
+                                                ${d3.format('.2s')(group.volume)}
+                                            </td>
+                                        </tr>
+
+                                        {isExpanded && (
+                                            <tr className="border-b border-zinc-800 bg-zinc-900/60">
+                                                <td />
+                                                <td colSpan={COLUMNS.length} className="py-3 pr-4">
+                                                    <table className="w-full text-xs">
+                                                        <thead>
+                                                            <tr className="text-[10px] uppercase tracking-wider text-zinc-600">
+                                                                <th className="pb-1 text-left font-semibold">Outcome</th>
+                                                                <th className="pb-1 text-right font-semibold">Price</th>
+                                                                <th className="pb-1 text-right font-semibold">Bid</th>
+                                                                <th className="pb-1 text-right font-semibold">Ask</th>
+                                                            </tr>
+                                                        </thead>
+                                                        <tbody>
+                                                            {group.legs.map((leg) => (
+                                                                <tr key={leg.marketId} title={leg.question}>
+                                                                    <td className="py-0.5 text-zinc-300">{leg.label}</td>
+                                                                    <td className="py-0.5 text-right font-mono text-zinc-300">
+                                                                        {formatPrice(leg.yesPrice)}
+                                                                    </td>
+                                                                    <td className="py-0.5 text-right font-mono text-green-400/80">
+                                                                        {formatPrice(leg.bestBid)}
+                                                                    </td>
+                                                                    <td className="py-0.5 text-right font-mono text-red-400/80">
+                                                                        {formatPrice(leg.bestAsk)}
+                                                                    </td>
+                                                                </tr>
+                                                            ))}
+                                                        </tbody>
+                                                    </table>
+                                                    <div className="flex items-center justify-between mt-2 text-[11px] text-zinc-500">
+                                                        <span>
+                                                            {incompleteness
+                                                                ? `Not executable: ${incompleteness}, so one of every listed outcome is not guaranteed to pay $1.`
+                                                                : group.askSum !== null && group.askSum < 1
+                                                                ? `Buy one YES of every outcome for ${formatPrice(group.askSum)}; exactly one pays $1.`
+                                                                : group.bidSum !== null && group.bidSum > 1
+                                                                ? `Buy one NO of every outcome: the YES bids sum to ${formatPrice(group.bidSum)}.`
+                                                                : 'No executable edge at the best bid/ask (before fees and depth).'}
+                                                        </span>
+                                                        <a
+                                                            href={`https://polymarket.com/event/${group.eventSlug}`}
+                                                            target="_blank"
+                                                            rel="noopener noreferrer"
+                                                            onClick={(e) => e.stopPropagation()}
+                                                            className="flex items-center gap-1 text-zinc-400 hover:text-white"
+                                                        >
+                                                            Polymarket
+                                                            <ExternalLink className="w-3 h-3" />
+                                                        </a>
+                                                    </div>
+                                                </td>
+                                            </tr>
+                                        )}
+                                    </React.Fragment>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+        </div>
+    );
+}
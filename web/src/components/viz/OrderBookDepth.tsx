@@ -0,0 +1,156 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import * as d3 from 'd3';
+import { Loader2 } from 'lucide-react';
+import { OrderBookLevel } from '@/lib/types';
+import { useOrderBook } from '@/hooks/useOrderBook';
+
+interface OrderBookDepthProps {
+    tokenId: string;
+}
+
+const WIDTH = 360;
+const HEIGHT = 110;
+const MARGIN = { top: 6, right: 6, bottom: 16, left: 6 };
+const PRICE_RANGE = 0.15; // Show ±15¢ around the mid
+
+const BID_COLOR = 'rgb(34, 197, 94)';
+const ASK_COLOR = 'rgb(239, 68, 68)';
+
+function formatCents(price: number | null): string {
+    return price === null ? '—' : `${(price * 100).toFixed(1)}¢`;
+}
+
+// ============================================
+// Depth Chart
+// ============================================
+
+interface DepthChartProps {
+    bids: OrderBookLevel[];
+    asks: OrderBookLevel[];
+    mid: number;
+}
+
+function DepthChart({ bids, asks, mid }: DepthChartProps) {
+    const chart = useMemo(() => {
+        const minPrice = Math.max(0, mid - PRICE_RANGE);
+        const maxPrice = Math.min(1, mid + PRICE_RANGE);
+        const visibleBids = bids.filter((level) => level.price >= minPrice);
+        const visibleAsks = asks.filter((level) => level.price <= maxPrice);
+        const maxDepth = d3.max([...visibleBids, ...visibleAsks], (level) => level.cumulative) || 1;
+
+        const x = d3
+            .scaleLinear()
+            .domain([minPrice, maxPrice])
+            .range([MARGIN.left, WIDTH - MARGIN.right]);
+        const y = d3
+            .scaleLinear()
+            .domain([0, maxDepth])
+            .range([HEIGHT - MARGIN.bottom, MARGIN.top]);
+
+        // Extend each side to the edge of the window so the last step is drawn
+        const bidPoints = [...visibleBids].reverse();
+        if (bidPoints.length > 0) {
+            bidPoints.unshift({ ...bidPoints[0], price: minPrice });
+        }
+        const askPoints = [...visibleAsks];
+        if (askPoints.length > 0) {
+            askPoints.push({ ...askPoints[askPoints.length - 1], price: maxPrice });
+        }
+
+        const area = (curve: d3.CurveFactory) =>
+            d3
+                .area<OrderBookLevel>()
+                .x((level) => x(level.price))
+                .y0(y(0))
+                .y1((level) => y(level.cumulative))
+                .curve(curve);
+
+        return {
+            bidPath: area(d3.curveStepBefore)(bidPoints) || '',
+            askPath: area(d3.curveStepAfter)(askPoints) || '',
+            ticks: x.ticks(5),
+            x,
+            maxDepth,
+        };
+    }, [bids, asks, mid]);
+
+    return (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+            <path d={chart.bidPath} fill={BID_COLOR} fillOpacity={0.25} stroke={BID_COLOR} strokeWidth={1} />
+            <path d={chart.askPath} fill={ASK_COLOR} fillOpacity={0.25} stroke={ASK_COLOR} strokeWidth={1} />
+            <line
+                x1={chart.x(mid)}
+                x2={chart.x(mid)}
+                y1={MARGIN.top}
+                y2={HEIGHT - MARGIN.bottom}
+                stroke="rgb(161, 161, 170)"
+                strokeDasharray="2 2"
+            />
+            {chart.ticks.map((tick) => (
+                <text
+                    key={tick}
+                    x={chart.x(tick)}
+                    y={HEIGHT - 4}
+                    textAnchor="middle"
+                    className="fill-zinc-500"
+                    fontSize={9}
+                >
+                    {Math.round(tick * 100)}¢
+                </text>
+            ))}
+            <text x={WIDTH - MARGIN.right} y={MARGIN.top + 8} textAnchor="end" className="fill-zinc-500" fontSize={9}>
+                {d3.format('.2s')(chart.maxDepth)} shares
+            </text>
+        </svg>
+    );
+}
+
+// ============================================
+// Main Component
+// ============================================
+
+/**
+ * Live CLOB depth for one outcome token: cumulative bid/ask size around the
+ * mid, plus best bid/ask, spread and mid readout.
+ */
+export default function OrderBookDepth({ tokenId }: OrderBookDepthProps) {
+    const { book, isLoading } = useOrderBook(tokenId);
+
+    if (isLoading && !book) {
+        return (
+            <div className="flex items-center justify-center h-16">
+                <Loader2 className="w-4 h-4 text-blue-500 animate-spin" />
+            </div>
+        );
+    }
+
+    if (!book || (book.bids.length === 0 && book.asks.length === 0)) {
+        return <div className="text-[11px] text-zinc-500 text-center py-3">No order book available</div>;
+    }
+
+    return (
+        <div>
+            <div className="grid grid-cols-4 gap-2 text-[10px] mb-2">
+                <div>
+                    <div className="text-zinc-500">Bid</div>
+                    <div className="font-mono text-green-400">{formatCents(book.bestBid)}</div>
+                </div>
+                <div>
+                    <div className="text-zinc-500">Ask</div>
+                    <div className="font-mono text-red-400">{formatCents(book.bestAsk)}</div>
+                </div>
+                <div>
+                    <div className="text-zinc-500">Spread</div>
+                    <div className="font-mono text-zinc-300">{formatCents(book.spread)}</div>
+                </div>
+                <div>
+                    <div className="text-zinc-500">Mid</div>
+                    <div className="font-mono text-zinc-300">{formatCents(book.mid)}</div>
+                </div>
+            </div>
+            {book.mid !== null && <DepthChart bids={book.bids} asks={book.asks} mid={book.mid} />}
+        </div>
+    );
+}
@@ -0,0 +1,290 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import * as d3 from 'd3';
+import { Loader2 } from 'lucide-react';
+import { MarketNode, PriceHistoryPoint, TimeWindow } from '@/lib/types';
+import { getLeadingOutcome, getPrimaryTokenId } from '@/lib/outcomes';
+import { PRESET_WINDOWS } from '@/lib/timeWindow';
+import { usePriceHistory } from '@/hooks/usePriceHistory';
+
+interface PriceHistoryChartProps {
+    markets: MarketNode[]; // One line per market, in legend order
+    initiallyShown?: number; // Lines drawn at first; the rest are toggled on from the legend
+}
+
+const WIDTH = 380;
+const HEIGHT = 160;
+const MARGIN = { top: 8, right: 30, bottom: 18, left: 4 };
+
+const SERIES_COLORS = d3.schemeTableau10;
+
+interface Series {
+    market: MarketNode;
+    tokenId: string;
+    label: string;
+    color: string;
+    history: PriceHistoryPoint[];
+}
+
+const bisectTime = d3.bisector((point: PriceHistoryPoint) => point.timestamp).center;
+
+function formatTick(timestamp: number, timeWindow: TimeWindow): string {
+    const date = new Date(timestamp);
+    return timeWindow === '1h' || timeWindow === '24h'
+        ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+        : date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+}
+
+/**
+ * Probability over time for an event's markets, with a window selector and
+ * a hover crosshair that reads out every line at the hovered time. Every
+ * market gets a legend entry; clicking it shows or hides its line, and only
+ * shown lines are fetched.
+ */
+export default function PriceHistoryChart({ markets, initiallyShown = 5 }: PriceHistoryChartProps) {
+    const [timeWindow, setTimeWindow] = useState<TimeWindow>('24h');
+    const [hoverTime, setHoverTime] = useState<number | null>(null);
+
+    const tokens = useMemo(
+        () =>
+            markets
+                .map((market) => ({ market, tokenId: getPrimaryTokenId(market) }))
+                .filter((entry): entry is { market: MarketNode; tokenId: string } => !!entry.tokenId)
+                .map((entry, i) => ({
+                    ...entry,
+                    label: entry.market.isMultiChoice
+                        ? `${entry.market.question} · ${getLeadingOutcome(entry.market).name}`
+                        : entry.market.question,
+                    color: SERIES_COLORS[i % SERIES_COLORS.length],
+                })),
+        [markets]
+    );
+    const [shownIds, setShownIds] = useState(
+        () => new Set(tokens.slice(0, initiallyShown).map((entry) => entry.tokenId))
+    );
+    const tokenIds = useMemo(
+        () => tokens.filter((entry) => shownIds.has(entry.tokenId)).map((entry) => entry.tokenId),
+        [tokens, shownIds]
+    );
+    const { histories, isLoading } = usePriceHistory(tokenIds, timeWindow);
+
+    const series = useMemo(
+        (): Series[] =>
+            tokens
+                .filter((entry) => shownIds.has(entry.tokenId))
+                .map((entry) => ({ ...entry, history: histories.get(entry.tokenId) || [] }))
+                .filter((s) => s.history.length > 1),
+        [tokens, shownIds, histories]
+    );
+
+    const toggleShown = (tokenId: string) =>
+        setShownIds((prev) => {
+            const next = new Set(prev);
+            if (next.has(tokenId)) next.delete(tokenId);
+            else next.add(tokenId);
+            return next;
+        });
+
+    const chart = useMemo(() => {
+        const points = series.flatMap((s) => s.history);
+        if (points.length === 0) return null;
+
+        const [minTime, maxTime] = d3.extent(points, (p) => p.timestamp) as [number, number];
+        const [minPrice, maxPrice] = d3.extent(points, (p) => p.price) as [number, number];
+        const padding = Math.max((maxPrice - minPrice) * 0.1, 0.02);
+
+        const x = d3
+            .scaleTime()
+            .domain([minTime, maxTime])
+            .range([MARGIN.left, WIDTH - MARGIN.right]);
+        const y = d3
+            .scaleLinear()
+            .domain([Math.max(0, minPrice - padding), Math.min(1, maxPrice + padding)])
+            .range([HEIGHT - MARGIN.bottom, MARGIN.top])
+            .nice();
+
+        const line = d3
+            .line<PriceHistoryPoint>()
+            .x((p) => x(p.timestamp))
+            .y((p) => y(p.price))
+            .curve(d3.curveMonotoneX);
+
+        return {
+            x,
+            y,
+            paths: series.map((s) => line(s.history) || ''),
+            xTicks: x.ticks(4),
+            yTicks: y.ticks(4),
+        };
+    }, [series]);
+
+    // Value of each series at the hovered time (or the latest value)
+    const readout = series.map((s) => {
+        const point =
+            hoverTime === null
+                ? s.history[s.history.length - 1]
+                : s.history[bisectTime(s.history, hoverTime)];
+        return { series: s, point };
+    });
+
+    const handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
+        if (!chart) return;
+        const rect = e.currentTarget.getBoundingClientRect();
+        const svgX = ((e.clientX - rect.left) / rect.width) * WIDTH;
+        const [minX, maxX] = chart.x.range();
+        setHoverTime(chart.x.invert(Math.min(Math.max(svgX, minX), maxX)).getTime());
+    };
+
+    return (
+        <div>
+            {/* Window selector */}
+            <div className="flex items-center justify-between mb-2">
+                <span className="text-[10px] text-zinc-500">
+                    {hoverTime === null ? 'Latest' : new Date(hoverTime).toLocaleString()}
+                </span>
+                <div className="flex gap-1">
+                    {PRESET_WINDOWS.map((option) => (
+                        <button
+                            key={option.id}
+                            onClick={() => setTimeWindow(option.id)}
+                            className={`px-2 py-0.5 text-[10px] rounded transition-colors ${
+                                timeWindow === option.id
+                                    ? 'bg-blue-600 text-white'
+                                    : 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700'
+                            }`}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {/* Chart */}
+            {!chart ? (
+                <div className="flex items-center justify-center h-32 text-xs text-zinc-500">
+                    {isLoading ? (
+                        <Loader2 className="w-4 h-4 text-blue-500 animate-spin" />
+                    ) : (
+                        'No price history available'
+                    )}
+                </div>
+            ) : (
+                <svg
+                    viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+                    className="w-full h-auto cursor-crosshair"
+                    onMouseMove={handleMouseMove}
+                    onMouseLeave={() => setHoverTime(null)}
+                >
+                    {/* Grid */}
+                    {chart.yTicks.map((tick) => (
+                        <g key={tick}>
+                            <line
+                                x1={MARGIN.left}
+                                x2={WIDTH - MARGIN.right}
+                                y1={chart.y(tick)}
+                                y2={chart.y(tick)}
+                                stroke="rgb(39, 39, 42)"
+                            />
+                            <text
+                                x={WIDTH - MARGIN.right + 4}
+                                y={chart.y(tick) + 3}
+                                className="fill-zinc-500"
+                                fontSize={9}
+                            >
+                                {Math.round(tick * 100)}%
+                            </text>
+                        </g>
+                    ))}
+                    {chart.xTicks.map((tick) => (
+                        <text
+                            key={tick.getTime()}
+                            x={chart.x(tick)}
+                            y={HEIGHT - 4}
+                            textAnchor="middle"
+                            className="fill-zinc-500"
+                            fontSize={9}
+                        >
+                            {formatTick(tick.getTime(), timeWindow)}
+                        </text>
+                    ))}
+
+                    {/* Lines */}
+                    {series.map((s, i) => (
+                        <path
+                            key={s.tokenId}
+                            d={chart.paths[i]}
+                            fill="none"
+                            stroke={s.color}
+                            strokeWidth={1.5}
+                        />
+                    ))}
+
+                    {/* Crosshair */}
+                    {hoverTime !== null && (
+                        <g pointerEvents="none">
+                            <line
+                                x1={chart.x(hoverTime)}
+                                x2={chart.x(hoverTime)}
+                                y1={MARGIN.top}
+                                y2={HEIGHT - MARGIN.bottom}
+                                stroke="rgb(161, 161, 170)"
+                                strokeDasharray="2 2"
+                            />
+                            {readout.map(({ series: s, point }) =>
+                                point ? (
+                                    <circle
+                                        key={s.tokenId}
+                                        cx={chart.x(point.timestamp)}
+                                        cy={chart.y(point.price)}
+                                        r={3}
+                                        fill={s.color}
+                                        stroke="rgb(24, 24, 27)"
+                                    />
+                                ) : null
+                            )}
+                        </g>
+                    )}
+                </svg>
+            )}
+
+            {/* Legend / readout */}
+            {tokens.length > 0 && (
+                <div className="mt-2">
+                    {tokens.length > 1 && (
+                        <div className="text-[10px] text-zinc-500 mb-1">
+                            {shownIds.size} of {tokens.length} markets shown · click to show or hide
+                        </div>
+                    )}
+                    <div className="space-y-1 max-h-48 overflow-y-auto">
+                        {tokens.map((entry) => {
+                            const shown = shownIds.has(entry.tokenId);
+                            const point = readout.find(({ series: s }) => s.tokenId === entry.tokenId)?.point;
+                            return (
+                                <button
+                                    key={entry.tokenId}
+                                    onClick={() => toggleShown(entry.tokenId)}
+                                    className={`w-full flex items-center gap-2 text-[11px] text-left ${
+                                        shown ? '' : 'opacity-40 hover:opacity-70'
+                                    }`}
+                                >
+                                    <span
+                                        className="w-2 h-2 rounded-full flex-shrink-0"
+                                        style={{
+                                            backgroundColor: shown ? entry.color : 'transparent',
+                                            border: `1px solid ${entry.color}`,
+                                        }}
+                                    />
+                                    <span className="flex-1 text-zinc-400 truncate">{entry.label}</span>
+                                    <span className="font-mono text-zinc-200">
+                                        {point ? `${(point.price * 100).toFixed(1)}%` : '—'}
+                                    </span>
+                                </button>
+                            );
+                        })}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
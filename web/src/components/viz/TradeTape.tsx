@@ -0,0 +1,100 @@
+'use client';
+
+import React from 'react';
+import * as d3 from 'd3';
+import { Fish, Loader2 } from 'lucide-react';
+import { Trade } from '@/lib/types';
+import { useTrades } from '@/hooks/useTrades';
+
+interface TradeTapeProps {
+    conditionId: string;
+    tokenId: string;
+    compact?: boolean; // Few rows, no scrolling (for tooltips)
+}
+
+const WHALE_NOTIONAL = 10_000; // USD
+const LARGE_NOTIONAL = 2_500; // USD
+const COMPACT_ROWS = 4;
+
+function formatTime(timestamp: number): string {
+    return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+function TradeRow({ trade, compact }: { trade: Trade; compact: boolean }) {
+    const isWhale = trade.notional >= WHALE_NOTIONAL;
+    const isLarge = trade.notional >= LARGE_NOTIONAL;
+    const sideColor = trade.side === 'buy' ? 'text-green-400' : 'text-red-400';
+
+    return (
+        <div
+            className={`grid ${
+                compact ? 'grid-cols-[2.5rem_1fr_3rem]' : 'grid-cols-[3rem_2rem_1fr_3.5rem_4rem]'
+            } items-center gap-2 px-1.5 py-0.5 rounded font-mono text-[10px] ${
+                isWhale ? 'bg-amber-500/15 ring-1 ring-amber-500/40' : ''
+            }`}
+            title={trade.trader}
+        >
+            <span className="text-zinc-500">{formatTime(trade.timestamp)}</span>
+            {!compact && (
+                <span className={`uppercase font-semibold ${sideColor}`}>{trade.side}</span>
+            )}
+            <span className={compact ? sideColor : 'text-zinc-300'}>
+                {compact && (trade.side === 'buy' ? '▲ ' : '▼ ')}
+                {(trade.price * 100).toFixed(1)}¢
+            </span>
+            {!compact && (
+                <span className="text-right text-zinc-400">{d3.format('.3s')(trade.size)}</span>
+            )}
+            <span
+                className={`flex items-center justify-end gap-0.5 ${
+                    isWhale ? 'text-amber-300 font-semibold' : isLarge ? 'text-zinc-200' : 'text-zinc-500'
+                }`}
+            >
+                {isWhale && <Fish className="w-3 h-3" />}${d3.format('.2s')(trade.notional)}
+            </span>
+        </div>
+    );
+}
+
+/**
+ * Recent fills on one outcome token, newest first. Whale-sized fills are highlighted.
+ */
+export default function TradeTape({ conditionId, tokenId, compact = false }: TradeTapeProps) {
+    const { trades, isLoading } = useTrades(conditionId, tokenId);
+
+    if (isLoading && trades.length === 0) {
+        return (
+            <div className="flex items-center justify-center h-10">
+                <Loader2 className="w-3.5 h-3.5 text-blue-500 animate-spin" />
+            </div>
+        );
+    }
+
+    if (trades.length === 0) {
+        return <div className="text-[10px] text-zinc-500 text-center py-2">No recent trades</div>;
+    }
+
+    const rows = compact ? trades.slice(0, COMPACT_ROWS) : trades;
+    const whaleCount = trades.filter((trade) => trade.notional >= WHALE_NOTIONAL).length;
+
+    return (
+        <div>
+            {!compact && (
+                <div className="flex items-center justify-between text-[10px] text-zinc-500 mb-1">
+                    <span>Recent trades ({trades.length})</span>
+                    {whaleCount > 0 && (
+                        <span className="flex items-center gap-1 text-amber-400">
+                            <Fish className="w-3 h-3" />
+                            {whaleCount} ≥ ${d3.format('.2s')(WHALE_NOTIONAL)}
+                        </span>
+                    )}
+                </div>
+            )}
+            <div className={compact ? 'space-y-px' : 'max-h-48 overflow-y-auto space-y-px pr-1'}>
+                {rows.map((trade) => (
+                    <TradeRow key={trade.id} trade={trade} compact={compact} />
+                ))}
+            </div>
+        </div>
+    );
+}
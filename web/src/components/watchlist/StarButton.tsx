@@ -0,0 +1,44 @@
+'use client';
+
+import React from 'react';
+import { Star } from 'lucide-react';
+import { WatchlistKind } from '@/lib/watchlist';
+import { useWatchlist } from '@/hooks/useWatchlist';
+
+interface StarButtonProps {
+    kind: WatchlistKind;
+    id: string;
+    size?: 'sm' | 'md';
+    className?: string;
+}
+
+/**
+ * Toggle an item on the watchlist. Clicks don't propagate, so the button can
+ * sit on top of clickable tiles and cards (render it as a sibling, not a child,
+ * of buttons and links).
+ */
+export default function StarButton({ kind, id, size = 'md', className = '' }: StarButtonProps) {
+    const { isWatched, toggle } = useWatchlist();
+    const watched = isWatched(kind, id);
+    const iconSize = size === 'sm' ? 'w-3 h-3' : 'w-4 h-4';
+
+    return (
+        <button
+            type="button"
+            onClick={(e) => {
+                e.stopPropagation();
+                e.preventDefault();
+                toggle(kind, id);
+            }}
+            onKeyDown={(e) => e.stopPropagation()}
+            onMouseDown={(e) => e.stopPropagation()}
+            className={`p-1 rounded transition-colors ${
+                watched ? 'text-amber-400 hover:text-amber-300' : 'text-zinc-500 hover:text-zinc-200'
+            } ${className}`}
+            title={watched ? 'Remove from watchlist' : 'Add to watchlist'}
+            aria-pressed={watched}
+        >
+            <Star className={iconSize} fill={watched ? 'currentColor' : 'none'} />
+        </button>
+    );
+}
@@ -0,0 +1,312 @@
+'use client';
+
+import React, { useMemo, useRef, useState } from 'react';
+import { Star, Download, Upload, Grid3X3, Network } from 'lucide-react';
+import * as d3 from 'd3';
+import { MarketNode, ProcessedEvent } from '@/lib/types';
+import { getLeadingOutcome, getPrimaryTokenId } from '@/lib/outcomes';
+import { computePriceChange } from '@/lib/priceChange';
+import { useWatchlist } from '@/hooks/useWatchlist';
+import { usePriceHistory } from '@/hooks/usePriceHistory';
+import StarButton from './StarButton';
+
+interface WatchlistViewProps {
+    events: ProcessedEvent[];
+    onShowInHeatMap: (categoryId: string, eventId: string) => void;
+    onShowDependencies: (marketId: string) => void;
+}
+
+interface MarketRow {
+    market: MarketNode;
+    event: ProcessedEvent;
+}
+
+// ============================================
+// Market Row
+// ============================================
+
+interface WatchlistMarketRowProps {
+    row: MarketRow;
+    change24h?: number;
+    indent?: boolean;
+    onShowInHeatMap: () => void;
+    onShowDependencies: () => void;
+}
+
+function WatchlistMarketRow({
+    row,
+    change24h,
+    indent = false,
+    onShowInHeatMap,
+    onShowDependencies,
+}: WatchlistMarketRowProps) {
+    const { market, event } = row;
+    const prob = market.outcomeProb;
+
+    return (
+        <tr className="border-b border-zinc-800/60 hover:bg-zinc-800/40 transition-colors">
+            <td className="py-2 pl-2 w-8">
+                <StarButton kind="market" id={market.id} size="sm" />
+            </td>
+            <td className={`py-2 pr-4 ${indent ? 'pl-4' : ''}`}>
+                <div className="text-sm text-zinc-200 line-clamp-1">{market.question}</div>
+                {!indent && (
+                    <div className="text-[11px] text-zinc-500 truncate">{event.title}</div>
+                )}
+            </td>
+            <td className="py-2 pr-4 text-right font-mono text-sm whitespace-nowrap">
+                <span className={prob > 0.5 ? 'text-blue-400' : 'text-red-400'}>
+                    {Math.round(prob * 100)}%
+                </span>
+                {market.isMultiChoice && (
+                    <span className="text-[10px] text-zinc-500 ml-1">
+                        {getLeadingOutcome(market).name}
+                    </span>
+                )}
+            </td>
+            <td className="py-2 pr-4 text-right font-mono text-sm">
+                {change24h === undefined ? (
+                    <span className="text-zinc-600">—</span>
+                ) : (
+                    <span className={change24h >= 0 ? 'text-green-400' : 'text-red-400'}>
+                        {change24h >= 0 ? '+' : ''}
+                        {(change24h * 100).toFixed(1)}pp
+                    </span>
+                )}
+            </td>
+            <td className="py-2 pr-4 text-right font-mono text-xs text-zinc-400">
+                ${d3.format('.2s')(market.volume24hr || 0)}
+            </td>
+            <td className="py-2 pr-4 text-right font-mono text-xs text-zinc-400">
+                ${d3.format('.2s')(market.volume)}
+            </td>
+            <td className="py-2 pr-2 w-16">
+                <div className="flex items-center justify-end gap-1">
+                    <button
+                        onClick={onShowInHeatMap}
+                        className="p-1 rounded text-zinc-500 hover:text-white hover:bg-zinc-700 transition-colors"
+                        title="Show in Heat Map"
+                    >
+                        <Grid3X3 className="w-3.5 h-3.5" />
+                    </button>
+                    <button
+                        onClick={onShowDependencies}
+                        className="p-1 rounded text-zinc-500 hover:text-white hover:bg-zinc-700 transition-colors"
+                        title="Show dependencies"
+                    >
+                        <Network className="w-3.5 h-3.5" />
+                    </button>
+                </div>
+            </td>
+        </tr>
+    );
+}
+
+// ============================================
+// Main View Component
+// ============================================
+
+export default function WatchlistView({ events, onShowInHeatMap, onShowDependencies }: WatchlistViewProps) {
+    const { entries, exportJson, importJson } = useWatchlist();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [importMessage, setImportMessage] = useState<string | null>(null);
+
+    // Resolve watchlist entries against live data
+    const { marketRows, eventGroups, missing } = useMemo(() => {
+        const marketIndex = new Map<string, MarketRow>();
+        for (const event of events) {
+            for (const market of event.markets) {
+                marketIndex.set(market.id, { market, event });
+            }
+        }
+        const eventIndex = new Map(events.map((e) => [e.id, e]));
+
+        const marketRows: MarketRow[] = [];
+        const eventGroups: Array<{ event: ProcessedEvent; rows: MarketRow[] }> = [];
+        const missing: typeof entries = [];
+
+        for (const entry of entries) {
+            if (entry.kind === 'market') {
+                const row = marketIndex.get(entry.id);
+                if (row) marketRows.push(row);
+                else missing.push(entry);
+            } else {
+                const event = eventIndex.get(entry.id);
+                if (event) {
+                    const rows = [...event.markets]
+                        .sort((a, b) => b.volume - a.volume)
+                        .map((market) => ({ market, event }));
+                    eventGroups.push({ event, rows });
+                } else {
+                    missing.push(entry);
+                }
+            }
+        }
+
+        return { marketRows, eventGroups, missing };
+    }, [entries, events]);
+
+    // 24h change from each market's primary token history
+    const tokenByMarket = useMemo(() => {
+        const map = new Map<string, string>();
+        const rows = [...marketRows, ...eventGroups.flatMap((g) => g.rows)];
+        for (const { market } of rows) {
+            const tokenId = getPrimaryTokenId(market);
+            if (tokenId) map.set(market.id, tokenId);
+        }
+        return map;
+    }, [marketRows, eventGroups]);
+
+    const tokenIds = useMemo(() => Array.from(new Set(tokenByMarket.values())), [tokenByMarket]);
+    const { histories } = usePriceHistory(tokenIds, '24h');
+
+    const getChange = (marketId: string): number | undefined => {
+        const tokenId = tokenByMarket.get(marketId);
+        if (!tokenId) return undefined;
+        return computePriceChange(histories.get(tokenId) || []) ?? undefined;
+    };
+
+    const handleExport = () => {
+        const blob = new Blob([exportJson()], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = 'pmv-watchlist.json';
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleImport = async (file: File) => {
+        try {
+            const added = importJson(await file.text());
+            setImportMessage(`Imported ${added} new item${added === 1 ? '' : 's'}`);
+        } catch (error) {
+            setImportMessage(`Import failed: ${(error as Error).message}`);
+        }
+    };
+
+    const renderRow = (row: MarketRow, indent = false) => (
+        <WatchlistMarketRow
+            key={`${row.event.id}-${row.market.id}`}
+            row={row}
+            change24h={getChange(row.market.id)}
+            indent={indent}
+            onShowInHeatMap={() => onShowInHeatMap(row.event.categoryId, row.event.id)}
+            onShowDependencies={() => onShowDependencies(row.market.id)}
+        />
+    );
+
+    return (
+        <div className="w-full h-full overflow-y-auto">
+            <div className="max-w-5xl mx-auto p-6">
+                {/* Header */}
+                <div className="flex items-center justify-between mb-4">
+                    <div className="flex items-center gap-2">
+                        <Star className="w-5 h-5 text-amber-400" fill="currentColor" />
+                        <h2 className="text-lg font-semibold text-white">Watchlist</h2>
+                        <span className="text-sm text-zinc-500">{entries.length} pinned</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        {importMessage && (
+                            <span className="text-xs text-zinc-400">{importMessage}</span>
+                        )}
+                        <button
+                            onClick={() => fileInputRef.current?.click()}
+                            className="flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs bg-zinc-800 text-zinc-300 hover:bg-zinc-700 transition-colors"
+                        >
+                            <Upload className="w-3.5 h-3.5" />
+                            Import
+                        </button>
+                        <button
+                            onClick={handleExport}
+                            disabled={entries.length === 0}
+                            className="flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs bg-zinc-800 text-zinc-300 hover:bg-zinc-700 transition-colors disabled:opacity-40"
+                        >
+                            <Download className="w-3.5 h-3.5" />
+                            Export
+                        </button>
+                        <input
+                            ref={fileInputRef}
+                            type="file"
+                            accept="application/json,.json"
+                            className="hidden"
+                            onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                if (file) handleImport(file);
+                                e.target.value = '';
+                            }}
+                        />
+                    </div>
+                </div>
+
+                {entries.length === 0 ? (
+                    <div className="mt-16 text-center text-zinc-500 text-sm">
+                        <Star className="w-8 h-8 mx-auto mb-3 text-zinc-700" />
+                        Star markets or events in the Heat Map, World Map panels or Dependency
+                        search to pin them here.
+                    </div>
+                ) : (
+                    <table className="w-full">
+                        <thead>
+                            <tr className="text-[10px] uppercase tracking-wider text-zinc-500 border-b border-zinc-800">
+                                <th className="w-8" />
+                                <th className="py-2 pr-4 text-left font-semibold">Market</th>
+                                <th className="py-2 pr-4 text-right font-semibold">Prob</th>
+                                <th className="py-2 pr-4 text-right font-semibold">24h Δ</th>
+                                <th className="py-2 pr-4 text-right font-semibold">24h Vol</th>
+                                <th className="py-2 pr-4 text-right font-semibold">Volume</th>
+                                <th className="w-16" />
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {marketRows.map((row) => renderRow(row))}
+
+                            {eventGroups.map(({ event, rows }) => (
+                                <React.Fragment key={event.id}>
+                                    <tr className="border-b border-zinc-800 bg-zinc-900/60">
+                                        <td className="py-2 pl-2">
+                                            <StarButton kind="event" id={event.id} size="sm" />
+                                        </td>
+                                        <td colSpan={6} className="py-2 pr-2">
+                                            <span className="text-sm font-medium text-white">
+                                                {event.title}
+                                            </span>
+                                            <span className="text-xs text-zinc-500 ml-2">
+                                                {event.marketCount} markets · $
+                                                {d3.format('.2s')(event.volumeTotal)}
+                                            </span>
+                                        </td>
+                                    </tr>
+                                    {rows.map((row) => renderRow(row, true))}
+                                </React.Fragment>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+
+                {missing.length > 0 && (
+                    <div className="mt-6">
+                        <h3 className="text-xs uppercase tracking-wider text-zinc-500 font-semibold mb-2">
+                            Not in live data
+                        </h3>
+                        <p className="text-xs text-zinc-600 mb-2">
+                            Closed, delisted, or below the volume threshold.
+                        </p>
+                        <div className="space-y-1">
+                            {missing.map((entry) => (
+                                <div
+                                    key={`${entry.kind}-${entry.id}`}
+                                    className="flex items-center gap-2 text-xs text-zinc-500"
+                                >
+                                    <StarButton kind={entry.kind} id={entry.id} size="sm" />
+                                    <span className="capitalize">{entry.kind}</span>
+                                    <span className="font-mono">{entry.id}</span>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,52 @@
+import { useCallback, useState, useSyncExternalStore } from 'react';
+import {
+    addRule,
+    alertLogStore,
+    alertRulesStore,
+    clearLog,
+    markAllRead,
+    removeRule,
+    toggleRule,
+} from '@/lib/alertStore';
+
+type NotificationState = NotificationPermission | 'unsupported';
+
+function getNotificationState(): NotificationState {
+    return typeof Notification === 'undefined' ? 'unsupported' : Notification.permission;
+}
+
+/**
+ * Hook exposing alert rules, the triggered-alerts log and notification permission.
+ * Rules are evaluated by useEventData on every live poll.
+ */
+export function useAlerts() {
+    const rules = useSyncExternalStore(
+        alertRulesStore.subscribe,
+        alertRulesStore.get,
+        alertRulesStore.getServerSnapshot
+    );
+    const log = useSyncExternalStore(
+        alertLogStore.subscribe,
+        alertLogStore.get,
+        alertLogStore.getServerSnapshot
+    );
+    const [notificationState, setNotificationState] = useState<NotificationState>(getNotificationState);
+
+    const requestNotifications = useCallback(async () => {
+        if (typeof Notification === 'undefined') return;
+        setNotificationState(await Notification.requestPermission());
+    }, []);
+
+    return {
+        rules,
+        log,
+        unreadCount: log.filter((alert) => !alert.read).length,
+        notificationState,
+        requestNotifications,
+        addRule,
+        toggleRule,
+        removeRule,
+        markAllRead,
+        clearLog,
+    };
+}
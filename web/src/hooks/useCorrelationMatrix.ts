@@ -0,0 +1,75 @@
+import { useMemo } from 'react';
+import {
+    CorrelationMethod,
+    MarketNode,
+    PriceHistoryPoint,
+    ProcessedEvent,
+    TimeRange,
+    TimeWindow,
+} from '@/lib/types';
+import { usePriceHistory } from './usePriceHistory';
+import { CorrelationMatrix, computeCorrelationMatrix } from '@/lib/correlation';
+import { ClusteringResult, clusterDistanceMatrix } from '@/lib/hierarchicalClustering';
+import { getPrimaryTokenId } from '@/lib/outcomes';
+
+export interface MatrixMarket extends MarketNode {
+    tokenId: string;
+    eventTitle: string;
+}
+
+interface UseCorrelationMatrixOptions {
+    categoryId: string | null; // null = all categories
+    topN: number;
+    timeWindow: TimeWindow;
+    customRange?: TimeRange | null;
+    method: CorrelationMethod;
+}
+
+interface UseCorrelationMatrixResult {
+    markets: MatrixMarket[]; // By volume, descending
+    matrix: CorrelationMatrix;
+    clustering: ClusteringResult;
+    isLoading: boolean;
+    isError: Error | null;
+}
+
+/**
+ * Pairwise correlations between the top-N markets by volume (optionally within
+ * one category), hierarchically clustered so related markets sit together.
+ * Clustering distance is 1 - |r|: strongly anti-correlated markets (e.g.
+ * rival outcomes) belong in the same block as strongly correlated ones.
+ */
+export function useCorrelationMatrix(
+    events: ProcessedEvent[],
+    options: UseCorrelationMatrixOptions
+): UseCorrelationMatrixResult {
+    const { categoryId, topN, timeWindow, customRange = null, method } = options;
+
+    const markets = useMemo(() => {
+        const candidates: MatrixMarket[] = [];
+        for (const event of events) {
+            if (categoryId && event.categoryId !== categoryId) continue;
+            for (const market of event.markets) {
+                const tokenId = getPrimaryTokenId(market);
+                if (!tokenId) continue;
+                candidates.push({ ...market, eventId: event.id, eventTitle: event.title, tokenId });
+            }
+        }
+        return candidates.sort((a, b) => b.volume - a.volume).slice(0, topN);
+    }, [events, categoryId, topN]);
+
+    const tokenIds = useMemo(() => markets.map((market) => market.tokenId), [markets]);
+    const { histories, isLoading, isError } = usePriceHistory(tokenIds, timeWindow, customRange);
+
+    const matrix = useMemo(() => {
+        const series: PriceHistoryPoint[][] = markets.map((market) => histories.get(market.tokenId) || []);
+        return computeCorrelationMatrix(series, method);
+    }, [markets, histories, method]);
+
+    const clustering = useMemo(
+        () => clusterDistanceMatrix(matrix.values.map((row) => row.map((r) => 1 - Math.abs(r)))),
+        [matrix]
+    );
+
+    return { markets, matrix, clustering, isLoading, isError };
+}
@@ -4,6 +4,8 @@ import {
     DependencyNode,
     DependencyEdge,
     DependencyMapFilters,
+    DependencyCommunity,
+    DependencyType,
     ProcessedEvent,
     MarketNode,
     PriceHistoryPoint,
@@ -12,12 +14,18 @@ import { usePriceHistory } from './usePriceHistory';
 import {
     findStructuralDependencies,
     findCorrelatedMarkets,
+    testAllPairs,
+    selectCorrelatedPairs,
+    TestedMarketPair,
     buildCorrelationEdges,
     computeVolatility,
 } from '@/lib/correlation';
-import { extractEntities, findEntityBasedDependencies } from '@/lib/entities';
-import { findTemporalDependencies } from '@/lib/temporal';
-import { CATEGORIES } from '@/lib/categories';
+import { detectCommunities } from '@/lib/community';
+import { extractEntities, findEntityBasedDependencies, findSharedEntityPairs } from '@/lib/entities';
+import { findTemporalDependencies, findTemporalNeighbours } from '@/lib/temporal';
+import { findImplicationDependencies, findImplicationPairs } from '@/lib/implication';
+import { getCategoryName } from '@/lib/categories';
+import { getLeadingOutcome, getPrimaryTokenId } from '@/lib/outcomes';
 
 interface UseDependencyDataResult {
     graph: DependencyGraph | null;
@@ -30,17 +38,44 @@ interface UseDependencyDataResult {
         correlationEdges: number;
         entityEdges: number;
         temporalEdges: number;
+        implicationEdges: number;
+        violations: number; // Implications the prices break
+        communities: number;
     };
 }
 
+// Ego mode: neighbours kept per market beyond the first hop, and an overall node cap
+const HOP_FANOUT = 3;
+const MAX_EGO_NODES = 80;
+
+// Global mode spans every market, but correlations are only tested among the
+// top markets by volume (price history is fetched for each)
+const GLOBAL_CORRELATION_LIMIT = 60;
+// Entity and temporal candidates per market in global mode, at least the largest maxEdges
+const GLOBAL_CANDIDATES_PER_MARKET = 15;
+
+// Edge weights for community detection: shared timing alone is a weak signal
+const COMMUNITY_TYPE_WEIGHTS: Record<DependencyType, number> = {
+    structural: 1,
+    correlation: 1,
+    entity: 1,
+    temporal: 0.3,
+    implication: 1,
+};
+
 /**
  * Main hook for building the dependency graph.
  * Combines structural dependencies (same event) with correlation dependencies.
+ * With `filters.depth` > 1 the neighbours' own dependencies are added hop by
+ * hop; `expandedIds` are markets whose dependencies were requested by hand.
+ * In global scope the graph spans every market instead of a star around
+ * `centerMarketId`, with Louvain communities attached.
  */
 export function useDependencyData(
     centerMarketId: string | null,
     filters: DependencyMapFilters,
-    events: ProcessedEvent[]
+    events: ProcessedEvent[],
+    expandedIds: string[] = []
 ): UseDependencyDataResult {
     // Get all markets from events
     const allMarkets = useMemo(() => {
@@ -53,6 +88,9 @@ export function useDependencyData(
         return markets;
     }, [events]);
 
+    const marketById = useMemo(() => new Map(allMarkets.map((m) => [m.id, m])), [allMarkets]);
+    const eventById = useMemo(() => new Map(events.map((e) => [e.id, e])), [events]);
+
     // Find the center market and its event
     const centerMarket = useMemo(() => {
         if (!centerMarketId) return null;
@@ -64,9 +102,18 @@ export function useDependencyData(
         return events.find((e) => e.id === centerMarket.eventId) || null;
     }, [centerMarket, events]);
 
-    // Get markets to fetch price history for
-    // Include center market + all markets in same event + top volume markets
+    const isGlobal = filters.scope === 'global';
+
+    const correlationMarkets = useMemo(() => {
+        if (!isGlobal) return [];
+        return [...allMarkets].sort((a, b) => b.volume - a.volume).slice(0, GLOBAL_CORRELATION_LIMIT);
+    }, [isGlobal, allMarkets]);
+
+    // Base markets to fetch price history for
+    // Include center market + all markets in same event + top volume markets;
+    // markets further out are added once the first pass reaches them
     const marketsForHistory = useMemo(() => {
+        if (isGlobal) return correlationMarkets;
         if (!centerMarketId) return [];
 
         const marketMap = new Map<string, MarketNode>();
@@ -95,29 +142,138 @@ export function useDependencyData(
         }
 
         return Array.from(marketMap.values());
-    }, [centerMarketId, centerMarket, centerEvent, allMarkets, filters.showCrossEvent]);
+    }, [isGlobal, correlationMarkets, centerMarketId, centerMarket, centerEvent, allMarkets, filters.showCrossEvent]);
+
+    // Price histories of the base markets, keyed by market id
+    const { histories: baseHistories, isLoading: isBaseLoading, isError } = useMarketHistories(
+        marketsForHistory,
+        filters
+    );
 
+    const context = useMemo(
+        (): DependencyContext => ({ marketById, eventById, events, allMarkets, histories: baseHistories }),
+        [marketById, eventById, events, allMarkets, baseHistories]
+    );
+
+    // First pass over the base histories: which markets will have dependencies
+    // of their own (every hop before the last, plus hand-expanded ones)
+    const skeleton = useMemo((): DependencyGraph | null => {
+        if (isGlobal || !centerMarketId || !centerMarket) return null;
+        return buildEgoGraph(centerMarketId, context, filters, expandedIds);
+    }, [isGlobal, centerMarketId, centerMarket, context, filters, expandedIds]);
+
+    // Their histories are fetched too, so they get correlation edges
+    const frontierMarkets = useMemo(() => {
+        if (!skeleton) return [];
+        const loaded = new Set(marketsForHistory.map((m) => m.id));
+        return skeleton.nodes
+            .filter((node) => (node.hop ?? 0) < filters.depth || expandedIds.includes(node.id))
+            .filter((node) => !loaded.has(node.id))
+            .flatMap((node) => marketById.get(node.id) || []);
+    }, [skeleton, marketsForHistory, filters.depth, expandedIds, marketById]);
+
+    const { histories: frontierHistories, isLoading: isFrontierLoading } = useMarketHistories(
+        frontierMarkets,
+        filters
+    );
+
+    // Global mode tests every pair once per set of histories; the threshold and
+    // edge filters are re-applied to the results without re-testing
+    const includesCorrelation = filters.dependencyType === 'all' || filters.dependencyType === 'correlation';
+    const testedPairs = useMemo((): TestedMarketPair[] => {
+        if (!isGlobal || !includesCorrelation) return [];
+        return testAllPairs(baseHistories, { maxLag: filters.maxLag, method: filters.correlationMethod });
+    }, [isGlobal, includesCorrelation, baseHistories, filters.maxLag, filters.correlationMethod]);
+
+    // Build the dependency graph
+    const graph = useMemo((): DependencyGraph | null => {
+        if (isGlobal) return buildGlobalGraph(allMarkets, events, baseHistories, testedPairs, filters);
+        if (!centerMarketId || !skeleton) return null;
+        // Until the frontier histories arrive, show what the base histories give
+        if (frontierMarkets.length === 0 || isFrontierLoading) return skeleton;
+
+        const histories = new Map([...baseHistories, ...frontierHistories]);
+        return buildEgoGraph(centerMarketId, { ...context, histories }, filters, expandedIds);
+    }, [
+        isGlobal,
+        allMarkets,
+        events,
+        baseHistories,
+        testedPairs,
+        filters,
+        centerMarketId,
+        skeleton,
+        frontierMarkets,
+        isFrontierLoading,
+        frontierHistories,
+        context,
+        expandedIds,
+    ]);
+
+    // Compute stats
+    const stats = useMemo(() => {
+        if (!graph) {
+            return {
+                totalNodes: 0,
+                totalEdges: 0,
+                structuralEdges: 0,
+                correlationEdges: 0,
+                entityEdges: 0,
+                temporalEdges: 0,
+                implicationEdges: 0,
+                violations: 0,
+                communities: 0,
+            };
+        }
+
+        return {
+            totalNodes: graph.nodes.length,
+            totalEdges: graph.edges.length,
+            structuralEdges: graph.edges.filter((e) => e.type === 'structural').length,
+            correlationEdges: graph.edges.filter((e) => e.type === 'correlation').length,
+            entityEdges: graph.edges.filter((e) => e.type === 'entity').length,
+            temporalEdges: graph.edges.filter((e) => e.type === 'temporal').length,
+            implicationEdges: graph.edges.filter((e) => e.type === 'implication').length,
+            violations: graph.edges.filter((e) => e.violation !== undefined).length,
+            communities: graph.communities?.length || 0,
+        };
+    }, [graph]);
+
+    return {
+        graph,
+        isLoading: isBaseLoading || isFrontierLoading,
+        isError: isError || null,
+        stats,
+    };
+}
+
+/**
+ * Price histories for a set of markets over the filter window, keyed by
+ * market id (each market's primary token).
+ */
+function useMarketHistories(markets: MarketNode[], filters: DependencyMapFilters) {
     // Build mapping from clobTokenId to marketId
     const { tokenToMarketMap, tokenIds } = useMemo(() => {
         const map = new Map<string, string>();
         const ids: string[] = [];
 
-        for (const market of marketsForHistory) {
-            // Use the first clobTokenId (YES token) for price history
-            if (market.clobTokenIds && market.clobTokenIds.length > 0) {
-                const tokenId = market.clobTokenIds[0];
+        for (const market of markets) {
+            // Use the token behind outcomeProb (YES, or the leading outcome) for price history
+            const tokenId = getPrimaryTokenId(market);
+            if (tokenId) {
                 map.set(tokenId, market.id);
                 ids.push(tokenId);
             }
         }
 
         return { tokenToMarketMap: map, tokenIds: ids };
-    }, [marketsForHistory]);
+    }, [markets]);
 
     // Fetch price histories using clobTokenIds
     const { histories: tokenHistories, isLoading, isError } = usePriceHistory(
         tokenIds,
-        filters.timeWindow
+        filters.timeWindow,
+        filters.customRange
     );
 
     // Map token histories back to market IDs
@@ -134,241 +290,245 @@ export function useDependencyData(
         return marketHistories;
     }, [tokenHistories, tokenToMarketMap]);
 
-    // Build the dependency graph
-    const graph = useMemo((): DependencyGraph | null => {
-        if (!centerMarketId || !centerMarket) return null;
+    return { histories, isLoading, isError };
+}
 
-        // Use a map to deduplicate edges between the same pair of markets
-        // Key: "sourceId-targetId" (normalized so smaller ID comes first)
-        const edgeMap = new Map<string, DependencyEdge>();
-        const nodeMap = new Map<string, DependencyNode>();
+// ============================================
+// Ego Mode
+// ============================================
 
-        // Helper to get normalized edge key (ensures A-B and B-A are the same)
-        const getEdgePairKey = (sourceId: string, targetId: string) => {
-            return sourceId < targetId ? `${sourceId}-${targetId}` : `${targetId}-${sourceId}`;
-        };
+interface DependencyContext {
+    marketById: Map<string, MarketNode>;
+    eventById: Map<string, ProcessedEvent>;
+    events: ProcessedEvent[];
+    allMarkets: MarketNode[];
+    histories: Map<string, PriceHistoryPoint[]>;
+}
 
-        // Always add center node
-        nodeMap.set(centerMarketId, marketToNode(centerMarket, centerEvent, histories));
+/** Normalized pair key, so A-B and B-A are the same edge */
+function getEdgePairKey(sourceId: string, targetId: string): string {
+    return sourceId < targetId ? `${sourceId}-${targetId}` : `${targetId}-${sourceId}`;
+}
 
-        // Find structural dependencies
-        if (filters.dependencyType === 'all' || filters.dependencyType === 'structural') {
-            const structuralEdges = findStructuralDependencies(centerMarketId, events);
+/**
+ * First-degree dependencies of one market, deduplicated per pair (implication
+ * overrides correlation, which overrides structural; entity and temporal only
+ * fill gaps) and limited to the `limit` strongest. Correlations are only found
+ * among markets whose price history is loaded.
+ */
+function findMarketDependencies(
+    marketId: string,
+    { marketById, eventById, events, allMarkets, histories }: DependencyContext,
+    filters: DependencyMapFilters,
+    limit: number
+): DependencyEdge[] {
+    const market = marketById.get(marketId);
+    if (!market) return [];
+    const event = market.eventId ? eventById.get(market.eventId) : undefined;
+
+    // Use a map to deduplicate edges between the same pair of markets
+    const edgeMap = new Map<string, DependencyEdge>();
+
+    // Find structural dependencies
+    if (filters.dependencyType === 'all' || filters.dependencyType === 'structural') {
+        for (const edge of findStructuralDependencies(marketId, events)) {
+            // Passes cross-event filter
+            if (!filters.showCrossEvent && edge.sharedEventId !== event?.id) continue;
+            if (!marketById.has(edge.targetId)) continue;
+
+            const pairKey = getEdgePairKey(edge.sourceId, edge.targetId);
+            // Only add if no edge exists yet for this pair
+            if (!edgeMap.has(pairKey)) {
+                edgeMap.set(pairKey, { ...edge, id: `structural-${pairKey}` });
+            }
+        }
+    }
 
-            for (const edge of structuralEdges) {
-                // Only add if within maxEdges and passes cross-event filter
-                if (!filters.showCrossEvent && edge.sharedEventId !== centerEvent?.id) {
-                    continue;
-                }
+    // Find correlation dependencies
+    if (
+        (filters.dependencyType === 'all' || filters.dependencyType === 'correlation') &&
+        histories.has(marketId) &&
+        histories.size > 1
+    ) {
+        const correlations = findCorrelatedMarkets(marketId, histories, {
+            threshold: filters.correlationThreshold,
+            maxResults: limit,
+            maxLag: filters.maxLag,
+            significantOnly: filters.significantOnly,
+            method: filters.correlationMethod,
+        });
+
+        const correlationEdges = buildCorrelationEdges(
+            marketId,
+            correlations,
+            filters.timeWindow,
+            filters.customRange,
+            filters.correlationMethod
+        );
 
-                const pairKey = getEdgePairKey(edge.sourceId, edge.targetId);
-                // Only add if no edge exists yet for this pair
-                if (!edgeMap.has(pairKey)) {
-                    edgeMap.set(pairKey, {
-                        ...edge,
-                        id: `structural-${pairKey}`, // Unique ID with type prefix
-                    });
-                }
+        for (const edge of correlationEdges) {
+            // Check cross-event filter
+            const targetMarket = marketById.get(edge.targetId);
+            if (!targetMarket) continue;
+            if (!filters.showCrossEvent && targetMarket.eventId !== event?.id) continue;
 
-                // Add the target node if not already present
-                if (!nodeMap.has(edge.targetId)) {
-                    const targetMarket = allMarkets.find((m) => m.id === edge.targetId);
-                    const targetEvent = events.find((e) => e.id === targetMarket?.eventId);
-                    if (targetMarket) {
-                        nodeMap.set(edge.targetId, marketToNode(targetMarket, targetEvent, histories));
-                    }
-                }
-            }
+            const pairKey = getEdgePairKey(edge.sourceId, edge.targetId);
+            // Correlation edges override structural edges (more informative)
+            edgeMap.set(pairKey, { ...edge, id: `correlation-${pairKey}` });
         }
+    }
 
-        // Find correlation dependencies
-        if (
-            (filters.dependencyType === 'all' || filters.dependencyType === 'correlation') &&
-            histories.size > 1
-        ) {
-            const correlations = findCorrelatedMarkets(centerMarketId, histories, {
-                threshold: filters.correlationThreshold,
-                maxResults: filters.maxEdges,
-            });
+    // Find implications (nested thresholds, deadlines and margins)
+    if (filters.dependencyType === 'all' || filters.dependencyType === 'implication') {
+        for (const edge of findImplicationDependencies(marketId, allMarkets, events)) {
+            // Check cross-event filter
+            const targetMarket = marketById.get(edge.targetId);
+            if (!targetMarket) continue;
+            if (!filters.showCrossEvent && targetMarket.eventId !== event?.id) continue;
+
+            const pairKey = getEdgePairKey(edge.sourceId, edge.targetId);
+            // A logical constraint explains a pair better than any statistical link
+            edgeMap.set(pairKey, { ...edge, id: `implication-${pairKey}` });
+        }
+    }
 
-            const correlationEdges = buildCorrelationEdges(
-                centerMarketId,
-                correlations,
-                filters.timeWindow
-            );
+    // Find entity-based dependencies (shared named entities)
+    if (filters.dependencyType === 'all' || filters.dependencyType === 'entity') {
+        // Extract entities from the market and its event
+        const entities = extractEntities(market.question);
+        if (event) {
+            entities.push(...extractEntities(event.title));
+        }
+
+        if (entities.length > 0) {
+            const entityEdges = findEntityBasedDependencies(marketId, entities, allMarkets, events, {
+                minSharedEntities: filters.minSharedEntities || 1,
+            });
 
-            for (const edge of correlationEdges) {
+            for (const edge of entityEdges) {
                 // Check cross-event filter
-                const targetMarket = allMarkets.find((m) => m.id === edge.targetId);
-                if (!filters.showCrossEvent && targetMarket?.eventId !== centerEvent?.id) {
+                const targetMarket = marketById.get(edge.targetId);
+                if (!targetMarket) continue;
+                if (!filters.showCrossEvent && targetMarket.eventId === event?.id) {
+                    // Skip same-event markets for entity edges (structural already covers them)
                     continue;
                 }
 
                 const pairKey = getEdgePairKey(edge.sourceId, edge.targetId);
-                // Correlation edges override structural edges (more informative)
-                edgeMap.set(pairKey, {
-                    ...edge,
-                    id: `correlation-${pairKey}`, // Unique ID with type prefix
-                });
-
-                // Add the target node if not already present
-                if (!nodeMap.has(edge.targetId)) {
-                    const targetEvent = events.find((e) => e.id === targetMarket?.eventId);
-                    if (targetMarket) {
-                        nodeMap.set(edge.targetId, marketToNode(targetMarket, targetEvent, histories));
-                    }
+                // Only add if no edge exists yet (don't override structural/correlation)
+                if (!edgeMap.has(pairKey)) {
+                    edgeMap.set(pairKey, { ...edge, id: `entity-${pairKey}` });
                 }
             }
         }
+    }
 
-        // Find entity-based dependencies (shared named entities)
-        if (filters.dependencyType === 'all' || filters.dependencyType === 'entity') {
-            // Extract entities from center market and its event
-            const centerEntities = extractEntities(centerMarket.question);
-            if (centerEvent) {
-                centerEntities.push(...extractEntities(centerEvent.title));
-            }
+    // Find temporal dependencies (overlapping resolution windows)
+    if (filters.dependencyType === 'all' || filters.dependencyType === 'temporal') {
+        const endDate = market.endDate || event?.endDate;
 
-            if (centerEntities.length > 0) {
-                const entityEdges = findEntityBasedDependencies(
-                    centerMarketId,
-                    centerEntities,
-                    allMarkets,
-                    events,
-                    { minSharedEntities: filters.minSharedEntities || 1 }
-                );
-
-                for (const edge of entityEdges) {
-                    // Check cross-event filter
-                    const targetMarket = allMarkets.find((m) => m.id === edge.targetId);
-                    if (!filters.showCrossEvent && targetMarket?.eventId === centerEvent?.id) {
-                        // Skip same-event markets for entity edges (structural already covers them)
-                        continue;
-                    }
-
-                    const pairKey = getEdgePairKey(edge.sourceId, edge.targetId);
-                    // Only add if no edge exists yet (don't override structural/correlation)
-                    if (!edgeMap.has(pairKey)) {
-                        edgeMap.set(pairKey, {
-                            ...edge,
-                            id: `entity-${pairKey}`,
-                        });
-
-                        // Add the target node if not already present
-                        if (!nodeMap.has(edge.targetId) && targetMarket) {
-                            const targetEvent = events.find((e) => e.id === targetMarket.eventId);
-                            nodeMap.set(edge.targetId, marketToNode(targetMarket, targetEvent, histories));
-                        }
-                    }
+        if (endDate) {
+            const temporalEdges = findTemporalDependencies(marketId, endDate, allMarkets, events, {
+                maxDaysDiff: filters.maxDaysDiff || 14,
+            });
+
+            for (const edge of temporalEdges) {
+                // Check cross-event filter
+                const targetMarket = marketById.get(edge.targetId);
+                if (!targetMarket) continue;
+                if (!filters.showCrossEvent && targetMarket.eventId === event?.id) {
+                    // Skip same-event markets for temporal edges
+                    continue;
                 }
-            }
-        }
 
-        // Find temporal dependencies (overlapping resolution windows)
-        if (filters.dependencyType === 'all' || filters.dependencyType === 'temporal') {
-            const centerEndDate = centerMarket.endDate || centerEvent?.endDate;
-
-            if (centerEndDate) {
-                const temporalEdges = findTemporalDependencies(
-                    centerMarketId,
-                    centerEndDate,
-                    allMarkets,
-                    events,
-                    { maxDaysDiff: filters.maxDaysDiff || 14 }
-                );
-
-                for (const edge of temporalEdges) {
-                    // Check cross-event filter
-                    const targetMarket = allMarkets.find((m) => m.id === edge.targetId);
-                    if (!filters.showCrossEvent && targetMarket?.eventId === centerEvent?.id) {
-                        // Skip same-event markets for temporal edges
-                        continue;
-                    }
-
-                    const pairKey = getEdgePairKey(edge.sourceId, edge.targetId);
-                    // Only add if no edge exists yet (don't override other types)
-                    if (!edgeMap.has(pairKey)) {
-                        edgeMap.set(pairKey, {
-                            ...edge,
-                            id: `temporal-${pairKey}`,
-                        });
-
-                        // Add the target node if not already present
-                        if (!nodeMap.has(edge.targetId) && targetMarket) {
-                            const targetEvent = events.find((e) => e.id === targetMarket.eventId);
-                            nodeMap.set(edge.targetId, marketToNode(targetMarket, targetEvent, histories));
-                        }
-                    }
+                const pairKey = getEdgePairKey(edge.sourceId, edge.targetId);
+                // Only add if no edge exists yet (don't override other types)
+                if (!edgeMap.has(pairKey)) {
+                    edgeMap.set(pairKey, { ...edge, id: `temporal-${pairKey}` });
                 }
             }
         }
+    }
 
-        // Convert edge map to array and limit total edges
-        const limitedEdges = Array.from(edgeMap.values())
-            .sort((a, b) => b.weight - a.weight)
-            .slice(0, filters.maxEdges);
+    // Keep the strongest edges
+    return Array.from(edgeMap.values())
+        .sort((a, b) => b.weight - a.weight)
+        .slice(0, limit);
+}
 
-        // Only include nodes that are connected
-        const connectedNodeIds = new Set<string>([centerMarketId]);
-        for (const edge of limitedEdges) {
-            connectedNodeIds.add(edge.sourceId);
-            connectedNodeIds.add(edge.targetId);
+/**
+ * Ego graph around one market: its dependencies, then (with `filters.depth`
+ * > 1) the neighbours' own dependencies hop by hop, then the dependencies of
+ * each hand-expanded market.
+ */
+function buildEgoGraph(
+    centerMarketId: string,
+    context: DependencyContext,
+    filters: DependencyMapFilters,
+    expandedIds: string[]
+): DependencyGraph {
+    const edgeMap = new Map<string, DependencyEdge>();
+    const hops = new Map<string, number>([[centerMarketId, 0]]);
+
+    // Add a market's own dependencies; returns the markets it brought in
+    const expand = (marketId: string, limit: number): string[] => {
+        const hop = hops.get(marketId)!;
+        const added: string[] = [];
+        for (const edge of findMarketDependencies(marketId, context, filters, limit)) {
+            const pairKey = getEdgePairKey(edge.sourceId, edge.targetId);
+            // Edges found nearer the center win
+            if (edgeMap.has(pairKey)) continue;
+
+            const otherId = edge.sourceId === marketId ? edge.targetId : edge.sourceId;
+            if (!hops.has(otherId)) {
+                if (hops.size >= MAX_EGO_NODES) continue;
+                hops.set(otherId, hop + 1);
+                added.push(otherId);
+            }
+            edgeMap.set(pairKey, edge);
         }
+        return added;
+    };
 
-        const nodes = Array.from(nodeMap.values()).filter((n) =>
-            connectedNodeIds.has(n.id)
-        );
-
-        // Mark center node as fixed
-        const centerNode = nodes.find((n) => n.id === centerMarketId);
-        if (centerNode) {
-            centerNode.fx = null; // Will be set to center by the visualization
-            centerNode.fy = null;
+    // Breadth-first: the center keeps `maxEdges` neighbours, deeper hops fewer
+    let frontier = [centerMarketId];
+    for (let hop = 1; hop <= filters.depth && frontier.length > 0; hop++) {
+        const next: string[] = [];
+        for (const marketId of frontier) {
+            next.push(...expand(marketId, hop === 1 ? filters.maxEdges : HOP_FANOUT));
         }
+        frontier = next;
+    }
 
-        return {
-            nodes,
-            edges: limitedEdges,
-            centerNodeId: centerMarketId,
-        };
-    }, [
-        centerMarketId,
-        centerMarket,
-        centerEvent,
-        events,
-        allMarkets,
-        histories,
-        filters,
-    ]);
+    // Nodes the user expanded by hand, in click order
+    for (const marketId of expandedIds) {
+        if (hops.has(marketId)) expand(marketId, filters.maxEdges);
+    }
 
-    // Compute stats
-    const stats = useMemo(() => {
-        if (!graph) {
-            return {
-                totalNodes: 0,
-                totalEdges: 0,
-                structuralEdges: 0,
-                correlationEdges: 0,
-                entityEdges: 0,
-                temporalEdges: 0,
-            };
-        }
+    const nodes: DependencyNode[] = [];
+    for (const [marketId, hop] of hops) {
+        const market = context.marketById.get(marketId);
+        if (!market) continue;
+        const node = marketToNode(
+            market,
+            market.eventId ? context.eventById.get(market.eventId) : undefined,
+            context.histories
+        );
+        node.hop = hop;
+        nodes.push(node);
+    }
 
-        return {
-            totalNodes: graph.nodes.length,
-            totalEdges: graph.edges.length,
-            structuralEdges: graph.edges.filter((e) => e.type === 'structural').length,
-            correlationEdges: graph.edges.filter((e) => e.type === 'correlation').length,
-            entityEdges: graph.edges.filter((e) => e.type === 'entity').length,
-            temporalEdges: graph.edges.filter((e) => e.type === 'temporal').length,
-        };
-    }, [graph]);
+    // Mark center node as fixed
+    const centerNode = nodes.find((n) => n.id === centerMarketId);
+    if (centerNode) {
+        centerNode.fx = null; // Will be set to center by the visualization
+        centerNode.fy = null;
+    }
 
     return {
-        graph,
-        isLoading,
-        isError: isError || null,
-        stats,
+        nodes,
+        edges: Array.from(edgeMap.values()),
+        centerNodeId: centerMarketId,
     };
 }
 
@@ -392,22 +552,177 @@ function marketToNode(
         volume: market.volume,
         volume24hr: market.volume24hr || 0,
         outcomeProb: market.outcomeProb,
+        leadingOutcome: market.isMultiChoice ? getLeadingOutcome(market).name : undefined,
         categoryId: event?.categoryId || 'other',
         categoryName,
         slug: market.slug,
         eventSlug: market.eventSlug,
+        conditionId: market.conditionId,
+        tokenId: getPrimaryTokenId(market),
         volatility: history ? computeVolatility(history) : 0,
     };
 }
 
+// ============================================
+// Global Mode
+// ============================================
+
 /**
- * Get category display name from ID.
+ * Dependency graph across a whole market universe. Edge precedence per pair
+ * matches ego mode (implication > correlation > structural > entity > temporal); each market
+ * then keeps only its `maxEdges` strongest edges so the graph stays legible.
+ * `testedPairs` come from `testAllPairs` over `histories`, which cover only
+ * the top markets; the other edge types span all of `markets`.
  */
-function getCategoryName(categoryId: string): string {
-    for (const name of CATEGORIES) {
-        if (name.toLowerCase().replace(/\s+/g, '-') === categoryId) {
-            return name;
+function buildGlobalGraph(
+    markets: MarketNode[],
+    events: ProcessedEvent[],
+    histories: Map<string, PriceHistoryPoint[]>,
+    testedPairs: TestedMarketPair[],
+    filters: DependencyMapFilters
+): DependencyGraph {
+    const includes = (type: DependencyType) =>
+        filters.dependencyType === 'all' || filters.dependencyType === type;
+    const marketById = new Map(markets.map((m) => [m.id, m]));
+    const eventById = new Map(events.map((e) => [e.id, e]));
+    const edgeMap = new Map<string, DependencyEdge>();
+
+    const addEdge = (edge: DependencyEdge, override: boolean) => {
+        const source = marketById.get(edge.sourceId);
+        const target = marketById.get(edge.targetId);
+        if (!source || !target) return;
+        if (!filters.showCrossEvent && source.eventId !== target.eventId) return;
+
+        const pairKey = getEdgePairKey(edge.sourceId, edge.targetId);
+        if (override || !edgeMap.has(pairKey)) {
+            edgeMap.set(pairKey, { ...edge, id: `${edge.type}-${pairKey}` });
+        }
+    };
+
+    if (includes('structural')) {
+        for (const event of events) {
+            for (const market of event.markets) {
+                for (const edge of findStructuralDependencies(market.id, [event])) addEdge(edge, false);
+            }
+        }
+    }
+
+    if (includes('correlation')) {
+        const pairs = selectCorrelatedPairs(testedPairs, {
+            threshold: filters.correlationThreshold,
+            significantOnly: filters.significantOnly,
+        });
+        for (const pair of pairs) {
+            const [edge] = buildCorrelationEdges(
+                pair.sourceId,
+                [pair],
+                filters.timeWindow,
+                filters.customRange,
+                filters.correlationMethod
+            );
+            addEdge(edge, true);
+        }
+    }
+
+    if (includes('implication')) {
+        for (const edge of findImplicationPairs(markets, events)) addEdge(edge, true);
+    }
+
+    if (includes('entity')) {
+        const edges = findSharedEntityPairs(markets, events, {
+            minSharedEntities: filters.minSharedEntities || 1,
+            maxPerMarket: GLOBAL_CANDIDATES_PER_MARKET,
+        });
+        for (const edge of edges) addEdge(edge, false);
+    }
+
+    if (includes('temporal')) {
+        const edges = findTemporalNeighbours(markets, events, {
+            maxDaysDiff: filters.maxDaysDiff || 14,
+            maxPerMarket: GLOBAL_CANDIDATES_PER_MARKET,
+        });
+        for (const edge of edges) addEdge(edge, false);
+    }
+
+    // Each market keeps its strongest edges; an edge survives if either end keeps it
+    const allEdges = Array.from(edgeMap.values());
+    const byNode = new Map<string, DependencyEdge[]>();
+    for (const edge of allEdges) {
+        for (const id of [edge.sourceId, edge.targetId]) {
+            if (!byNode.has(id)) byNode.set(id, []);
+            byNode.get(id)!.push(edge);
         }
     }
-    return 'Other';
+    const kept = new Set<DependencyEdge>();
+    for (const edges of byNode.values()) {
+        edges
+            .sort((a, b) => b.weight - a.weight)
+            .slice(0, filters.maxEdges)
+            .forEach((edge) => kept.add(edge));
+    }
+    const edges = allEdges.filter((edge) => kept.has(edge));
+
+    // Connected markets only
+    const connected = new Set(edges.flatMap((edge) => [edge.sourceId, edge.targetId]));
+    const nodes = markets
+        .filter((market) => connected.has(market.id))
+        .map((market) =>
+            marketToNode(market, market.eventId ? eventById.get(market.eventId) : undefined, histories)
+        );
+
+    const membership = detectCommunities(
+        nodes.map((node) => node.id),
+        edges.map((edge) => ({
+            source: edge.sourceId,
+            target: edge.targetId,
+            weight: edge.weight * COMMUNITY_TYPE_WEIGHTS[edge.type],
+        }))
+    );
+
+    const groups = new Map<number, DependencyNode[]>();
+    for (const node of nodes) {
+        node.communityId = membership.get(node.id);
+        if (node.communityId === undefined) continue;
+        if (!groups.has(node.communityId)) groups.set(node.communityId, []);
+        groups.get(node.communityId)!.push(node);
+    }
+
+    const communities: DependencyCommunity[] = Array.from(groups.entries())
+        .sort(([a], [b]) => a - b)
+        .map(([id, members]) => ({
+            id,
+            label: labelCommunity(members),
+            nodeIds: members.map((node) => node.id),
+            volume: members.reduce((sum, node) => sum + node.volume, 0),
+        }));
+
+    return { nodes, edges, centerNodeId: null, communities };
+}
+
+/**
+ * Name a community after what its members share: the most common entity,
+ * else the most common event, else the most common category.
+ */
+function labelCommunity(members: DependencyNode[]): string {
+    const mostCommon = (values: string[]): { value: string; count: number } | null => {
+        const counts = new Map<string, number>();
+        for (const value of values) counts.set(value, (counts.get(value) || 0) + 1);
+        let best: { value: string; count: number } | null = null;
+        for (const [value, count] of counts) {
+            if (!best || count > best.count) best = { value, count };
+        }
+        return best;
+    };
+
+    const entityNames = members.flatMap((node) => {
+        const entities = [...extractEntities(node.question), ...extractEntities(node.eventTitle)];
+        return Array.from(new Set(entities.map((entity) => entity.name)));
+    });
+    const entity = mostCommon(entityNames);
+    if (entity && entity.count >= 2) return entity.value;
+
+    const event = mostCommon(members.map((node) => node.eventTitle).filter(Boolean));
+    if (event && event.count >= 2) return event.value;
+
+    return mostCommon(members.map((node) => node.categoryName))?.value || 'Other';
 }
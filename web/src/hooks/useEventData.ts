@@ -1,24 +1,67 @@
-import useSWR from 'swr';
+import useSWR, { mutate } from 'swr';
 import { useMemo } from 'react';
 import { fetchEvents } from '@/lib/api';
 import { ProcessedEvent, Category } from '@/lib/types';
 import { CATEGORIES } from '@/lib/categories';
+import { loadSnapshot, recordSnapshot } from '@/lib/snapshots';
+import { ingestPoll } from '@/lib/changeFeed';
+import { processAlertPoll } from '@/lib/alertStore';
+import { SNAPSHOTS_KEY } from './useSnapshots';
 
 const REFRESH_INTERVAL = 15000; // 15 seconds
 
 /**
- * Hook to fetch and process events from the Polymarket API
+ * Fetch live events, feed the movers diff and alert rules, and persist the poll
+ * as a replayable snapshot.
  */
-export function useEventData() {
-    const { data, error, isLoading } = useSWR<ProcessedEvent[]>(
+async function fetchAndRecordEvents(): Promise<ProcessedEvent[]> {
+    const events = await fetchEvents();
+    ingestPoll(events);
+    // Alerts are best-effort; a failure there must not fail the poll
+    try {
+        processAlertPoll(events);
+    } catch (error) {
+        console.warn('Failed to process alerts:', (error as Error).message);
+    }
+    recordSnapshot(events)
+        .then((meta) => {
+            if (meta) mutate(SNAPSHOTS_KEY);
+        })
+        .catch((error) => {
+            console.warn('Failed to record snapshot:', (error as Error).message);
+        });
+    return events;
+}
+
+/**
+ * Hook to fetch and process events from the Polymarket API.
+ * When `replaySnapshotId` is set, data comes from that recorded snapshot
+ * instead; live polling (and recording) continues in the background.
+ */
+export function useEventData(replaySnapshotId: number | null = null) {
+    const { data: liveData, error, isLoading: isLiveLoading } = useSWR<ProcessedEvent[]>(
         'events',
-        fetchEvents,
+        fetchAndRecordEvents,
         {
             refreshInterval: REFRESH_INTERVAL,
             keepPreviousData: true,
         }
     );
 
+    const isReplaying = replaySnapshotId !== null;
+
+    const { data: snapshotData, isLoading: isSnapshotLoading } = useSWR<ProcessedEvent[] | null>(
+        isReplaying ? ['snapshot', replaySnapshotId] : null,
+        () => loadSnapshot(replaySnapshotId!),
+        {
+            keepPreviousData: true,
+            revalidateOnFocus: false,
+        }
+    );
+
+    const data = isReplaying ? snapshotData || undefined : liveData;
+    const isLoading = isReplaying ? isSnapshotLoading : isLiveLoading;
+
     // Aggregate events into categories
     const categories = useMemo(() => {
         if (!data || data.length === 0) return [];
@@ -34,8 +77,11 @@ export function useEventData() {
                 volumeTotal: 0,
                 volume24h: 0,
                 volumeHeat: 0,
+                liquidity: 0,
+                openInterest: 0,
                 confidence: 1,
                 eventCount: 0,
+                marketCount: 0,
                 events: [],
             });
         }
@@ -46,14 +92,20 @@ export function useEventData() {
             if (category) {
                 category.volumeTotal += event.volumeTotal;
                 category.volume24h += event.volume24h;
+                category.liquidity += event.liquidity;
+                category.openInterest += event.openInterest || 0; // Absent in older snapshots
                 category.eventCount++;
+                category.marketCount += event.marketCount;
                 category.events.push(event);
             } else {
                 // If category doesn't exist, add to "Other"
                 const other = categoryMap.get('other')!;
                 other.volumeTotal += event.volumeTotal;
                 other.volume24h += event.volume24h;
+                other.liquidity += event.liquidity;
+                other.openInterest += event.openInterest || 0;
                 other.eventCount++;
+                other.marketCount += event.marketCount;
                 other.events.push({
                     ...event,
                     categoryId: 'other',
@@ -88,9 +140,11 @@ export function useEventData() {
 
     return {
         events: data || [],
+        liveEvents: liveData || [],
         categories,
         isLoading,
         isError: error,
+        isReplaying,
         getEventsForCategory,
         getEventById,
     };
@@ -7,7 +7,7 @@ import { GeoEnrichedEvent } from '@/lib/types';
  * Hook that enriches events with geographic location data
  * Wraps useEventData and adds geo-inference to each event
  */
-export function useGeoEnrichedEvents() {
+export function useGeoEnrichedEvents(replaySnapshotId: number | null = null) {
     const {
         events,
         categories,
@@ -15,7 +15,7 @@ export function useGeoEnrichedEvents() {
         isError,
         getEventsForCategory,
         getEventById,
-    } = useEventData();
+    } = useEventData(replaySnapshotId);
 
     // Enrich all events with geo data
     const geoEvents = useMemo((): GeoEnrichedEvent[] => {
@@ -0,0 +1,22 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import { ChangeKind } from '@/lib/types';
+import { clearFeed, getFeed, getServerFeed, subscribeFeed } from '@/lib/changeFeed';
+
+/**
+ * Hook exposing the live movers feed (newest first).
+ * The feed is populated by useEventData on every live poll.
+ */
+export function useMovers(kind: ChangeKind | 'all' = 'all') {
+    const feed = useSyncExternalStore(subscribeFeed, getFeed, getServerFeed);
+
+    const changes = useMemo(
+        () => (kind === 'all' ? feed : feed.filter((change) => change.kind === kind)),
+        [feed, kind]
+    );
+
+    return {
+        changes,
+        totalCount: feed.length,
+        clear: clearFeed,
+    };
+}
@@ -0,0 +1,57 @@
+import useSWR from 'swr';
+import { useMemo } from 'react';
+import { fetchMultipleOrderBooks, fetchOrderBook } from '@/lib/api';
+import { OrderBook } from '@/lib/types';
+
+const REFRESH_INTERVAL = 5000; // 5 seconds - matches the /api/book cache TTL
+const MULTI_REFRESH_INTERVAL = 30000; // 30 seconds - many books at once
+
+/**
+ * Hook to fetch the CLOB order book for a token.
+ * Pass null to skip fetching (e.g. while the depth view is collapsed).
+ */
+export function useOrderBook(tokenId: string | null) {
+    const { data, error, isLoading } = useSWR<OrderBook | null>(
+        tokenId ? `order-book-${tokenId}` : null,
+        () => fetchOrderBook(tokenId!),
+        {
+            refreshInterval: REFRESH_INTERVAL,
+            keepPreviousData: true,
+            revalidateOnFocus: false,
+        }
+    );
+
+    return {
+        book: data ?? null,
+        isLoading,
+        isError: error,
+    };
+}
+
+/**
+ * Hook to fetch order books for many tokens at once (e.g. every outcome of
+ * an event). Refreshes less often than the single-book hook.
+ */
+export function useOrderBooks(tokenIds: string[]) {
+    // Create a stable cache key from sorted token IDs
+    const cacheKey = useMemo(() => {
+        if (tokenIds.length === 0) return null;
+        return `order-books-${[...tokenIds].sort().join(',')}`;
+    }, [tokenIds]);
+
+    const { data, error, isLoading } = useSWR<Map<string, OrderBook | null>>(
+        cacheKey,
+        () => fetchMultipleOrderBooks(tokenIds),
+        {
+            refreshInterval: MULTI_REFRESH_INTERVAL,
+            keepPreviousData: true,
+            revalidateOnFocus: false,
+        }
+    );
+
+    return {
+        books: data || new Map<string, OrderBook | null>(),
+        isLoading,
+        isError: error,
+    };
+}
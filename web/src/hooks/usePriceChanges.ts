@@ -0,0 +1,60 @@
+import { useMemo } from 'react';
+import {
+    Category,
+    MarketNode,
+    PriceChangeSummary,
+    ProcessedEvent,
+    TimeWindow,
+    ViewLevel,
+} from '@/lib/types';
+import { getPrimaryTokenId } from '@/lib/outcomes';
+import { computePriceChange, getChangeSampleMarkets, summarizeLevelChanges } from '@/lib/priceChange';
+import { usePriceHistory } from './usePriceHistory';
+
+/**
+ * Hook computing probability change over `changeWindow` for every node of a treemap level.
+ * Tiles below `minVolume` (hidden by the treemap) are skipped. Nothing is
+ * fetched while `enabled` is false.
+ */
+export function usePriceChanges(
+    level: ViewLevel,
+    data: Category[] | ProcessedEvent[] | MarketNode[],
+    changeWindow: TimeWindow,
+    minVolume: number,
+    enabled: boolean
+) {
+    const sampleMarkets = useMemo(
+        () => (enabled ? getChangeSampleMarkets(level, data, minVolume) : []),
+        [enabled, level, data, minVolume]
+    );
+
+    // Market id -> token whose history drives the change
+    const tokenByMarket = useMemo(() => {
+        const map = new Map<string, string>();
+        for (const market of sampleMarkets) {
+            const tokenId = getPrimaryTokenId(market);
+            if (tokenId) map.set(market.id, tokenId);
+        }
+        return map;
+    }, [sampleMarkets]);
+
+    const tokenIds = useMemo(() => Array.from(new Set(tokenByMarket.values())), [tokenByMarket]);
+
+    const { histories, isLoading } = usePriceHistory(tokenIds, changeWindow);
+
+    const changes = useMemo(() => {
+        const marketChanges = new Map<string, number>();
+        for (const [marketId, tokenId] of tokenByMarket) {
+            const change = computePriceChange(histories.get(tokenId) || []);
+            if (change !== null) marketChanges.set(marketId, change);
+        }
+        return enabled
+            ? summarizeLevelChanges(level, data, marketChanges, minVolume)
+            : new Map<string, PriceChangeSummary>();
+    }, [enabled, level, data, minVolume, tokenByMarket, histories]);
+
+    return {
+        changes,
+        isLoading: enabled && isLoading,
+    };
+}
@@ -1,30 +1,35 @@
 import useSWR from 'swr';
 import { useMemo } from 'react';
 import { fetchMultiplePriceHistories } from '@/lib/api';
-import { PriceHistoryPoint, TimeWindow } from '@/lib/types';
+import { PriceHistoryPoint, TimeRange, TimeWindow } from '@/lib/types';
+import { getTimeWindowKey } from '@/lib/timeWindow';
 
 const REFRESH_INTERVAL = 60000; // 60 seconds - price history changes slowly
 
 /**
  * Hook to fetch price history for multiple markets.
- * Uses SWR for caching and automatic refresh.
+ * Uses SWR for caching and automatic refresh. `customRange` applies when
+ * `interval` is 'custom'.
  */
 export function usePriceHistory(
     marketIds: string[],
-    interval: TimeWindow = '24h'
+    interval: TimeWindow = '24h',
+    customRange: TimeRange | null = null
 ) {
+    const windowKey = getTimeWindowKey(interval, customRange);
+
     // Create a stable cache key from sorted market IDs
     const cacheKey = useMemo(() => {
         if (marketIds.length === 0) return null;
         const sortedIds = [...marketIds].sort().join(',');
-        return `price-history-${interval}-${sortedIds}`;
-    }, [marketIds, interval]);
+        return `price-history-${windowKey}-${sortedIds}`;
+    }, [marketIds, windowKey]);
 
     const fetcher = async () => {
         if (marketIds.length === 0) {
             return new Map<string, PriceHistoryPoint[]>();
         }
-        return fetchMultiplePriceHistories(marketIds, interval);
+        return fetchMultiplePriceHistories(marketIds, interval, customRange);
     };
 
     const { data, error, isLoading } = useSWR<Map<string, PriceHistoryPoint[]>>(
@@ -0,0 +1,24 @@
+import useSWR from 'swr';
+import { listSnapshots, SnapshotMeta } from '@/lib/snapshots';
+
+export const SNAPSHOTS_KEY = 'snapshots';
+
+/**
+ * Hook listing recorded snapshots (oldest first).
+ * Revalidated by useEventData whenever a new poll is recorded.
+ */
+export function useSnapshots() {
+    const { data, error, isLoading } = useSWR<SnapshotMeta[]>(
+        SNAPSHOTS_KEY,
+        listSnapshots,
+        {
+            revalidateOnFocus: false,
+        }
+    );
+
+    return {
+        snapshots: data || [],
+        isLoading,
+        isError: error,
+    };
+}
@@ -0,0 +1,26 @@
+import useSWR from 'swr';
+import { fetchTrades } from '@/lib/api';
+import { Trade } from '@/lib/types';
+
+const REFRESH_INTERVAL = 10000; // 10 seconds - matches the /api/trades cache TTL
+
+/**
+ * Hook to fetch recent trades on one CLOB token (`tokenId`) of a market.
+ * Pass nulls to skip fetching.
+ */
+export function useTrades(conditionId: string | null, tokenId: string | null, limit: number = 50) {
+    const { data, error, isLoading } = useSWR<Trade[]>(
+        conditionId && tokenId ? `trades-${tokenId}-${limit}` : null,
+        () => fetchTrades(conditionId!, tokenId!, limit),
+        {
+            refreshInterval: REFRESH_INTERVAL,
+            revalidateOnFocus: false,
+        }
+    );
+
+    return {
+        trades: data || [],
+        isLoading,
+        isError: error,
+    };
+}
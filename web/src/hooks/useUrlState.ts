@@ -0,0 +1,34 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { AppUrlState, HistoryMode, parseUrlState, serializeUrlState } from '@/lib/urlState';
+
+/**
+ * Hook binding app state to the query string.
+ * Updates go through the History API, which Next.js syncs with useSearchParams,
+ * so back/forward restores earlier states without a navigation.
+ * Use 'push' for navigations (drill-downs, tab switches) and 'replace' for
+ * continuous controls (sliders, filters) to avoid flooding the history.
+ */
+export function useUrlState() {
+    const searchParams = useSearchParams();
+
+    const state = useMemo(() => parseUrlState(searchParams), [searchParams]);
+
+    const updateState = useCallback(
+        (patch: Partial<AppUrlState>, mode: HistoryMode = 'push') => {
+            // Read the live URL so several updates in one tick compose correctly
+            const current = parseUrlState(new URLSearchParams(window.location.search));
+            const query = serializeUrlState({ ...current, ...patch });
+            const url = query ? `?${query}` : window.location.pathname;
+
+            if (mode === 'push') {
+                window.history.pushState(null, '', url);
+            } else {
+                window.history.replaceState(null, '', url);
+            }
+        },
+        []
+    );
+
+    return { state, updateState };
+}
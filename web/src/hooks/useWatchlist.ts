@@ -0,0 +1,34 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import {
+    WatchlistKind,
+    exportWatchlist,
+    importWatchlist,
+    isWatched,
+    toggleWatch,
+    watchlistStore,
+} from '@/lib/watchlist';
+
+/**
+ * Hook exposing the persisted watchlist. All components share one store,
+ * so starring an item anywhere updates every view (and other tabs).
+ */
+export function useWatchlist() {
+    const entries = useSyncExternalStore(
+        watchlistStore.subscribe,
+        watchlistStore.get,
+        watchlistStore.getServerSnapshot
+    );
+
+    const isItemWatched = useCallback(
+        (kind: WatchlistKind, id: string) => isWatched(entries, kind, id),
+        [entries]
+    );
+
+    return {
+        entries,
+        isWatched: isItemWatched,
+        toggle: toggleWatch,
+        exportJson: exportWatchlist,
+        importJson: importWatchlist,
+    };
+}
@@ -0,0 +1,185 @@
+import { ProcessedEvent } from './types';
+import { createLocalStore } from './localStore';
+import { watchlistStore } from './watchlist';
+import {
+    AlertRule,
+    AlertRuleDraft,
+    ProbabilitySample,
+    TriggeredAlert,
+    evaluateRules,
+    getSampledMarketIds,
+} from './alerts';
+
+// ============================================
+// Alert Rules & Log (persisted)
+// ============================================
+
+const MAX_LOG_ENTRIES = 200;
+const VOLUME_SPIKE_COOLDOWN_MS = 15 * 60 * 1000;
+const SAMPLE_SPACING_MS = 60 * 1000; // Keep at most one probability sample per minute
+const MAX_NOTIFICATIONS_PER_POLL = 3;
+
+function parseArray<T>(raw: unknown): T[] | null {
+    return Array.isArray(raw) ? (raw as T[]) : null;
+}
+
+export const alertRulesStore = createLocalStore<AlertRule[]>('pmv-alert-rules', [], parseArray);
+export const alertLogStore = createLocalStore<TriggeredAlert[]>('pmv-alert-log', [], parseArray);
+
+export function addRule(rule: AlertRuleDraft): void {
+    const createdAt = Date.now();
+    alertRulesStore.set((rules) => [
+        ...rules,
+        { ...rule, id: `rule-${createdAt}-${rules.length}`, createdAt, enabled: true } as AlertRule,
+    ]);
+}
+
+export function toggleRule(ruleId: string): void {
+    alertRulesStore.set((rules) =>
+        rules.map((rule) => (rule.id === ruleId ? { ...rule, enabled: !rule.enabled } : rule))
+    );
+}
+
+export function removeRule(ruleId: string): void {
+    alertRulesStore.set((rules) => rules.filter((rule) => rule.id !== ruleId));
+}
+
+export function markAllRead(): void {
+    if (alertLogStore.get().every((alert) => alert.read)) return;
+    alertLogStore.set((log) => log.map((alert) => (alert.read ? alert : { ...alert, read: true })));
+}
+
+export function clearLog(): void {
+    alertLogStore.set([]);
+}
+
+// ============================================
+// Evaluation Engine (in-memory)
+// ============================================
+
+let previousPoll: { events: ProcessedEvent[]; timestamp: number } | null = null;
+const samples = new Map<string, ProbabilitySample[]>();
+const lastFired = new Map<string, number>(); // `${ruleId}-${marketId}` -> Unix ms
+
+function getWatchedMarketIds(events: ProcessedEvent[]): Set<string> {
+    const entries = watchlistStore.get();
+    const ids = new Set(entries.filter((e) => e.kind === 'market').map((e) => e.id));
+    const watchedEvents = new Set(entries.filter((e) => e.kind === 'event').map((e) => e.id));
+
+    for (const event of events) {
+        if (!watchedEvents.has(event.id)) continue;
+        for (const market of event.markets) ids.add(market.id);
+    }
+    return ids;
+}
+
+function getCooldownMs(rule: AlertRule): number {
+    switch (rule.type) {
+        case 'move':
+            return rule.windowMs;
+        case 'volume-spike':
+            return VOLUME_SPIKE_COOLDOWN_MS;
+        default:
+            return 0; // Edge-triggered rules can't repeat without re-crossing
+    }
+}
+
+/**
+ * Append probability samples for markets watched by move rules and
+ * drop samples older than the longest move window.
+ */
+function recordSamples(rules: AlertRule[], events: ProcessedEvent[], watched: Set<string>, timestamp: number) {
+    const sampledIds = getSampledMarketIds(rules, events, watched);
+    const maxWindow = Math.max(
+        0,
+        ...rules.map((rule) => (rule.enabled && rule.type === 'move' ? rule.windowMs : 0))
+    );
+    const cutoff = timestamp - maxWindow - SAMPLE_SPACING_MS;
+
+    for (const marketId of samples.keys()) {
+        if (!sampledIds.has(marketId)) samples.delete(marketId);
+    }
+
+    for (const event of events) {
+        for (const market of event.markets) {
+            if (!sampledIds.has(market.id)) continue;
+
+            const buffer = samples.get(market.id) || [];
+            const last = buffer[buffer.length - 1];
+            if (!last || timestamp - last.timestamp >= SAMPLE_SPACING_MS) {
+                buffer.push({ timestamp, prob: market.outcomeProb });
+            }
+            // Keep one sample at or before the cutoff so full windows stay measurable
+            while (buffer.length > 1 && buffer[1].timestamp <= cutoff) buffer.shift();
+            samples.set(market.id, buffer);
+        }
+    }
+}
+
+/**
+ * Desktop notifications for triggered alerts. Some browsers (Android Chrome)
+ * expose `Notification` but throw from its constructor; alerts then stay in
+ * the in-app history only.
+ */
+function notify(alerts: TriggeredAlert[]) {
+    if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+
+    try {
+        if (alerts.length > MAX_NOTIFICATIONS_PER_POLL) {
+            new Notification(`${alerts.length} Polymarket alerts`, {
+                body: alerts.slice(0, 3).map((a) => a.question).join('\n'),
+                tag: 'pmv-alert-batch',
+            });
+            return;
+        }
+
+        for (const alert of alerts) {
+            new Notification(alert.question, { body: alert.message, tag: alert.id });
+        }
+    } catch (error) {
+        console.warn('Desktop notifications unavailable:', (error as Error).message);
+    }
+}
+
+/**
+ * Evaluate alert rules against a fresh live poll. Called on every events refresh.
+ * Empty polls (failed fetches) are ignored.
+ */
+export function processAlertPoll(events: ProcessedEvent[], timestamp: number = Date.now()): void {
+    if (events.length === 0) return;
+
+    const rules = alertRulesStore.get();
+    const watched = getWatchedMarketIds(events);
+
+    if (rules.some((rule) => rule.enabled)) {
+        const matches = evaluateRules(rules, {
+            previous: previousPoll?.events || null,
+            next: events,
+            timestamp,
+            intervalMs: previousPoll ? timestamp - previousPoll.timestamp : 0,
+            samples,
+            watchedMarketIds: watched,
+        });
+
+        const rulesById = new Map(rules.map((rule) => [rule.id, rule]));
+        const triggered: TriggeredAlert[] = [];
+
+        for (const match of matches) {
+            const key = `${match.ruleId}-${match.marketId}`;
+            const cooldown = getCooldownMs(rulesById.get(match.ruleId)!);
+            const last = lastFired.get(key);
+            if (last !== undefined && timestamp - last < cooldown) continue;
+
+            lastFired.set(key, timestamp);
+            triggered.push({ ...match, id: `${key}-${timestamp}`, timestamp, read: false });
+        }
+
+        if (triggered.length > 0) {
+            alertLogStore.set((log) => [...triggered, ...log].slice(0, MAX_LOG_ENTRIES));
+            notify(triggered);
+        }
+    }
+
+    recordSamples(rules, events, watched, timestamp);
+    previousPoll = { events, timestamp };
+}
@@ -0,0 +1,321 @@
+import { MarketNode, ProcessedEvent } from './types';
+import { extractEntities, getEntity, resolveEntity } from './entities';
+
+// ============================================
+// Alert Rule Types
+// ============================================
+
+export type AlertRuleType = 'price-above' | 'price-below' | 'move' | 'volume-spike' | 'new-market';
+
+/** Which markets a rule watches. */
+export type AlertScope =
+    | { kind: 'market'; marketId: string }
+    | { kind: 'watchlist' }
+    | { kind: 'all' };
+
+interface BaseAlertRule {
+    id: string;
+    type: AlertRuleType;
+    enabled: boolean;
+    createdAt: number; // Unix ms
+}
+
+/** Fires when the market crosses the threshold (edge-triggered). */
+export interface PriceAlertRule extends BaseAlertRule {
+    type: 'price-above' | 'price-below';
+    marketId: string;
+    threshold: number; // 0-1
+}
+
+/** Fires when |Δp| over the window reaches the threshold. */
+export interface MoveAlertRule extends BaseAlertRule {
+    type: 'move';
+    scope: AlertScope;
+    threshold: number; // Absolute probability change, e.g. 0.05
+    windowMs: number;
+}
+
+/** Fires when volume traded between polls outpaces the 24h rate by `multiplier`. */
+export interface VolumeSpikeAlertRule extends BaseAlertRule {
+    type: 'volume-spike';
+    scope: AlertScope;
+    multiplier: number;
+}
+
+/** Fires when a market appears that mentions an entity or belongs to a category. */
+export interface NewMarketAlertRule extends BaseAlertRule {
+    type: 'new-market';
+    match: { kind: 'entity' | 'category'; value: string }; // Canonical entity id or category id
+}
+
+export type AlertRule = PriceAlertRule | MoveAlertRule | VolumeSpikeAlertRule | NewMarketAlertRule;
+
+// Rule fields chosen in the editor (distributes over the union to keep `type` discriminating)
+type DraftOf<R> = R extends AlertRule ? Omit<R, 'id' | 'enabled' | 'createdAt'> : never;
+export type AlertRuleDraft = DraftOf<AlertRule>;
+
+export interface TriggeredAlert {
+    id: string;
+    ruleId: string;
+    timestamp: number; // Unix ms
+    marketId: string;
+    eventId: string;
+    categoryId: string;
+    question: string;
+    message: string;
+    read: boolean;
+}
+
+/** Probability sample recorded per poll for move rules. */
+export interface ProbabilitySample {
+    timestamp: number;
+    prob: number;
+}
+
+export interface AlertContext {
+    previous: ProcessedEvent[] | null; // Previous live poll, null on the first poll
+    next: ProcessedEvent[];
+    timestamp: number;
+    intervalMs: number; // Time since the previous poll
+    samples: Map<string, ProbabilitySample[]>; // marketId -> samples, oldest first
+    watchedMarketIds: Set<string>;
+}
+
+export const MOVE_WINDOWS: Array<{ ms: number; label: string }> = [
+    { ms: 5 * 60 * 1000, label: '5m' },
+    { ms: 15 * 60 * 1000, label: '15m' },
+    { ms: 60 * 60 * 1000, label: '1h' },
+    { ms: 6 * 60 * 60 * 1000, label: '6h' },
+    { ms: 24 * 60 * 60 * 1000, label: '24h' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_SPIKE_VOLUME = 500; // Ignore spikes smaller than this many dollars
+
+// ============================================
+// Helpers
+// ============================================
+
+interface IndexedMarket {
+    market: MarketNode;
+    event: ProcessedEvent;
+}
+
+function indexMarkets(events: ProcessedEvent[]): Map<string, IndexedMarket> {
+    const index = new Map<string, IndexedMarket>();
+    for (const event of events) {
+        for (const market of event.markets) {
+            index.set(market.id, { market, event });
+        }
+    }
+    return index;
+}
+
+function inScope(scope: AlertScope, marketId: string, watchedMarketIds: Set<string>): boolean {
+    switch (scope.kind) {
+        case 'market':
+            return scope.marketId === marketId;
+        case 'watchlist':
+            return watchedMarketIds.has(marketId);
+        case 'all':
+            return true;
+    }
+}
+
+function formatPct(prob: number): string {
+    return `${Math.round(prob * 100)}%`;
+}
+
+export function formatWindow(windowMs: number): string {
+    return MOVE_WINDOWS.find((w) => w.ms === windowMs)?.label || `${Math.round(windowMs / 60000)}m`;
+}
+
+/**
+ * Markets whose probability history move rules need.
+ */
+export function getSampledMarketIds(
+    rules: AlertRule[],
+    events: ProcessedEvent[],
+    watchedMarketIds: Set<string>
+): Set<string> {
+    const ids = new Set<string>();
+    const moveRules = rules.filter((r): r is MoveAlertRule => r.enabled && r.type === 'move');
+    if (moveRules.length === 0) return ids;
+
+    for (const event of events) {
+        for (const market of event.markets) {
+            if (moveRules.some((rule) => inScope(rule.scope, market.id, watchedMarketIds))) {
+                ids.add(market.id);
+            }
+        }
+    }
+    return ids;
+}
+
+/**
+ * Human-readable summary of a rule. `marketNames` resolves market ids to questions.
+ */
+export function describeRule(rule: AlertRule, marketNames: Map<string, string>): string {
+    const scopeLabel = (scope: AlertScope) =>
+        scope.kind === 'market'
+            ? marketNames.get(scope.marketId) || `market ${scope.marketId}`
+            : scope.kind === 'watchlist'
+            ? 'any watchlist market'
+            : 'any market';
+
+    switch (rule.type) {
+        case 'price-above':
+            return `${marketNames.get(rule.marketId) || `Market ${rule.marketId}`} rises above ${formatPct(rule.threshold)}`;
+        case 'price-below':
+            return `${marketNames.get(rule.marketId) || `Market ${rule.marketId}`} falls below ${formatPct(rule.threshold)}`;
+        case 'move':
+            return `${scopeLabel(rule.scope)} moves ≥${Math.round(rule.threshold * 100)}pp within ${formatWindow(rule.windowMs)}`;
+        case 'volume-spike':
+            return `${scopeLabel(rule.scope)} trades ≥${rule.multiplier}× its 24h rate`;
+        case 'new-market':
+            return rule.match.kind === 'entity'
+                ? `New market mentioning ${getEntity(rule.match.value)?.name ?? rule.match.value}`
+                : `New market in ${rule.match.value}`;
+    }
+}
+
+// ============================================
+// Evaluation
+// ============================================
+
+/**
+ * Probability `windowMs` ago from the sample buffer, or null if the buffer
+ * doesn't reach back that far yet.
+ */
+function probabilityAt(samples: ProbabilitySample[] | undefined, time: number): number | null {
+    if (!samples || samples.length === 0 || samples[0].timestamp > time) return null;
+
+    let result = samples[0].prob;
+    for (const sample of samples) {
+        if (sample.timestamp > time) break;
+        result = sample.prob;
+    }
+    return result;
+}
+
+function matchesNewMarketRule(rule: NewMarketAlertRule, { market, event }: IndexedMarket): boolean {
+    if (rule.match.kind === 'category') {
+        return event.categoryId === rule.match.value;
+    }
+    // Rules saved before the entity registry hold a lowercase alias rather than an id
+    const id = resolveEntity(rule.match.value)?.id ?? rule.match.value.toLowerCase();
+    return extractEntities(`${market.question} ${event.title}`).some((e) => e.id === id);
+}
+
+type AlertMatch = Omit<TriggeredAlert, 'id' | 'timestamp' | 'read'>;
+
+function buildMatch(rule: AlertRule, { market, event }: IndexedMarket, message: string): AlertMatch {
+    return {
+        ruleId: rule.id,
+        marketId: market.id,
+        eventId: event.id,
+        categoryId: event.categoryId,
+        question: market.question,
+        message,
+    };
+}
+
+/**
+ * Evaluate enabled rules against a poll. Returns one match per rule and market;
+ * cooldowns and persistence are up to the caller.
+ */
+export function evaluateRules(rules: AlertRule[], context: AlertContext): AlertMatch[] {
+    const { previous, next, timestamp, intervalMs, samples, watchedMarketIds } = context;
+    const nextIndex = indexMarkets(next);
+    const prevIndex = previous ? indexMarkets(previous) : null;
+    const matches: AlertMatch[] = [];
+
+    for (const rule of rules) {
+        if (!rule.enabled) continue;
+
+        switch (rule.type) {
+            case 'price-above':
+            case 'price-below': {
+                const current = nextIndex.get(rule.marketId);
+                const before = prevIndex?.get(rule.marketId);
+                if (!current || !before) break;
+
+                const from = before.market.outcomeProb;
+                const to = current.market.outcomeProb;
+                const crossed =
+                    rule.type === 'price-above'
+                        ? from <= rule.threshold && to > rule.threshold
+                        : from >= rule.threshold && to < rule.threshold;
+
+                if (crossed) {
+                    const verb = rule.type === 'price-above' ? 'rose above' : 'fell below';
+                    matches.push(
+                        buildMatch(rule, current, `${verb} ${formatPct(rule.threshold)} (${formatPct(from)} → ${formatPct(to)})`)
+                    );
+                }
+                break;
+            }
+
+            case 'move': {
+                for (const [marketId, current] of nextIndex) {
+                    if (!inScope(rule.scope, marketId, watchedMarketIds)) continue;
+
+                    const past = probabilityAt(samples.get(marketId), timestamp - rule.windowMs);
+                    if (past === null) continue;
+
+                    const delta = current.market.outcomeProb - past;
+                    if (Math.abs(delta) >= rule.threshold) {
+                        const sign = delta >= 0 ? '+' : '';
+                        matches.push(
+                            buildMatch(
+                                rule,
+                                current,
+                                `moved ${sign}${(delta * 100).toFixed(1)}pp in ${formatWindow(rule.windowMs)} (now ${formatPct(current.market.outcomeProb)})`
+                            )
+                        );
+                    }
+                }
+                break;
+            }
+
+            case 'volume-spike': {
+                if (!prevIndex || intervalMs <= 0) break;
+
+                for (const [marketId, current] of nextIndex) {
+                    if (!inScope(rule.scope, marketId, watchedMarketIds)) continue;
+                    const before = prevIndex.get(marketId);
+                    if (!before) continue;
+
+                    const added = current.market.volume - before.market.volume;
+                    if (added < MIN_SPIKE_VOLUME) continue;
+
+                    const expected = ((current.market.volume24hr || 0) / DAY_MS) * intervalMs;
+                    const ratio = added / Math.max(expected, 1);
+                    if (ratio >= rule.multiplier) {
+                        matches.push(
+                            buildMatch(rule, current, `traded $${Math.round(added).toLocaleString()} since last poll (${ratio.toFixed(0)}× the 24h rate)`)
+                        );
+                    }
+                }
+                break;
+            }
+
+            case 'new-market': {
+                // Every market is "new" on the first poll, so wait for a baseline
+                if (!prevIndex) break;
+
+                for (const [marketId, current] of nextIndex) {
+                    if (prevIndex.has(marketId)) continue;
+                    if (matchesNewMarketRule(rule, current)) {
+                        matches.push(
+                            buildMatch(rule, current, `new market at ${formatPct(current.market.outcomeProb)}`)
+                        );
+                    }
+                }
+                break;
+            }
+        }
+    }
+
+    return matches;
+}
@@ -1,5 +1,17 @@
-import { MarketNode, RawPolymarketEvent, ProcessedEvent, PriceHistoryPoint, TimeWindow } from './types';
+import {
+    MarketNode,
+    RawPolymarketEvent,
+    ProcessedEvent,
+    PriceHistoryPoint,
+    TimeWindow,
+    TimeRange,
+    OrderBook,
+    OrderBookLevel,
+    Trade,
+} from './types';
 import { classifyEvent } from './categories';
+import { parseOutcomes } from './outcomes';
+import { getPriceHistoryQuery } from './timeWindow';
 
 const BASE_URL = '/api';
 
@@ -26,37 +38,26 @@ export async function fetchMarkets(): Promise<MarketNode[]> {
         }
 
         return allRawMarkets
-            .filter((m: Record<string, unknown>) => {
-                // basic filtering for binary markets (Yes/No) which are easiest to visualize clearly
-                try {
-                    const outcomes = JSON.parse((m.outcomes as string) || "[]");
-                    return outcomes.length === 2;
-                } catch {
-                    return false;
-                }
-            })
-            .map((m: Record<string, unknown>) => {
-                let yesProb = 0;
-                try {
-                    const prices = JSON.parse((m.outcomePrices as string) || "[]");
-                    yesProb = Number(prices[0] || 0);
-                } catch {
-                    yesProb = 0;
-                }
+            .map((m: Record<string, unknown>): MarketNode | null => {
+                const parsed = parseOutcomes(m.outcomes, m.outcomePrices);
+                if (!parsed) return null;
 
                 return {
                     id: m.id as string,
                     question: m.question as string,
                     volume: Number(m.volume || 0),
                     volume24hr: Number(m.volume_24h || 0),
-                    outcomeProb: yesProb,
+                    outcomeProb: parsed.outcomeProb,
                     group: (m.groupItemTitle as string) || (m.category as string) || 'Other',
                     slug: m.slug as string,
                     eventSlug: (m.eventSlug as string) || (m.event_slug as string) || undefined,
                     image: (m.icon as string) || (m.image as string),
+                    outcomes: parsed.outcomes,
+                    outcomePrices: parsed.outcomePrices,
+                    isMultiChoice: parsed.isMultiChoice,
                 };
             })
-            .filter((node: MarketNode) => node.volume > 0);
+            .filter((node): node is MarketNode => node !== null && node.volume > 0);
     } catch (error) {
         console.error('Error fetching markets:', error);
         return [];
@@ -78,12 +79,8 @@ function computeHeat(volume24h: number, volumeTotal: number): number {
 
 function parseMarketFromEvent(market: Record<string, unknown>, eventId: string, eventSlug: string): MarketNode | null {
     try {
-        const outcomes = JSON.parse((market.outcomes as string) || '[]');
-        // Only include binary markets
-        if (outcomes.length !== 2) return null;
-
-        const prices = JSON.parse((market.outcomePrices as string) || '[]');
-        const yesProb = Number(prices[0] || 0);
+        const parsed = parseOutcomes(market.outcomes, market.outcomePrices);
+        if (!parsed) return null;
 
         // Parse CLOB token IDs for price history API
         let clobTokenIds: string[] | undefined;
@@ -102,7 +99,7 @@ function parseMarketFromEvent(market: Record<string, unknown>, eventId: string,
             question: market.question as string,
             volume: Number(market.volume || 0),
             volume24hr: Number(market.volume24hr || 0),
-            outcomeProb: yesProb,
+            outcomeProb: parsed.outcomeProb,
             group: '',
             slug: market.slug as string,
             eventSlug,
@@ -110,7 +107,11 @@ function parseMarketFromEvent(market: Record<string, unknown>, eventId: string,
             liquidity: Number(market.liquidity || 0),
             endTime: market.endDate as string,
             endDate: market.endDate as string,
+            outcomes: parsed.outcomes,
+            outcomePrices: parsed.outcomePrices,
+            isMultiChoice: parsed.isMultiChoice,
             clobTokenIds,
+            conditionId: (market.conditionId as string) || undefined,
         };
     } catch {
         return null;
@@ -142,9 +143,10 @@ export async function fetchEvents(): Promise<ProcessedEvent[]> {
         return allRawEvents
             .map((event): ProcessedEvent | null => {
                 // Parse embedded markets
-                const markets: MarketNode[] = (event.markets || [])
+                const listedMarkets = (event.markets || [])
                     .map((m) => parseMarketFromEvent(m as unknown as Record<string, unknown>, event.id, event.slug))
-                    .filter((m): m is MarketNode => m !== null && m.volume > 0);
+                    .filter((m): m is MarketNode => m !== null);
+                const markets = listedMarkets.filter((m) => m.volume > 0);
 
                 if (markets.length === 0) return null;
 
@@ -164,11 +166,14 @@ export async function fetchEvents(): Promise<ProcessedEvent[]> {
                     volume24h,
                     volumeHeat: computeHeat(volume24h, volumeTotal),
                     liquidity: Number(event.liquidity || 0),
+                    openInterest: Number(event.openInterest || 0),
                     endDate: event.endDate,
                     confidence,
                     marketCount: markets.length,
                     markets,
                     image: event.image,
+                    negRisk: event.negRisk === true,
+                    listedMarketCount: listedMarkets.length,
                 };
             })
             .filter((e): e is ProcessedEvent => e !== null && e.volumeTotal > 0);
@@ -187,37 +192,19 @@ interface RawPriceHistoryPoint {
     p: number; // price as number
 }
 
-// Map TimeWindow to CLOB API interval format
-function getApiInterval(window: TimeWindow): string {
-    const intervals = {
-        '1h': '1h',
-        '24h': '1d',
-        '7d': '1w',
-    };
-    return intervals[window];
-}
-
-function getFidelityMinutes(window: TimeWindow): number {
-    // Fidelity determines data granularity
-    const fidelity = {
-        '1h': 1,    // 1 minute intervals for 1h window
-        '24h': 15,  // 15 minute intervals for 24h window
-        '7d': 60,   // 1 hour intervals for 7d window
-    };
-    return fidelity[window];
-}
-
 export async function fetchPriceHistory(
     tokenId: string,
-    timeWindow: TimeWindow = '24h'
+    timeWindow: TimeWindow = '24h',
+    customRange?: TimeRange | null
 ): Promise<PriceHistoryPoint[]> {
     try {
-        const interval = getApiInterval(timeWindow);
-        const fidelity = getFidelityMinutes(timeWindow);
+        const { interval, startTs, endTs, fidelity } = getPriceHistoryQuery(timeWindow, customRange);
+        const params = new URLSearchParams({ token: tokenId, fidelity: String(fidelity) });
+        if (interval) params.set('interval', interval);
+        if (startTs !== undefined) params.set('startTs', String(startTs));
+        if (endTs !== undefined) params.set('endTs', String(endTs));
 
-        const response = await fetch(
-            `${BASE_URL}/prices-history?token=${tokenId}&interval=${interval}&fidelity=${fidelity}`
-        );
+        const response = await fetch(`${BASE_URL}/prices-history?${params.toString()}`);
 
         if (!response.ok) {
             // Expected for some tokens — don't use console.error
@@ -244,7 +231,8 @@ const BATCH_SIZE = 5;
 
 export async function fetchMultiplePriceHistories(
     tokenIds: string[],
-    interval: TimeWindow = '24h'
+    interval: TimeWindow = '24h',
+    customRange?: TimeRange | null
 ): Promise<Map<string, PriceHistoryPoint[]>> {
     const results = new Map<string, PriceHistoryPoint[]>();
 
@@ -254,7 +242,7 @@ export async function fetchMultiplePriceHistories(
 
         const settled = await Promise.allSettled(
             batch.map(async (tokenId) => {
-                const history = await fetchPriceHistory(tokenId, interval);
+                const history = await fetchPriceHistory(tokenId, interval, customRange);
                 return { tokenId, history };
             })
         );
@@ -268,3 +256,136 @@ export async function fetchMultiplePriceHistories(
 
     return results;
 }
+
+// ============================================
+// Order Book API
+// ============================================
+
+interface RawBookLevel {
+    price: string | number;
+    size: string | number;
+}
+
+/**
+ * Parse raw levels, sort best-first and accumulate depth.
+ */
+function normalizeLevels(raw: RawBookLevel[] | undefined, side: 'bid' | 'ask'): OrderBookLevel[] {
+    const levels = (raw || [])
+        .map((level) => ({ price: Number(level.price), size: Number(level.size) }))
+        .filter((level) => Number.isFinite(level.price) && level.size > 0)
+        .sort((a, b) => (side === 'bid' ? b.price - a.price : a.price - b.price));
+
+    let cumulative = 0;
+    return levels.map((level) => {
+        cumulative += level.size;
+        return { ...level, cumulative };
+    });
+}
+
+export async function fetchOrderBook(tokenId: string): Promise<OrderBook | null> {
+    try {
+        const response = await fetch(`${BASE_URL}/book?token=${tokenId}`);
+
+        if (!response.ok) {
+            // Resolved or illiquid markets have no book
+            console.warn(`Order book unavailable for token ${tokenId.slice(0, 12)}… (${response.status})`);
+            return null;
+        }
+
+        const data = await response.json();
+        const bids = normalizeLevels(data.bids, 'bid');
+        const asks = normalizeLevels(data.asks, 'ask');
+        const bestBid = bids[0]?.price ?? null;
+        const bestAsk = asks[0]?.price ?? null;
+        const hasBoth = bestBid !== null && bestAsk !== null;
+
+        return {
+            tokenId,
+            timestamp: Number(data.timestamp) || Date.now(),
+            bids,
+            asks,
+            bestBid,
+            bestAsk,
+            spread: hasBoth ? bestAsk - bestBid : null,
+            mid: hasBoth ? (bestAsk + bestBid) / 2 : null,
+        };
+    } catch (error) {
+        console.warn('Order book fetch failed:', (error as Error).message);
+        return null;
+    }
+}
+
+/**
+ * Fetch order books for several tokens, in batches like price histories.
+ * Tokens without a book map to null.
+ */
+export async function fetchMultipleOrderBooks(tokenIds: string[]): Promise<Map<string, OrderBook | null>> {
+    const results = new Map<string, OrderBook | null>();
+
+    for (let i = 0; i < tokenIds.length; i += BATCH_SIZE) {
+        const batch = tokenIds.slice(i, i + BATCH_SIZE);
+        const books = await Promise.all(batch.map((tokenId) => fetchOrderBook(tokenId)));
+        batch.forEach((tokenId, j) => results.set(tokenId, books[j]));
+    }
+
+    return results;
+}
+
+// ============================================
+// Trades API
+// ============================================
+
+interface RawTrade {
+    side: 'BUY' | 'SELL';
+    asset: string;
+    size: number | string;
+    price: number | string;
+    timestamp: number; // seconds
+    transactionHash?: string;
+    proxyWallet?: string;
+    name?: string;
+    pseudonym?: string;
+}
+
+/**
+ * Recent fills on one CLOB token (`tokenId`) of a market (`conditionId`).
+ */
+export async function fetchTrades(
+    conditionId: string,
+    tokenId: string,
+    limit: number = 50
+): Promise<Trade[]> {
+    try {
+        const response = await fetch(`${BASE_URL}/trades?market=${conditionId}&asset=${tokenId}&limit=${limit}`);
+
+        if (!response.ok) {
+            console.warn(`Trades unavailable for token ${tokenId.slice(0, 12)}… (${response.status})`);
+            return [];
+        }
+
+        const data: RawTrade[] = await response.json();
+        if (!Array.isArray(data)) return [];
+
+        return data
+            .filter((raw) => raw.asset === tokenId)
+            .map((raw, i): Trade => {
+                const price = Number(raw.price) || 0;
+                const size = Number(raw.size) || 0;
+
+                return {
+                    id: `${raw.transactionHash || raw.timestamp}-${i}`,
+                    tokenId,
+                    side: raw.side === 'BUY' ? 'buy' : 'sell',
+                    price,
+                    size,
+                    notional: price * size,
+                    timestamp: raw.timestamp * 1000,
+                    trader: raw.name || raw.pseudonym || raw.proxyWallet,
+                };
+            })
+            .sort((a, b) => b.timestamp - a.timestamp);
+    } catch (error) {
+        console.warn('Trades fetch failed:', (error as Error).message);
+        return [];
+    }
+}
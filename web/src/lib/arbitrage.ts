@@ -0,0 +1,197 @@
+import { OrderBook, ProcessedEvent } from './types';
+import { getPrimaryTokenId } from './outcomes';
+
+// ============================================
+// Types
+// ============================================
+
+export interface ExclusiveLeg {
+    marketId: string;
+    label: string; // The outcome this market stands for, e.g. the candidate's name
+    question: string;
+    yesPrice: number; // outcomeProb
+    tokenId?: string; // YES token
+    bestBid: number | null;
+    bestAsk: number | null;
+}
+
+export interface ExclusiveGroup {
+    eventId: string;
+    eventTitle: string;
+    eventSlug: string;
+    categoryId: string;
+    volume: number;
+    legs: ExclusiveLeg[];
+    priceSum: number; // Sum of YES prices, ~1 when consistent
+    overround: number; // priceSum - 1; negative = underround
+    askSum: number | null; // Cost of one YES share of every outcome, null unless every leg has an ask
+    bidSum: number | null; // Proceeds of selling one YES share of every outcome
+    arbEdge: number | null; // Profit per full set at best bid/ask: max(1 - askSum, bidSum - 1); only locked in when complete
+    missingLegs: number; // Listed markets dropped for having no volume
+    placeholderLegs: string[]; // Labels of catch-all or placeholder outcomes ("Other", "Person A")
+    isComplete: boolean; // Legs are exactly the event's outcomes, so one full set pays exactly $1
+}
+
+// Price sums further than this from 100% are flagged as inconsistent
+export const INCONSISTENCY_THRESHOLD = 0.02;
+
+// Outcome labels that stand for "everyone else" or a not-yet-named outcome;
+// their definition can change as outcomes are added, so a set with them is not
+// a guaranteed $1
+const PLACEHOLDER_LABEL = /^(other|others|another|someone else|none of the above|(person|candidate|player|team|option|company|country) [a-z0-9])$/i;
+
+// ============================================
+// Detection
+// ============================================
+
+/**
+ * An event whose markets are mutually exclusive and exhaustive: exactly one
+ * resolves YES. Polymarket marks these as neg-risk events; their markets are
+ * all binary ("Will X win?").
+ */
+export function isExclusiveEvent(event: ProcessedEvent): boolean {
+    return !!event.negRisk && event.markets.length >= 2 && event.markets.every((m) => !m.isMultiChoice);
+}
+
+/**
+ * YES prices' sum minus 1 for an exclusive event, or null for other events.
+ * Markets dropped for having no volume are missing from the sum, so an
+ * underround can also mean an unlisted outcome.
+ */
+export function computeOverround(event: ProcessedEvent): number | null {
+    if (!isExclusiveEvent(event)) return null;
+    return event.markets.reduce((sum, m) => sum + m.outcomeProb, 0) - 1;
+}
+
+/**
+ * Short outcome names: the words the questions do not share.
+ * "Will JD Vance win the election?" + "Will Gavin Newsom win the election?"
+ * → "JD Vance", "Gavin Newsom".
+ */
+function getOutcomeLabels(questions: string[]): string[] {
+    const words = questions.map((q) => q.trim().split(/\s+/));
+    if (words.length < 2) return questions;
+
+    const shortest = Math.min(...words.map((w) => w.length));
+    let prefix = 0;
+    while (prefix < shortest - 1 && words.every((w) => w[prefix] === words[0][prefix])) prefix++;
+    let suffix = 0;
+    while (
+        suffix < shortest - prefix - 1 &&
+        words.every((w) => w[w.length - 1 - suffix] === words[0][words[0].length - 1 - suffix])
+    ) {
+        suffix++;
+    }
+
+    return words.map((w, i) => w.slice(prefix, w.length - suffix).join(' ') || questions[i]);
+}
+
+/**
+ * Every exclusive event with its price sum, largest deviation first.
+ * Order-book fields stay empty until `applyOrderBooks`.
+ */
+export function findExclusiveGroups(events: ProcessedEvent[]): ExclusiveGroup[] {
+    const groups: ExclusiveGroup[] = [];
+
+    for (const event of events) {
+        const overround = computeOverround(event);
+        if (overround === null) continue;
+
+        const labels = getOutcomeLabels(event.markets.map((m) => m.question));
+        const missingLegs = Math.max(0, (event.listedMarketCount ?? event.markets.length) - event.markets.length);
+        const placeholderLegs = labels.filter((label) => PLACEHOLDER_LABEL.test(label.trim()));
+        const legs: ExclusiveLeg[] = event.markets
+            .map((market, i) => ({
+                marketId: market.id,
+                label: labels[i],
+                question: market.question,
+                yesPrice: market.outcomeProb,
+                tokenId: getPrimaryTokenId(market),
+                bestBid: null,
+                bestAsk: null,
+            }))
+            .sort((a, b) => b.yesPrice - a.yesPrice);
+
+        groups.push({
+            eventId: event.id,
+            eventTitle: event.title,
+            eventSlug: event.slug,
+            categoryId: event.categoryId,
+            volume: event.volumeTotal,
+            legs,
+            priceSum: overround + 1,
+            overround,
+            askSum: null,
+            bidSum: null,
+            arbEdge: null,
+            missingLegs,
+            placeholderLegs,
+            isComplete: missingLegs === 0 && placeholderLegs.length === 0,
+        });
+    }
+
+    return groups.sort((a, b) => Math.abs(b.overround) - Math.abs(a.overround));
+}
+
+// ============================================
+// Order Books
+// ============================================
+
+/**
+ * Fill in best bid/ask per leg and the executable sums. When the legs are
+ * complete, buying one YES of every outcome pays exactly $1, so an ask sum
+ * below 1 is a locked-in profit; a bid sum above 1 is the mirror trade (buy
+ * one NO of every outcome).
+ */
+export function applyOrderBooks(group: ExclusiveGroup, books: Map<string, OrderBook | null>): ExclusiveGroup {
+    const legs = group.legs.map((leg) => {
+        const book = leg.tokenId ? books.get(leg.tokenId) : undefined;
+        return { ...leg, bestBid: book?.bestBid ?? null, bestAsk: book?.bestAsk ?? null };
+    });
+
+    const sumOf = (values: Array<number | null>): number | null =>
+        values.every((v) => v !== null) ? values.reduce<number>((sum, v) => sum + v!, 0) : null;
+
+    const askSum = sumOf(legs.map((leg) => leg.bestAsk));
+    const bidSum = sumOf(legs.map((leg) => leg.bestBid));
+    const edges = [askSum !== null ? 1 - askSum : null, bidSum !== null ? bidSum - 1 : null].filter(
+        (edge): edge is number => edge !== null
+    );
+
+    return {
+        ...group,
+        legs,
+        askSum,
+        bidSum,
+        arbEdge: edges.length > 0 ? Math.max(...edges) : null,
+    };
+}
+
+/**
+ * An arbitrage that can be traded now: a positive edge at the best bid/ask
+ * on a set of legs known to pay exactly $1.
+ */
+export function isExecutable(group: ExclusiveGroup): boolean {
+    return group.isComplete && group.arbEdge !== null && group.arbEdge > 0;
+}
+
+/**
+ * Why a group's legs may not pay exactly $1, or null when they do.
+ */
+export function describeIncompleteness(group: ExclusiveGroup): string | null {
+    const reasons: string[] = [];
+    if (group.missingLegs > 0) {
+        reasons.push(`${group.missingLegs} outcome${group.missingLegs === 1 ? '' : 's'} without volume not listed`);
+    }
+    if (group.placeholderLegs.length > 0) {
+        reasons.push(`placeholder outcome${group.placeholderLegs.length === 1 ? '' : 's'}: ${group.placeholderLegs.join(', ')}`);
+    }
+    return reasons.length > 0 ? reasons.join('; ') : null;
+}
+
+/**
+ * Signed percentage for an over/underround, e.g. "+4.0%".
+ */
+export function formatOverround(value: number): string {
+    return `${value >= 0 ? '+' : ''}${(value * 100).toFixed(1)}%`;
+}
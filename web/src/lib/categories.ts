@@ -239,3 +239,38 @@ function normalizeCategory(apiCategory: string): CategoryName {
 
     return 'Other';
 }
+
+/**
+ * Get category display name from ID.
+ */
+export function getCategoryName(categoryId: string): string {
+    for (const name of CATEGORIES) {
+        if (name.toLowerCase().replace(/\s+/g, '-') === categoryId) {
+            return name;
+        }
+    }
+    return 'Other';
+}
+
+// ============================================
+// Display Colors
+// ============================================
+
+const CATEGORY_COLORS: Record<string, string> = {
+    'politics': '#ef4444', // red
+    'crypto': '#f97316', // orange
+    'sports': '#22c55e', // green
+    'entertainment': '#a855f7', // purple
+    'pop-culture': '#a855f7', // purple
+    'business': '#3b82f6', // blue
+    'science': '#06b6d4', // cyan
+    'world': '#eab308', // yellow
+    'other': '#71717a', // gray
+};
+
+/**
+ * Display color for a category id.
+ */
+export function getCategoryColor(categoryId: string): string {
+    return CATEGORY_COLORS[categoryId] || CATEGORY_COLORS['other'];
+}
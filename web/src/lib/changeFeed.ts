@@ -0,0 +1,64 @@
+import { ChangeRecord, ProcessedEvent } from './types';
+import { diffEvents } from './diff';
+
+// ============================================
+// Movers Feed (in-memory store)
+// ============================================
+//
+// Holds the previous live poll and a rolling list of change records.
+// Fed from the events fetcher so diffs are computed once per poll,
+// regardless of how many components read the feed.
+
+const MAX_CHANGES = 100;
+const EMPTY_FEED: ChangeRecord[] = [];
+
+let previousPoll: { events: ProcessedEvent[]; timestamp: number } | null = null;
+let feed: ChangeRecord[] = EMPTY_FEED;
+const listeners = new Set<() => void>();
+
+function emit() {
+    for (const listener of listeners) listener();
+}
+
+/**
+ * Diff a fresh live poll against the previous one and prepend the changes.
+ * Empty polls (failed fetches) are ignored so they don't read as mass closures.
+ */
+export function ingestPoll(events: ProcessedEvent[], timestamp: number = Date.now()): void {
+    if (events.length === 0) return;
+
+    if (previousPoll) {
+        const changes = diffEvents(
+            previousPoll.events,
+            events,
+            timestamp,
+            timestamp - previousPoll.timestamp
+        );
+        if (changes.length > 0) {
+            feed = [...changes, ...feed].slice(0, MAX_CHANGES);
+            emit();
+        }
+    }
+
+    previousPoll = { events, timestamp };
+}
+
+export function clearFeed(): void {
+    feed = EMPTY_FEED;
+    emit();
+}
+
+export function subscribeFeed(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+export function getFeed(): ChangeRecord[] {
+    return feed;
+}
+
+export function getServerFeed(): ChangeRecord[] {
+    return EMPTY_FEED;
+}
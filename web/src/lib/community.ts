@@ -0,0 +1,249 @@
+import * as d3 from 'd3';
+import { DependencyEdge, DependencyGraph, DependencyNode } from './types';
+
+// ============================================
+// Types
+// ============================================
+
+export interface WeightedEdge {
+    source: string;
+    target: string;
+    weight: number;
+}
+
+interface IndexedEdge {
+    a: number;
+    b: number;
+    weight: number;
+}
+
+// ============================================
+// Louvain Community Detection
+// ============================================
+
+/**
+ * One Louvain level: greedily move each node into the neighbouring community
+ * with the largest modularity gain until nothing moves. Returns each node's
+ * community, or null when no node moved (the partition is final).
+ */
+function louvainLevel(n: number, edges: IndexedEdge[], resolution: number): number[] | null {
+    const neighbors = Array.from({ length: n }, () => new Map<number, number>());
+    const selfLoops = new Array<number>(n).fill(0);
+    let totalWeight = 0;
+
+    for (const { a, b, weight } of edges) {
+        totalWeight += weight;
+        if (a === b) {
+            selfLoops[a] += weight;
+        } else {
+            neighbors[a].set(b, (neighbors[a].get(b) || 0) + weight);
+            neighbors[b].set(a, (neighbors[b].get(a) || 0) + weight);
+        }
+    }
+    if (totalWeight === 0) return null;
+
+    const degree = neighbors.map((links, i) => {
+        let sum = 2 * selfLoops[i];
+        for (const weight of links.values()) sum += weight;
+        return sum;
+    });
+
+    const community = Array.from({ length: n }, (_, i) => i);
+    const totals = [...degree]; // Sum of member degrees per community
+    let improved = false;
+    let moved = true;
+
+    while (moved) {
+        moved = false;
+
+        for (let i = 0; i < n; i++) {
+            const current = community[i];
+            const links = new Map<number, number>();
+            for (const [j, weight] of neighbors[i]) {
+                links.set(community[j], (links.get(community[j]) || 0) + weight);
+            }
+
+            totals[current] -= degree[i];
+            const gain = (c: number) =>
+                (links.get(c) || 0) - (resolution * totals[c] * degree[i]) / (2 * totalWeight);
+
+            let best = current;
+            let bestGain = gain(current);
+            for (const c of links.keys()) {
+                const candidate = gain(c);
+                if (candidate > bestGain + 1e-12) {
+                    best = c;
+                    bestGain = candidate;
+                }
+            }
+
+            totals[best] += degree[i];
+            community[i] = best;
+            if (best !== current) {
+                moved = true;
+                improved = true;
+            }
+        }
+    }
+
+    return improved ? community : null;
+}
+
+/**
+ * Relabel community ids as 0..count-1 in order of first appearance.
+ */
+function compact(community: number[]): { mapping: number[]; count: number } {
+    const ids = new Map<number, number>();
+    const mapping = community.map((c) => {
+        if (!ids.has(c)) ids.set(c, ids.size);
+        return ids.get(c)!;
+    });
+    return { mapping, count: ids.size };
+}
+
+/**
+ * Louvain modularity optimisation over an undirected weighted graph.
+ * Deterministic (nodes are visited in input order). Returns a community
+ * index per node id, numbered by community size, largest first. Nodes
+ * without edges get a community of their own.
+ */
+export function detectCommunities(
+    nodeIds: string[],
+    edges: WeightedEdge[],
+    resolution: number = 1
+): Map<string, number> {
+    const index = new Map(nodeIds.map((id, i) => [id, i]));
+    let levelEdges: IndexedEdge[] = [];
+    for (const edge of edges) {
+        const a = index.get(edge.source);
+        const b = index.get(edge.target);
+        if (a === undefined || b === undefined || edge.weight <= 0) continue;
+        levelEdges.push({ a, b, weight: edge.weight });
+    }
+
+    // membership[i] = node i's vertex in the current (aggregated) level
+    let membership = nodeIds.map((_, i) => i);
+    let levelSize = nodeIds.length;
+
+    for (;;) {
+        const community = louvainLevel(levelSize, levelEdges, resolution);
+        if (!community) break;
+
+        const { mapping, count } = compact(community);
+        membership = membership.map((vertex) => mapping[vertex]);
+
+        // Collapse each community into a single vertex for the next level
+        const merged = new Map<string, IndexedEdge>();
+        for (const { a, b, weight } of levelEdges) {
+            const [ca, cb] = [mapping[a], mapping[b]].sort((x, y) => x - y);
+            const key = `${ca}:${cb}`;
+            const existing = merged.get(key);
+            if (existing) existing.weight += weight;
+            else merged.set(key, { a: ca, b: cb, weight });
+        }
+        levelEdges = Array.from(merged.values());
+        levelSize = count;
+    }
+
+    // Number communities by size, largest first
+    const sizes = new Map<number, number>();
+    for (const vertex of membership) sizes.set(vertex, (sizes.get(vertex) || 0) + 1);
+    const ranked = Array.from(sizes.keys()).sort((a, b) => sizes.get(b)! - sizes.get(a)! || a - b);
+    const rank = new Map(ranked.map((vertex, i) => [vertex, i]));
+
+    return new Map(nodeIds.map((id, i) => [id, rank.get(membership[i])!]));
+}
+
+// ============================================
+// Display
+// ============================================
+
+const COMMUNITY_COLORS = d3.schemeTableau10;
+const OTHER_COMMUNITY_COLOR = '#71717a';
+
+/**
+ * Color for a community index; only the largest communities get a hue.
+ */
+export function getCommunityColor(communityId: number): string {
+    return communityId < COMMUNITY_COLORS.length ? COMMUNITY_COLORS[communityId] : OTHER_COMMUNITY_COLOR;
+}
+
+export function getCommunityNodeId(communityId: number): string {
+    return `community-${communityId}`;
+}
+
+/**
+ * Replace every member of a collapsed community with one node sized by the
+ * members' total volume. Edges are re-pointed at the community node; parallel
+ * edges merge into the strongest one, and edges inside a community vanish.
+ */
+export function collapseCommunities(graph: DependencyGraph, collapsed: Set<number>): DependencyGraph {
+    if (collapsed.size === 0 || !graph.communities) return graph;
+
+    const nodeFor = new Map<string, string>();
+    const nodes: DependencyNode[] = [];
+
+    for (const community of graph.communities) {
+        if (!collapsed.has(community.id)) continue;
+        const members = graph.nodes.filter((node) => node.communityId === community.id);
+        if (members.length === 0) continue;
+
+        const id = getCommunityNodeId(community.id);
+        const volume = d3.sum(members, (node) => node.volume);
+        for (const member of members) nodeFor.set(member.id, id);
+
+        nodes.push({
+            id,
+            marketId: id,
+            eventId: '',
+            eventTitle: community.label,
+            question: community.label,
+            volume,
+            volume24hr: d3.sum(members, (node) => node.volume24hr),
+            outcomeProb: volume > 0 ? d3.sum(members, (node) => node.outcomeProb * node.volume) / volume : 0,
+            categoryId: members[0].categoryId,
+            categoryName: members[0].categoryName,
+            slug: '',
+            communityId: community.id,
+            memberIds: members.map((node) => node.id),
+        });
+    }
+
+    nodes.push(...graph.nodes.filter((node) => !nodeFor.has(node.id)));
+
+    // Strongest original edge per (re-pointed) pair, and how many it stands for
+    const merged = new Map<string, { edge: DependencyEdge; sourceId: string; targetId: string; count: number }>();
+    for (const edge of graph.edges) {
+        const sourceId = nodeFor.get(edge.sourceId) || edge.sourceId;
+        const targetId = nodeFor.get(edge.targetId) || edge.targetId;
+        if (sourceId === targetId) continue;
+
+        const key = sourceId < targetId ? `${sourceId}|${targetId}` : `${targetId}|${sourceId}`;
+        const existing = merged.get(key);
+        if (!existing) {
+            merged.set(key, { edge, sourceId, targetId, count: 1 });
+        } else {
+            existing.count++;
+            if (edge.weight > existing.edge.weight) existing.edge = edge;
+        }
+    }
+
+    const edges = Array.from(merged.entries()).map(([key, { edge, sourceId, targetId, count }]): DependencyEdge => {
+        const isAggregate = count > 1 || sourceId !== edge.sourceId || targetId !== edge.targetId;
+        if (!isAggregate) return edge;
+        return {
+            ...edge,
+            id: `aggregate-${key}`,
+            sourceId,
+            targetId,
+            leaderId: undefined, // Lead/lag arrows only make sense between individual markets
+            explanation: `${count} link${count === 1 ? '' : 's'}; strongest: ${edge.explanation || edge.type}`,
+        };
+    });
+
+    return {
+        ...graph,
+        nodes,
+        edges,
+    };
+}
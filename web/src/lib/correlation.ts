@@ -1,4 +1,13 @@
-import { PriceHistoryPoint, DependencyEdge, ProcessedEvent, TimeWindow } from './types';
+import {
+    CorrelationMethod,
+    PriceHistoryPoint,
+    DependencyEdge,
+    ProcessedEvent,
+    TimeRange,
+    TimeWindow,
+} from './types';
+import { formatTimeWindow } from './timeWindow';
+import { computeOverround } from './arbitrage';
 
 // ============================================
 // Correlation Computation
@@ -10,6 +19,25 @@ interface CorrelationResult {
     n: number; // number of data points used
 }
 
+interface LaggedCorrelationResult extends CorrelationResult {
+    lagSteps: number; // > 0: A leads B, < 0: B leads A
+    lagMs: number; // Absolute lag duration
+    contemporaneous: number; // Correlation at lag 0
+}
+
+// A lag must beat the lag-0 correlation by this much to count as lead/lag
+const MIN_LAG_IMPROVEMENT = 0.05;
+
+export const CORRELATION_METHODS: Array<{ id: CorrelationMethod; label: string; description: string }> = [
+    { id: 'pearson', label: 'Pearson', description: 'Linear correlation of simple returns' },
+    { id: 'spearman', label: 'Spearman', description: 'Rank correlation of returns, robust to outsized moves' },
+    { id: 'kendall', label: 'Kendall', description: 'Concordant vs discordant return pairs (tau-b); runs lower than Pearson' },
+    { id: 'logit', label: 'Logit', description: 'Linear correlation of log-odds changes, stable near 0% and 100%' },
+];
+
+// Prices are clamped this far from 0 and 1 before taking log-odds
+const LOGIT_EPSILON = 0.005;
+
 /**
  * Align two time series by timestamp using linear interpolation.
  * Returns arrays of equal length with matching timestamps.
@@ -17,9 +45,9 @@ interface CorrelationResult {
 function alignTimeSeries(
     seriesA: PriceHistoryPoint[],
     seriesB: PriceHistoryPoint[]
-): { alignedA: number[]; alignedB: number[] } {
+): { alignedA: number[]; alignedB: number[]; timestamps: number[] } {
     if (seriesA.length < 2 || seriesB.length < 2) {
-        return { alignedA: [], alignedB: [] };
+        return { alignedA: [], alignedB: [], timestamps: [] };
     }
 
     // Sort both series by timestamp
@@ -34,12 +62,13 @@ function alignTimeSeries(
     );
 
     if (startTime >= endTime) {
-        return { alignedA: [], alignedB: [] };
+        return { alignedA: [], alignedB: [], timestamps: [] };
     }
 
     // Use seriesA timestamps as reference points within the overlap
     const alignedA: number[] = [];
     const alignedB: number[] = [];
+    const timestamps: number[] = [];
 
     for (const pointA of sortedA) {
         if (pointA.timestamp < startTime || pointA.timestamp > endTime) continue;
@@ -49,10 +78,11 @@ function alignTimeSeries(
         if (interpolatedB !== null) {
             alignedA.push(pointA.price);
             alignedB.push(interpolatedB);
+            timestamps.push(pointA.timestamp);
         }
     }
 
-    return { alignedA, alignedB };
+    return { alignedA, alignedB, timestamps };
 }
 
 /**
@@ -99,6 +129,82 @@ function computeReturns(prices: number[]): number[] {
     return returns;
 }
 
+/**
+ * Changes in log-odds: a 1% → 2% move counts about as much as 50% → 67%,
+ * instead of the 100% simple return it would be.
+ */
+function computeLogitChanges(prices: number[]): number[] {
+    const logit = (p: number) => {
+        const clamped = Math.min(1 - LOGIT_EPSILON, Math.max(LOGIT_EPSILON, p));
+        return Math.log(clamped / (1 - clamped));
+    };
+    const changes: number[] = [];
+    for (let i = 1; i < prices.length; i++) {
+        changes.push(logit(prices[i]) - logit(prices[i - 1]));
+    }
+    return changes;
+}
+
+function computeChanges(prices: number[], method: CorrelationMethod): number[] {
+    return method === 'logit' ? computeLogitChanges(prices) : computeReturns(prices);
+}
+
+/**
+ * Ranks starting at 1, with ties given their average rank.
+ */
+function rankValues(values: number[]): number[] {
+    const order = values.map((value, i) => ({ value, i })).sort((a, b) => a.value - b.value);
+    const ranks = new Array<number>(values.length);
+
+    for (let start = 0; start < order.length; ) {
+        let end = start;
+        while (end + 1 < order.length && order[end + 1].value === order[start].value) end++;
+        const averageRank = (start + end) / 2 + 1;
+        for (let k = start; k <= end; k++) ranks[order[k].i] = averageRank;
+        start = end + 1;
+    }
+
+    return ranks;
+}
+
+/**
+ * Kendall's tau-b, which corrects for ties (common when prices sit still).
+ */
+function kendallTau(x: number[], y: number[]): number {
+    if (x.length !== y.length || x.length < 2) return 0;
+
+    let concordant = 0;
+    let discordant = 0;
+    let tiesX = 0;
+    let tiesY = 0;
+
+    for (let i = 0; i < x.length; i++) {
+        for (let j = i + 1; j < x.length; j++) {
+            const dx = Math.sign(x[j] - x[i]);
+            const dy = Math.sign(y[j] - y[i]);
+            if (dx === 0 && dy === 0) continue;
+            if (dx === 0) tiesX++;
+            else if (dy === 0) tiesY++;
+            else if (dx === dy) concordant++;
+            else discordant++;
+        }
+    }
+
+    const denominator = Math.sqrt((concordant + discordant + tiesX) * (concordant + discordant + tiesY));
+    return denominator === 0 ? 0 : (concordant - discordant) / denominator;
+}
+
+function correlate(x: number[], y: number[], method: CorrelationMethod): number {
+    switch (method) {
+        case 'spearman':
+            return pearsonCorrelation(rankValues(x), rankValues(y));
+        case 'kendall':
+            return kendallTau(x, y);
+        default:
+            return pearsonCorrelation(x, y);
+    }
+}
+
 /**
  * Compute Pearson correlation coefficient between two arrays
  */
@@ -128,12 +234,15 @@ function pearsonCorrelation(x: number[], y: number[]): number {
 }
 
 /**
- * Compute correlation between two price series using returns.
+ * Compute correlation between two price series using returns
+ * (log-odds changes for the 'logit' method).
  */
 export function computeCorrelation(
     seriesA: PriceHistoryPoint[],
-    seriesB: PriceHistoryPoint[]
+    seriesB: PriceHistoryPoint[],
+    options: { method?: CorrelationMethod } = {}
 ): CorrelationResult {
+    const method = options.method || 'pearson';
     const { alignedA, alignedB } = alignTimeSeries(seriesA, seriesB);
 
     if (alignedA.length < 5) {
@@ -141,18 +250,17 @@ export function computeCorrelation(
     }
 
     // Compute returns
-    const returnsA = computeReturns(alignedA);
-    const returnsB = computeReturns(alignedB);
+    const returnsA = computeChanges(alignedA, method);
+    const returnsB = computeChanges(alignedB, method);
 
     if (returnsA.length < 3) {
         return { correlation: 0, confidence: 0, n: returnsA.length };
     }
 
-    const correlation = pearsonCorrelation(returnsA, returnsB);
+    const correlation = correlate(returnsA, returnsB, method);
 
     // Confidence based on sample size (more data = higher confidence)
-    // At least 10 points for decent confidence, 50+ for high confidence
-    const confidence = Math.min(1, Math.log10(returnsA.length + 1) / Math.log10(51));
+    const confidence = confidenceFor(returnsA.length);
 
     return {
         correlation: Math.max(-1, Math.min(1, correlation)), // Clamp to [-1, 1]
@@ -161,55 +269,332 @@ export function computeCorrelation(
     };
 }
 
+function confidenceFor(n: number): number {
+    // At least 10 points for decent confidence, 50+ for high confidence
+    return Math.min(1, Math.log10(n + 1) / Math.log10(51));
+}
+
+function medianStep(timestamps: number[]): number {
+    const steps = timestamps.slice(1).map((t, i) => t - timestamps[i]).sort((a, b) => a - b);
+    return steps.length > 0 ? steps[Math.floor(steps.length / 2)] : 0;
+}
+
+/**
+ * Cross-correlation of returns over lags -maxLag..maxLag (in sample steps).
+ * Lag k pairs A's return at step i with B's at step i + k, so a positive best
+ * lag means A moves first. Falls back to lag 0 unless a lag is clearly stronger.
+ */
+export function computeLaggedCorrelation(
+    seriesA: PriceHistoryPoint[],
+    seriesB: PriceHistoryPoint[],
+    maxLag: number,
+    method: CorrelationMethod = 'pearson'
+): LaggedCorrelationResult {
+    const { alignedA, alignedB, timestamps } = alignTimeSeries(seriesA, seriesB);
+    const empty = { correlation: 0, confidence: 0, n: 0, lagSteps: 0, lagMs: 0, contemporaneous: 0 };
+
+    if (alignedA.length < 5) return { ...empty, n: alignedA.length };
+
+    const returnsA = computeChanges(alignedA, method);
+    const returnsB = computeChanges(alignedB, method);
+
+    const correlationAt = (lag: number) => {
+        const x = lag >= 0 ? returnsA.slice(0, returnsA.length - lag) : returnsA.slice(-lag);
+        const y = lag >= 0 ? returnsB.slice(lag) : returnsB.slice(0, returnsB.length + lag);
+        return { correlation: correlate(x, y, method), n: x.length };
+    };
+
+    const atZero = correlationAt(0);
+    if (atZero.n < 3) return { ...empty, n: atZero.n };
+
+    let best = { ...atZero, lag: 0 };
+    for (let lag = -maxLag; lag <= maxLag; lag++) {
+        if (lag === 0) continue;
+        const result = correlationAt(lag);
+        if (result.n < 3) continue;
+        if (Math.abs(result.correlation) > Math.abs(best.correlation)) {
+            best = { ...result, lag };
+        }
+    }
+
+    if (Math.abs(best.correlation) - Math.abs(atZero.correlation) < MIN_LAG_IMPROVEMENT) {
+        best = { ...atZero, lag: 0 };
+    }
+
+    return {
+        correlation: Math.max(-1, Math.min(1, best.correlation)),
+        confidence: confidenceFor(best.n),
+        n: best.n,
+        lagSteps: best.lag,
+        lagMs: Math.abs(best.lag) * medianStep(timestamps),
+        contemporaneous: Math.max(-1, Math.min(1, atZero.correlation)),
+    };
+}
+
+// ============================================
+// Correlation Matrix
+// ============================================
+
+export interface CorrelationMatrix {
+    values: number[][]; // NaN where a pair lacks enough overlapping history
+    counts: number[][]; // Data points behind each value
+}
+
+/**
+ * Full pairwise correlation matrix. Symmetric, with 1 on the diagonal.
+ */
+export function computeCorrelationMatrix(
+    histories: PriceHistoryPoint[][],
+    method: CorrelationMethod = 'pearson'
+): CorrelationMatrix {
+    const n = histories.length;
+    const values = Array.from({ length: n }, () => new Array<number>(n).fill(NaN));
+    const counts = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+
+    for (let i = 0; i < n; i++) {
+        values[i][i] = 1;
+        counts[i][i] = histories[i].length;
+        for (let j = i + 1; j < n; j++) {
+            const result = computeCorrelation(histories[i], histories[j], { method });
+            const value = result.confidence > 0 ? result.correlation : NaN;
+            values[i][j] = values[j][i] = value;
+            counts[i][j] = counts[j][i] = result.n;
+        }
+    }
+
+    return { values, counts };
+}
+
+// ============================================
+// Rolling Correlation
+// ============================================
+
+export interface RollingCorrelationPoint {
+    timestamp: number; // End of the window (Unix ms)
+    correlation: number;
+}
+
+/**
+ * Correlation over a sliding window of `windowSize` price changes, one point
+ * per step. Shows whether a relationship holds throughout or comes from a
+ * single burst of co-movement.
+ */
+export function computeRollingCorrelation(
+    seriesA: PriceHistoryPoint[],
+    seriesB: PriceHistoryPoint[],
+    windowSize: number,
+    method: CorrelationMethod = 'pearson'
+): RollingCorrelationPoint[] {
+    const size = Math.max(3, Math.floor(windowSize));
+    const { alignedA, alignedB, timestamps } = alignTimeSeries(seriesA, seriesB);
+
+    // returns[i] is the change ending at timestamps[i + 1]
+    const returnsA = computeChanges(alignedA, method);
+    const returnsB = computeChanges(alignedB, method);
+    const points: RollingCorrelationPoint[] = [];
+
+    for (let end = size; end <= returnsA.length; end++) {
+        const correlation = correlate(
+            returnsA.slice(end - size, end),
+            returnsB.slice(end - size, end),
+            method
+        );
+        points.push({ timestamp: timestamps[end], correlation: Math.max(-1, Math.min(1, correlation)) });
+    }
+
+    return points;
+}
+
+// ============================================
+// Significance
+// ============================================
+
+// False discovery rate for "significant" correlation edges
+export const SIGNIFICANCE_LEVEL = 0.05;
+
+/** Standard normal CDF (Abramowitz & Stegun 7.1.26 erf approximation). */
+function normalCdf(z: number): number {
+    const x = Math.abs(z) / Math.SQRT2;
+    const t = 1 / (1 + 0.3275911 * x);
+    const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+    const erf = 1 - poly * Math.exp(-x * x);
+    return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Two-sided p-value for a correlation `r` over `n` points. Pearson (and logit)
+ * use the Fisher z-transform: atanh(r) * sqrt(n - 3) is approximately standard
+ * normal when the true correlation is 0. Spearman uses the same transform with
+ * the Fieller variance 1.06 / (n - 3); Kendall's tau has its own normal
+ * approximation.
+ */
+export function correlationPValue(r: number, n: number, method: CorrelationMethod = 'pearson'): number {
+    if (n < 4) return 1;
+    const clamped = Math.max(-0.999999, Math.min(0.999999, r));
+
+    let z: number;
+    if (method === 'kendall') {
+        z = (3 * clamped * Math.sqrt(n * (n - 1))) / Math.sqrt(2 * (2 * n + 5));
+    } else {
+        const variance = (method === 'spearman' ? 1.06 : 1) / (n - 3);
+        z = Math.atanh(clamped) / Math.sqrt(variance);
+    }
+
+    return Math.min(1, 2 * (1 - normalCdf(Math.abs(z))));
+}
+
+/**
+ * Benjamini-Hochberg adjusted p-values (q-values), in input order. An entry is
+ * significant at false discovery rate `q` when its adjusted value is <= q.
+ */
+export function adjustPValues(pValues: number[]): number[] {
+    const m = pValues.length;
+    const order = pValues.map((p, i) => ({ p, i })).sort((a, b) => a.p - b.p);
+    const adjusted = new Array<number>(m);
+
+    // Step up from the largest p-value, keeping the sequence monotone
+    let running = 1;
+    for (let rank = m; rank >= 1; rank--) {
+        const { p, i } = order[rank - 1];
+        running = Math.min(running, (p * m) / rank);
+        adjusted[i] = running;
+    }
+
+    return adjusted;
+}
+
 // ============================================
 // Dependency Detection
 // ============================================
 
 export interface CorrelationEdge {
     targetId: string;
-    correlation: number;
+    correlation: number; // At the best lag
     confidence: number;
     n: number;
+    lagSteps: number; // > 0: the searched market leads the target
+    lagMs: number;
+    pValue: number; // Two-sided, Bonferroni-corrected for the lags searched
+    qValue: number; // Benjamini-Hochberg adjusted across every pair tested
+}
+
+interface CorrelationSearchOptions {
+    threshold: number; // Min |correlation| to include
+    maxLag?: number; // Sample steps searched either way, 0 = contemporaneous only
+    significantOnly?: boolean; // Drop pairs with q-value above SIGNIFICANCE_LEVEL
+    method?: CorrelationMethod;
+}
+
+type TestedPair = Omit<CorrelationEdge, 'targetId' | 'qValue'>;
+
+/**
+ * Correlation of one pair at its best lag, with a p-value. Null when the
+ * series overlap too little to test.
+ */
+function testPair(
+    historyA: PriceHistoryPoint[],
+    historyB: PriceHistoryPoint[],
+    options: Pick<CorrelationSearchOptions, 'maxLag' | 'method'>
+): TestedPair | null {
+    if (historyA.length < 5 || historyB.length < 5) return null;
+
+    const maxLag = options.maxLag || 0;
+    const method = options.method || 'pearson';
+    const result = computeLaggedCorrelation(historyA, historyB, maxLag, method);
+    if (result.n < 4) return null;
+
+    // Picking the best of 2 * maxLag + 1 lags inflates |r|; correct for it
+    const pValue = Math.min(1, correlationPValue(result.correlation, result.n, method) * (2 * maxLag + 1));
+
+    return {
+        correlation: result.correlation,
+        confidence: result.confidence,
+        n: result.n,
+        lagSteps: result.lagSteps,
+        lagMs: result.lagMs,
+        pValue,
+    };
+}
+
+/**
+ * Attach q-values across every pair tested (even those that fall below
+ * `threshold`, so q-values don't depend on the slider), then filter and sort
+ * by absolute correlation strength.
+ */
+function selectSignificant<T extends TestedPair>(
+    tested: T[],
+    options: CorrelationSearchOptions
+): Array<T & { qValue: number }> {
+    const qValues = adjustPValues(tested.map((pair) => pair.pValue));
+    return tested
+        .map((pair, i) => ({ ...pair, qValue: qValues[i] }))
+        .filter(
+            (pair) =>
+                Math.abs(pair.correlation) >= options.threshold &&
+                pair.confidence > 0.3 &&
+                (!options.significantOnly || pair.qValue <= SIGNIFICANCE_LEVEL)
+        )
+        .sort((a, b) => Math.abs(b.correlation) - Math.abs(a.correlation));
 }
 
 /**
  * Find markets with strongest correlations to the target market.
+ * With `maxLag` > 0, each pair is scored at its best lead/lag offset.
  */
 export function findCorrelatedMarkets(
     targetMarketId: string,
     allHistories: Map<string, PriceHistoryPoint[]>,
-    options: {
-        threshold: number; // Min |correlation| to include
-        maxResults: number;
-    }
+    options: CorrelationSearchOptions & { maxResults: number }
 ): CorrelationEdge[] {
     const targetHistory = allHistories.get(targetMarketId);
     if (!targetHistory || targetHistory.length < 5) {
         return [];
     }
 
-    const correlations: CorrelationEdge[] = [];
-
+    const tested: Array<TestedPair & { targetId: string }> = [];
     for (const [marketId, history] of allHistories) {
         if (marketId === targetMarketId) continue;
-        if (history.length < 5) continue;
+        const result = testPair(targetHistory, history, options);
+        if (result) tested.push({ ...result, targetId: marketId });
+    }
 
-        const result = computeCorrelation(targetHistory, history);
+    return selectSignificant(tested, options).slice(0, options.maxResults);
+}
 
-        if (Math.abs(result.correlation) >= options.threshold && result.confidence > 0.3) {
-            correlations.push({
-                targetId: marketId,
-                correlation: result.correlation,
-                confidence: result.confidence,
-                n: result.n,
-            });
+export type TestedMarketPair = TestedPair & { sourceId: string; targetId: string };
+
+/**
+ * Test every pair of markets at its best lag (global mode). This is the
+ * expensive step, so it is kept apart from the threshold and significance
+ * filters in `selectCorrelatedPairs`. Each result is oriented from `sourceId`,
+ * so a positive lag means the source leads.
+ */
+export function testAllPairs(
+    allHistories: Map<string, PriceHistoryPoint[]>,
+    options: Pick<CorrelationSearchOptions, 'maxLag' | 'method'>
+): TestedMarketPair[] {
+    const entries = Array.from(allHistories.entries());
+    const tested: TestedMarketPair[] = [];
+
+    for (let i = 0; i < entries.length; i++) {
+        for (let j = i + 1; j < entries.length; j++) {
+            const result = testPair(entries[i][1], entries[j][1], options);
+            if (result) tested.push({ ...result, sourceId: entries[i][0], targetId: entries[j][0] });
         }
     }
 
-    // Sort by absolute correlation strength
-    correlations.sort((a, b) => Math.abs(b.correlation) - Math.abs(a.correlation));
+    return tested;
+}
 
-    return correlations.slice(0, options.maxResults);
+/**
+ * The tested pairs that pass the filters. The false discovery rate is
+ * controlled across all pairs tested.
+ */
+export function selectCorrelatedPairs(
+    tested: TestedMarketPair[],
+    options: CorrelationSearchOptions
+): Array<CorrelationEdge & { sourceId: string }> {
+    return selectSignificant(tested, options);
 }
 
 /**
@@ -226,6 +611,8 @@ export function findStructuralDependencies(
         const targetMarket = event.markets.find((m) => m.id === targetMarketId);
         if (!targetMarket) continue;
 
+        const overround = computeOverround(event);
+
         // Add all sibling markets as structurally dependent
         for (const market of event.markets) {
             if (market.id === targetMarketId) continue;
@@ -238,7 +625,10 @@ export function findStructuralDependencies(
                 weight: 0.5, // Base weight for structural dependencies
                 sharedEventId: event.id,
                 sharedEventTitle: event.title,
-                explanation: `Both markets are part of "${event.title}"`,
+                overround: overround ?? undefined,
+                explanation: overround !== null
+                    ? `Mutually exclusive outcomes of "${event.title}"`
+                    : `Both markets are part of "${event.title}"`,
             });
         }
 
@@ -248,17 +638,40 @@ export function findStructuralDependencies(
     return edges;
 }
 
+export function getMethodLabel(method: CorrelationMethod): string {
+    return CORRELATION_METHODS.find((option) => option.id === method)?.label || method;
+}
+
+/**
+ * Human-readable lag duration, e.g. "45m" or "2h".
+ */
+export function formatLag(lagMs: number): string {
+    const minutes = Math.round(lagMs / 60000);
+    if (minutes < 60) return `${minutes}m`;
+    const hours = minutes / 60;
+    return hours < 48 ? `${Number(hours.toFixed(1))}h` : `${Math.round(hours / 24)}d`;
+}
+
 /**
  * Build correlation edges from correlation results.
  */
 export function buildCorrelationEdges(
     sourceMarketId: string,
     correlations: CorrelationEdge[],
-    timeWindow: TimeWindow
+    timeWindow: TimeWindow,
+    customRange?: TimeRange | null,
+    method: CorrelationMethod = 'pearson'
 ): DependencyEdge[] {
+    const timeRange = timeWindow === 'custom' && customRange ? customRange : undefined;
+    const windowLabel = formatTimeWindow(timeWindow, customRange);
+    const methodLabel = method === 'pearson' ? '' : ` ${getMethodLabel(method)}`;
+
     return correlations.map((corr) => {
         const direction = corr.correlation > 0 ? 'positive' : 'negative';
         const strength = Math.abs(corr.correlation);
+        const leaderId =
+            corr.lagSteps > 0 ? sourceMarketId : corr.lagSteps < 0 ? corr.targetId : undefined;
+        const leadNote = leaderId ? `, ${formatLag(corr.lagMs)} lag` : '';
 
         return {
             id: `${sourceMarketId}-${corr.targetId}`,
@@ -268,7 +681,13 @@ export function buildCorrelationEdges(
             weight: strength,
             correlation: corr.correlation,
             timeWindow,
-            explanation: `${(corr.correlation * 100).toFixed(0)}% ${direction} correlation (${timeWindow}, n=${corr.n})`,
+            timeRange,
+            lagMs: leaderId ? corr.lagMs : 0,
+            leaderId,
+            pValue: corr.pValue,
+            qValue: corr.qValue,
+            correlationMethod: method,
+            explanation: `${(corr.correlation * 100).toFixed(0)}% ${direction}${methodLabel} correlation (${windowLabel}, n=${corr.n}${leadNote})`,
         };
     });
 }
@@ -0,0 +1,137 @@
+import {
+    ChangeRecord,
+    ClosedMarketChange,
+    MarketNode,
+    NewMarketChange,
+    ProbabilityChange,
+    ProcessedEvent,
+    VolumeSpikeChange,
+} from './types';
+
+// ============================================
+// Poll-to-Poll Diff Engine
+// ============================================
+
+export interface DiffOptions {
+    minProbabilityDelta: number; // Min |Δp| to report a probability jump
+    volumeSpikeRatio: number; // Min (volume added / expected volume) to report a spike
+    minVolumeSpike: number; // Ignore spikes smaller than this many dollars
+}
+
+const DEFAULT_OPTIONS: DiffOptions = {
+    minProbabilityDelta: 0.02,
+    volumeSpikeRatio: 5,
+    minVolumeSpike: 1000,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface IndexedMarket {
+    market: MarketNode;
+    event: ProcessedEvent;
+}
+
+function indexMarkets(events: ProcessedEvent[]): Map<string, IndexedMarket> {
+    const index = new Map<string, IndexedMarket>();
+    for (const event of events) {
+        for (const market of event.markets) {
+            index.set(market.id, { market, event });
+        }
+    }
+    return index;
+}
+
+function baseChange(
+    kind: ChangeRecord['kind'],
+    { market, event }: IndexedMarket,
+    timestamp: number
+) {
+    return {
+        id: `${kind}-${market.id}-${timestamp}`,
+        timestamp,
+        marketId: market.id,
+        eventId: event.id,
+        eventTitle: event.title,
+        categoryId: event.categoryId,
+        question: market.question,
+    };
+}
+
+/**
+ * Compare two consecutive polls and emit typed change records.
+ *
+ * `intervalMs` is the time between the polls; it scales the volume a market
+ * is expected to trade at its 24h rate when detecting spikes.
+ * Records are sorted by significance within each kind (largest first).
+ */
+export function diffEvents(
+    previous: ProcessedEvent[],
+    next: ProcessedEvent[],
+    timestamp: number,
+    intervalMs: number,
+    options: Partial<DiffOptions> = {}
+): ChangeRecord[] {
+    const opts = { ...DEFAULT_OPTIONS, ...options };
+    const prevIndex = indexMarkets(previous);
+    const nextIndex = indexMarkets(next);
+
+    const probabilityChanges: ProbabilityChange[] = [];
+    const volumeSpikes: VolumeSpikeChange[] = [];
+    const newMarkets: NewMarketChange[] = [];
+    const closedMarkets: ClosedMarketChange[] = [];
+
+    for (const [marketId, current] of nextIndex) {
+        const before = prevIndex.get(marketId);
+
+        if (!before) {
+            newMarkets.push({
+                ...baseChange('new-market', current, timestamp),
+                kind: 'new-market',
+                outcomeProb: current.market.outcomeProb,
+                volume: current.market.volume,
+            });
+            continue;
+        }
+
+        const delta = current.market.outcomeProb - before.market.outcomeProb;
+        if (Math.abs(delta) >= opts.minProbabilityDelta) {
+            probabilityChanges.push({
+                ...baseChange('probability', current, timestamp),
+                kind: 'probability',
+                from: before.market.outcomeProb,
+                to: current.market.outcomeProb,
+                delta,
+            });
+        }
+
+        const volumeAdded = current.market.volume - before.market.volume;
+        const expectedVolume = ((current.market.volume24hr || 0) / DAY_MS) * intervalMs;
+        if (volumeAdded >= opts.minVolumeSpike) {
+            // Markets with no 24h volume are measured against a $1 floor
+            const ratio = volumeAdded / Math.max(expectedVolume, 1);
+            if (ratio >= opts.volumeSpikeRatio) {
+                volumeSpikes.push({
+                    ...baseChange('volume-spike', current, timestamp),
+                    kind: 'volume-spike',
+                    volumeAdded,
+                    expectedVolume,
+                    ratio,
+                });
+            }
+        }
+    }
+
+    for (const [marketId, before] of prevIndex) {
+        if (nextIndex.has(marketId)) continue;
+        closedMarkets.push({
+            ...baseChange('closed-market', before, timestamp),
+            kind: 'closed-market',
+            lastProb: before.market.outcomeProb,
+        });
+    }
+
+    probabilityChanges.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+    volumeSpikes.sort((a, b) => b.ratio - a.ratio);
+
+    return [...probabilityChanges, ...volumeSpikes, ...newMarkets, ...closedMarkets];
+}
@@ -1,144 +1,146 @@
 import { DependencyEdge, MarketNode, ProcessedEvent } from './types';
 
+import registryData from './data/entities.json';
+
 /**
  * Entity types that can be extracted from market text
  */
 export type EntityType = 'person' | 'company' | 'crypto' | 'country' | 'organization';
 
+export interface EntityMetadata {
+    country?: string; // ISO 3166 alpha-2 code; a country's own code for countries
+    role?: string; // Short description for people, e.g. "CEO of OpenAI"
+    ticker?: string; // Stock or token ticker
+}
+
+/**
+ * A canonical entity in the registry. Every alias resolves to the same id, so
+ * "Trump", "Donald Trump" and "DJT" are one entity.
+ */
+export interface EntityRecord {
+    id: string; // Canonical id, e.g. "donald-trump"
+    name: string; // Display name
+    type: EntityType;
+    aliases: string[]; // Other spellings matched in text; the name always matches too
+    metadata?: EntityMetadata;
+}
+
 export interface ExtractedEntity {
-    name: string;
+    id: string; // Canonical registry id
+    name: string; // Canonical display name
     type: EntityType;
-    normalized: string; // lowercase for matching
+    alias: string; // The text that matched, as written in the registry
 }
 
 // ============================================================================
-// Entity Dictionaries - Curated lists for reliable extraction
+// Entity Registry - Curated canonical entities loaded from data/entities.json
 // ============================================================================
 
-const POLITICAL_FIGURES: readonly string[] = [
-    // US Politicians
-    'Trump', 'Biden', 'Harris', 'DeSantis', 'Newsom', 'Obama', 'Pence',
-    'RFK Jr', 'Robert Kennedy', 'Vivek', 'Ramaswamy', 'Haley', 'Nikki Haley',
-    'AOC', 'Ocasio-Cortez', 'Pelosi', 'McConnell', 'Schumer', 'McCarthy',
-    // Tech Leaders
-    'Musk', 'Elon Musk', 'Zuckerberg', 'Bezos', 'Gates', 'Bill Gates',
-    'Altman', 'Sam Altman', 'Satya Nadella', 'Tim Cook', 'Sundar Pichai',
-    // World Leaders
-    'Putin', 'Xi Jinping', 'Xi', 'Zelensky', 'Netanyahu', 'Modi',
-    'Macron', 'Scholz', 'Trudeau', 'Lula', 'Milei', 'Kim Jong Un',
-    // Sports/Entertainment
-    'Taylor Swift', 'Beyonce', 'Drake', 'Kanye', 'Ye', 'LeBron',
-    'Messi', 'Ronaldo', 'MrBeast',
-];
-
-const COMPANIES: readonly string[] = [
-    // Big Tech
-    'Apple', 'Google', 'Alphabet', 'Microsoft', 'Amazon', 'Tesla', 'Meta',
-    'Nvidia', 'Netflix', 'Disney', 'Uber', 'Airbnb', 'Salesforce',
-    // AI Companies
-    'OpenAI', 'Anthropic', 'DeepMind', 'Midjourney', 'Stability AI',
-    // Social/Media
-    'Twitter', 'X Corp', 'TikTok', 'ByteDance', 'Reddit', 'Snap', 'Pinterest',
-    'YouTube', 'Twitch', 'Spotify',
-    // Space/Auto
-    'SpaceX', 'Blue Origin', 'Virgin Galactic', 'Rivian', 'Lucid', 'Ford', 'GM',
-    // Finance
-    'Goldman Sachs', 'JPMorgan', 'Morgan Stanley', 'BlackRock', 'Citadel',
-    'Robinhood', 'Coinbase', 'Binance', 'FTX', 'Stripe', 'Visa', 'Mastercard',
-    // Pharma/Health
-    'Pfizer', 'Moderna', 'Johnson & Johnson', 'Merck', 'Eli Lilly', 'Novo Nordisk',
-];
-
-const CRYPTO_ASSETS: readonly string[] = [
-    // Major Cryptos
-    'Bitcoin', 'BTC', 'Ethereum', 'ETH', 'Solana', 'SOL',
-    'XRP', 'Ripple', 'Cardano', 'ADA', 'Polkadot', 'DOT',
-    'Avalanche', 'AVAX', 'Polygon', 'MATIC', 'Chainlink', 'LINK',
-    // Meme Coins
-    'Dogecoin', 'DOGE', 'Shiba Inu', 'SHIB', 'Pepe', 'PEPE',
-    // Stablecoins
-    'Tether', 'USDT', 'USDC', 'DAI',
-    // DeFi/NFT
-    'Uniswap', 'UNI', 'Aave', 'OpenSea', 'Blur',
-];
-
-const COUNTRIES: readonly string[] = [
-    'United States', 'US', 'USA', 'America',
-    'China', 'Chinese', 'Russia', 'Russian', 'Ukraine', 'Ukrainian',
-    'Israel', 'Israeli', 'Palestine', 'Palestinian', 'Gaza',
-    'Iran', 'Iranian', 'North Korea', 'South Korea', 'Korea',
-    'Taiwan', 'Japan', 'Japanese', 'India', 'Indian',
-    'UK', 'Britain', 'British', 'Germany', 'German', 'France', 'French',
-    'Brazil', 'Brazilian', 'Mexico', 'Mexican', 'Canada', 'Canadian',
-    'Australia', 'Australian', 'Saudi Arabia', 'Saudi',
-];
-
-const ORGANIZATIONS: readonly string[] = [
-    // US Government
-    'Federal Reserve', 'Fed', 'Treasury', 'SEC', 'FDA', 'FTC', 'DOJ',
-    'Supreme Court', 'SCOTUS', 'Congress', 'Senate', 'House',
-    'White House', 'Pentagon', 'CIA', 'FBI', 'NSA',
-    // International
-    'ECB', 'Bank of England', 'NATO', 'UN', 'United Nations',
-    'WHO', 'World Health Organization', 'IMF', 'World Bank',
-    'EU', 'European Union', 'OPEC', 'WTO',
-    // Other
-    'NCAA', 'NFL', 'NBA', 'MLB', 'FIFA', 'UFC',
-    'Academy Awards', 'Oscars', 'Grammy', 'Emmy',
-];
-
-// Create word boundary regex patterns for accurate matching
-function createEntityMatcher(entities: readonly string[]): Map<string, { pattern: RegExp; name: string }> {
-    const matchers = new Map<string, { pattern: RegExp; name: string }>();
+const ENTITY_REGISTRY: readonly EntityRecord[] = registryData as EntityRecord[];
+
+const ENTITIES_BY_ID = new Map(ENTITY_REGISTRY.map((entity) => [entity.id, entity]));
+
+// Lowercase alias (and name, and id) -> canonical entity
+const ENTITIES_BY_ALIAS = new Map<string, EntityRecord>();
+for (const entity of ENTITY_REGISTRY) {
+    for (const alias of [entity.id, entity.name, ...entity.aliases]) {
+        ENTITIES_BY_ALIAS.set(alias.toLowerCase(), entity);
+    }
+}
+
+/**
+ * Look up a registry entity by canonical id.
+ */
+export function getEntity(id: string): EntityRecord | undefined {
+    return ENTITIES_BY_ID.get(id);
+}
+
+/**
+ * Resolve free text ("DJT", "donald trump", "donald-trump") to its canonical
+ * entity, or undefined when it is not a known name or alias.
+ */
+export function resolveEntity(text: string): EntityRecord | undefined {
+    return ENTITIES_BY_ALIAS.get(text.trim().toLowerCase());
+}
+
+interface AliasMatcher {
+    pattern: RegExp;
+    alias: string;
+    entity: EntityRecord;
+}
+
+// Create word boundary regex patterns for accurate matching. All-caps aliases
+// (tickers, acronyms like "US" or "WHO") match case-sensitively so they do not
+// fire on ordinary words.
+function createAliasMatchers(entities: readonly EntityRecord[]): AliasMatcher[] {
+    const matchers: AliasMatcher[] = [];
 
     for (const entity of entities) {
-        // Create case-insensitive word boundary pattern
-        // Handle special characters in entity names
-        const escaped = entity.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-        const pattern = new RegExp(`\\b${escaped}\\b`, 'i');
-        const normalized = entity.toLowerCase();
-        matchers.set(normalized, { pattern, name: entity });
+        for (const alias of new Set([entity.name, ...entity.aliases])) {
+            // Handle special characters in entity names
+            const escaped = alias.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+            const flags = alias === alias.toUpperCase() ? 'g' : 'gi';
+            const pattern = new RegExp(`(^|[^\\w])(${escaped})(?![\\w])`, flags);
+            matchers.push({ pattern, alias, entity });
+        }
     }
 
-    return matchers;
+    // Longest first, so "North Korea" claims its text before "Korea" can
+    return matchers.sort((a, b) => b.alias.length - a.alias.length);
 }
 
 // Pre-compile patterns for performance
-const PERSON_MATCHERS = createEntityMatcher(POLITICAL_FIGURES);
-const COMPANY_MATCHERS = createEntityMatcher(COMPANIES);
-const CRYPTO_MATCHERS = createEntityMatcher(CRYPTO_ASSETS);
-const COUNTRY_MATCHERS = createEntityMatcher(COUNTRIES);
-const ORG_MATCHERS = createEntityMatcher(ORGANIZATIONS);
+const ALIAS_MATCHERS = createAliasMatchers(ENTITY_REGISTRY);
+
+// The same questions and titles are scanned once per market pair; cache by text
+const EXTRACTION_CACHE = new Map<string, ExtractedEntity[]>();
+const MAX_CACHED_TEXTS = 5000;
 
 /**
- * Extract named entities from text using dictionary matching.
- * Uses word boundary matching to avoid partial matches.
+ * Extract named entities from text using registry alias matching.
+ * Uses word boundary matching to avoid partial matches; text claimed by a
+ * longer alias is not matched again by a shorter one. Each canonical entity
+ * appears once, however many of its aliases occur.
  */
 export function extractEntities(text: string): ExtractedEntity[] {
+    const cached = EXTRACTION_CACHE.get(text);
+    if (cached) return [...cached];
+
     const entities: ExtractedEntity[] = [];
     const seen = new Set<string>(); // Avoid duplicates
+    let remaining = text;
 
-    // Helper to add entities from a matcher
-    const matchEntities = (
-        matchers: Map<string, { pattern: RegExp; name: string }>,
-        type: EntityType
-    ) => {
-        for (const [normalized, { pattern, name }] of matchers) {
-            if (!seen.has(normalized) && pattern.test(text)) {
-                seen.add(normalized);
-                entities.push({ name, type, normalized });
-            }
+    for (const { pattern, alias, entity } of ALIAS_MATCHERS) {
+        let matched = false;
+        remaining = remaining.replace(pattern, (_, before: string, found: string) => {
+            matched = true;
+            return before + ' '.repeat(found.length);
+        });
+
+        if (matched && !seen.has(entity.id)) {
+            seen.add(entity.id);
+            entities.push({ id: entity.id, name: entity.name, type: entity.type, alias });
         }
-    };
+    }
+
+    if (EXTRACTION_CACHE.size >= MAX_CACHED_TEXTS) EXTRACTION_CACHE.clear();
+    EXTRACTION_CACHE.set(text, entities);
+    return [...entities];
+}
 
-    // Match against all dictionaries
-    matchEntities(PERSON_MATCHERS, 'person');
-    matchEntities(COMPANY_MATCHERS, 'company');
-    matchEntities(CRYPTO_MATCHERS, 'crypto');
-    matchEntities(COUNTRY_MATCHERS, 'country');
-    matchEntities(ORG_MATCHERS, 'organization');
+function buildEntityEdge(sourceId: string, targetId: string, sharedIds: string[]): DependencyEdge {
+    // Get display names for shared entities
+    const sharedNames = sharedIds.map(id => getEntity(id)?.name || id);
 
-    return entities;
+    return {
+        id: `entity-${sourceId}-${targetId}`,
+        sourceId,
+        targetId,
+        type: 'entity',
+        weight: Math.min(1, sharedIds.length * 0.3), // 0.3 per shared entity, capped at 1.0
+        sharedEntities: sharedNames,
+        explanation: `Both mention: ${sharedNames.join(', ')}`,
+    };
 }
 
 /**
@@ -155,7 +157,7 @@ export function findEntityBasedDependencies(
     if (targetEntities.length === 0) return [];
 
     const edges: DependencyEdge[] = [];
-    const targetNormalized = new Set(targetEntities.map(e => e.normalized));
+    const targetIds = new Set(targetEntities.map(e => e.id));
 
     for (const market of allMarkets) {
         if (market.id === targetMarketId) continue;
@@ -167,29 +169,12 @@ export function findEntityBasedDependencies(
             marketEntities.push(...extractEntities(event.title));
         }
 
-        // Find shared entities (by normalized name)
-        const marketNormalized = new Set(marketEntities.map(e => e.normalized));
-        const sharedNormalized = [...targetNormalized].filter(n => marketNormalized.has(n));
-
-        if (sharedNormalized.length >= options.minSharedEntities) {
-            // Get display names for shared entities
-            const sharedNames = sharedNormalized.map(n => {
-                const entity = targetEntities.find(e => e.normalized === n);
-                return entity?.name || n;
-            });
-
-            // Weight: 0.3 per shared entity, capped at 1.0
-            const weight = Math.min(1, sharedNormalized.length * 0.3);
-
-            edges.push({
-                id: `entity-${targetMarketId}-${market.id}`,
-                sourceId: targetMarketId,
-                targetId: market.id,
-                type: 'entity',
-                weight,
-                sharedEntities: sharedNames,
-                explanation: `Both mention: ${sharedNames.join(', ')}`,
-            });
+        // Find shared entities (by canonical id, so aliases match each other)
+        const marketIds = new Set(marketEntities.map(e => e.id));
+        const sharedIds = [...targetIds].filter(id => marketIds.has(id));
+
+        if (sharedIds.length >= options.minSharedEntities) {
+            edges.push(buildEntityEdge(targetMarketId, market.id, sharedIds));
         }
     }
 
@@ -198,37 +183,110 @@ export function findEntityBasedDependencies(
 }
 
 /**
- * Get all unique entities across all markets.
- * Useful for debugging and analysis.
+ * Entity edges across a whole market set (global mode). Markets are looked up
+ * per entity rather than compared pairwise; each keeps up to `maxPerMarket`
+ * edges, most shared entities first, then by volume.
  */
-export function getAllEntities(
-    events: ProcessedEvent[]
-): Map<string, { count: number; type: EntityType; markets: string[] }> {
-    const entityStats = new Map<string, { count: number; type: EntityType; markets: string[] }>();
+export function findSharedEntityPairs(
+    allMarkets: MarketNode[],
+    events: ProcessedEvent[],
+    options: { minSharedEntities: number; maxPerMarket: number }
+): DependencyEdge[] {
+    const eventTitles = new Map(events.map((e) => [e.id, e.title]));
+    const entityIds = allMarkets.map((market) => {
+        const title = market.eventId ? eventTitles.get(market.eventId) : undefined;
+        const entities = [...extractEntities(market.question), ...(title ? extractEntities(title) : [])];
+        return new Set(entities.map((e) => e.id));
+    });
+
+    const marketsByEntity = new Map<string, number[]>();
+    entityIds.forEach((ids, i) => {
+        for (const id of ids) {
+            if (!marketsByEntity.has(id)) marketsByEntity.set(id, []);
+            marketsByEntity.get(id)!.push(i);
+        }
+    });
+
+    const edges: DependencyEdge[] = [];
+
+    allMarkets.forEach((market, i) => {
+        const sharedByMarket = new Map<number, string[]>();
+        for (const id of entityIds[i]) {
+            for (const j of marketsByEntity.get(id)!) {
+                if (j === i) continue;
+                if (!sharedByMarket.has(j)) sharedByMarket.set(j, []);
+                sharedByMarket.get(j)!.push(id);
+            }
+        }
+
+        Array.from(sharedByMarket)
+            .filter(([, sharedIds]) => sharedIds.length >= options.minSharedEntities)
+            .sort(([a, sharedA], [b, sharedB]) =>
+                sharedB.length - sharedA.length || allMarkets[b].volume - allMarkets[a].volume
+            )
+            .slice(0, options.maxPerMarket)
+            .forEach(([j, sharedIds]) => edges.push(buildEntityEdge(market.id, allMarkets[j].id, sharedIds)));
+    });
+
+    return edges;
+}
+
+export interface EntityProfile {
+    entity: EntityRecord;
+    markets: MarketNode[]; // Markets whose question or event title mentions the entity, by volume
+    eventIds: string[];
+    volume: number;
+    volume24h: number;
+    categoryMix: Array<{ categoryId: string; volume: number; marketCount: number }>; // Largest first
+}
+
+/**
+ * Every entity mentioned by at least one market, with the markets that
+ * mention it and their combined volume. Largest volume first.
+ */
+export function getEntityProfiles(events: ProcessedEvent[]): EntityProfile[] {
+    const profiles = new Map<string, EntityProfile>();
 
     for (const event of events) {
-        const eventEntities = extractEntities(event.title);
+        const eventEntityIds = extractEntities(event.title).map(e => e.id);
 
         for (const market of event.markets) {
-            const marketEntities = [...eventEntities, ...extractEntities(market.question)];
-
-            for (const entity of marketEntities) {
-                const existing = entityStats.get(entity.normalized);
-                if (existing) {
-                    existing.count++;
-                    if (!existing.markets.includes(market.id)) {
-                        existing.markets.push(market.id);
-                    }
+            const ids = new Set([...eventEntityIds, ...extractEntities(market.question).map(e => e.id)]);
+
+            for (const id of ids) {
+                let profile = profiles.get(id);
+                if (!profile) {
+                    profile = {
+                        entity: getEntity(id)!,
+                        markets: [],
+                        eventIds: [],
+                        volume: 0,
+                        volume24h: 0,
+                        categoryMix: [],
+                    };
+                    profiles.set(id, profile);
+                }
+
+                profile.markets.push(market);
+                if (!profile.eventIds.includes(event.id)) profile.eventIds.push(event.id);
+                profile.volume += market.volume;
+                profile.volume24h += market.volume24hr || 0;
+
+                const mix = profile.categoryMix.find(c => c.categoryId === event.categoryId);
+                if (mix) {
+                    mix.volume += market.volume;
+                    mix.marketCount++;
                 } else {
-                    entityStats.set(entity.normalized, {
-                        count: 1,
-                        type: entity.type,
-                        markets: [market.id],
-                    });
+                    profile.categoryMix.push({ categoryId: event.categoryId, volume: market.volume, marketCount: 1 });
                 }
             }
         }
     }
 
-    return entityStats;
+    for (const profile of profiles.values()) {
+        profile.markets.sort((a, b) => b.volume - a.volume);
+        profile.categoryMix.sort((a, b) => b.volume - a.volume || b.marketCount - a.marketCount);
+    }
+
+    return Array.from(profiles.values()).sort((a, b) => b.volume - a.volume);
 }
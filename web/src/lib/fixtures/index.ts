@@ -0,0 +1,317 @@
+import { RawPolymarketEvent, RawPolymarketMarket } from '../types';
+import { UpstreamError } from '../responseCache';
+import eventsFixture from './events.json';
+import priceHistoryFixture from './prices-history.json';
+
+// ============================================
+// Offline Fixtures
+// ============================================
+//
+// Recorded Gamma and CLOB payloads served by the proxy routes when
+// POLYMARKET_FIXTURES is enabled. The handlers mimic the upstream query
+// semantics the app relies on (filters, ordering, limit/offset paging).
+// Order books and data-api trades are synthesized around each recorded
+// token's latest price.
+// Unknown price-history or book tokens answer 404, and `fixture_error=<status>` on a
+// forwarded query (e.g. /api/events?fixture_error=503) forces an error response.
+
+type FixtureService = 'gamma' | 'clob' | 'data';
+
+interface RawPriceHistory {
+    history: Array<{ t: number; p: number }>;
+}
+
+interface RawBookLevel {
+    price: string;
+    size: string;
+}
+
+interface RawOrderBook {
+    market: string;
+    asset_id: string;
+    timestamp: string;
+    bids: RawBookLevel[];
+    asks: RawBookLevel[];
+    tick_size: string;
+}
+
+interface RawTrade {
+    side: 'BUY' | 'SELL';
+    asset: string;
+    conditionId: string;
+    size: number;
+    price: number;
+    timestamp: number; // seconds
+    transactionHash: string;
+    pseudonym: string;
+}
+
+const EVENTS = eventsFixture as unknown as RawPolymarketEvent[];
+const PRICE_HISTORIES = priceHistoryFixture as Record<string, RawPriceHistory>;
+
+const HOUR_S = 60 * 60;
+
+// CLOB interval names -> lookback in seconds
+const INTERVAL_SECONDS: Record<string, number> = {
+    '1h': HOUR_S,
+    '6h': 6 * HOUR_S,
+    '1d': 24 * HOUR_S,
+    '1w': 7 * 24 * HOUR_S,
+    '1m': 30 * 24 * HOUR_S,
+};
+
+const BOOK_TICK = 0.01;
+const BOOK_LEVELS = 12;
+const TRADE_COUNT = 80;
+const TRADE_SPAN_S = 6 * HOUR_S;
+const TRADER_NAMES = ['Quiet-Heron', 'Brisk-Otter', 'Amber-Falcon', 'Lucky-Marten', 'Calm-Ibis'];
+
+const STATUS_TEXT: Record<number, string> = {
+    400: 'Bad Request',
+    404: 'Not Found',
+    429: 'Too Many Requests',
+    500: 'Internal Server Error',
+    502: 'Bad Gateway',
+    503: 'Service Unavailable',
+};
+
+function fixtureError(status: number, details?: string): UpstreamError {
+    return new UpstreamError(STATUS_TEXT[status] || 'Fixture Error', status, details);
+}
+
+function parseBooleanParam(params: URLSearchParams, name: string): boolean | undefined {
+    const value = params.get(name);
+    if (value === null) return undefined;
+    return value === 'true';
+}
+
+/**
+ * Apply the Gamma list query params shared by /events and /markets.
+ */
+function applyListQuery<T extends { volume?: string; active?: boolean; closed?: boolean }>(
+    items: T[],
+    params: URLSearchParams
+): T[] {
+    const active = parseBooleanParam(params, 'active');
+    const closed = parseBooleanParam(params, 'closed');
+    const volumeMin = Number(params.get('volume_min') || 0);
+
+    let result = items.filter((item) => {
+        if (active !== undefined && (item.active ?? true) !== active) return false;
+        if (closed !== undefined && (item.closed ?? false) !== closed) return false;
+        return Number(item.volume || 0) >= volumeMin;
+    });
+
+    // Gamma accepts both `order=-volume` and `order=volume&ascending=false`
+    const order = params.get('order');
+    if (order === 'volume' || order === '-volume') {
+        const ascending = order === 'volume' && params.get('ascending') !== 'false';
+        result = [...result].sort((a, b) => {
+            const diff = Number(a.volume || 0) - Number(b.volume || 0);
+            return ascending ? diff : -diff;
+        });
+    }
+
+    const offset = Number(params.get('offset') || 0);
+    const limit = Number(params.get('limit') || result.length);
+    return result.slice(offset, offset + limit);
+}
+
+function getEvents(params: URLSearchParams): RawPolymarketEvent[] {
+    return applyListQuery(EVENTS, params);
+}
+
+function getMarkets(params: URLSearchParams): RawPolymarketMarket[] {
+    const markets = EVENTS.flatMap((event) =>
+        (event.markets || []).map((market) => ({
+            ...market,
+            eventSlug: event.slug,
+            active: event.active,
+            closed: event.closed,
+        }))
+    );
+    return applyListQuery(markets, params);
+}
+
+/**
+ * Serve a recorded price history. Timestamps are shifted so the last point
+ * lands on the current hour, keeping relative windows (1h, 1d, ...) populated.
+ */
+function getPriceHistory(params: URLSearchParams): RawPriceHistory {
+    const tokenId = params.get('market');
+    if (!tokenId) {
+        throw fixtureError(400, 'Missing market parameter');
+    }
+
+    const recorded = PRICE_HISTORIES[tokenId];
+    if (!recorded || recorded.history.length === 0) {
+        throw fixtureError(404, `No fixture price history for token ${tokenId}`);
+    }
+
+    const nowHour = Math.floor(Date.now() / 1000 / HOUR_S) * HOUR_S;
+    const shift = nowHour - recorded.history[recorded.history.length - 1].t;
+    let history = recorded.history.map((point) => ({ t: point.t + shift, p: point.p }));
+
+    const startTs = params.get('startTs');
+    const endTs = params.get('endTs');
+    const interval = params.get('interval');
+
+    if (startTs || endTs) {
+        const start = Number(startTs || 0);
+        const end = Number(endTs || Infinity);
+        history = history.filter((point) => point.t >= start && point.t <= end);
+    } else if (interval && INTERVAL_SECONDS[interval]) {
+        const start = nowHour - INTERVAL_SECONDS[interval];
+        history = history.filter((point) => point.t >= start);
+    }
+
+    // Downsample to the requested fidelity (minutes between points)
+    const fidelitySeconds = Number(params.get('fidelity') || 0) * 60;
+    if (fidelitySeconds > 0) {
+        const sampled: RawPriceHistory['history'] = [];
+        for (const point of history) {
+            const last = sampled[sampled.length - 1];
+            if (!last || point.t - last.t >= fidelitySeconds) {
+                sampled.push(point);
+            }
+        }
+        history = sampled;
+    }
+
+    return { history };
+}
+
+/**
+ * Small deterministic PRNG so a token's synthetic book is stable across requests.
+ */
+function seededRandom(seed: string): () => number {
+    let state = 0;
+    for (let i = 0; i < seed.length; i++) {
+        state = (state * 31 + seed.charCodeAt(i)) >>> 0;
+    }
+    return () => {
+        state = (state * 1664525 + 1013904223) >>> 0;
+        return state / 2 ** 32;
+    };
+}
+
+/**
+ * Build a CLOB-shaped order book around the token's last recorded price.
+ * Levels are listed the way CLOB does: bids ascending, asks descending.
+ */
+function getOrderBook(params: URLSearchParams): RawOrderBook {
+    const tokenId = params.get('token_id');
+    if (!tokenId) {
+        throw fixtureError(400, 'Missing token_id parameter');
+    }
+
+    const recorded = PRICE_HISTORIES[tokenId];
+    if (!recorded || recorded.history.length === 0) {
+        throw fixtureError(404, `No fixture order book for token ${tokenId}`);
+    }
+
+    const random = seededRandom(tokenId);
+    const last = recorded.history[recorded.history.length - 1].p;
+    const bestBid = Math.max(BOOK_TICK, Math.floor(last / BOOK_TICK) * BOOK_TICK);
+    const bestAsk = Math.min(1 - BOOK_TICK, bestBid + BOOK_TICK * (1 + Math.floor(random() * 3)));
+
+    const levels = (start: number, step: number): RawBookLevel[] => {
+        const result: RawBookLevel[] = [];
+        for (let i = 0; i < BOOK_LEVELS; i++) {
+            const price = start + step * i;
+            if (price <= 0 || price >= 1) break;
+            // Depth thickens away from the touch
+            const size = Math.round((200 + random() * 1500) * (1 + i * 0.4));
+            result.push({ price: price.toFixed(2), size: String(size) });
+        }
+        return result;
+    };
+
+    return {
+        market: tokenId,
+        asset_id: tokenId,
+        timestamp: String(Date.now()),
+        bids: levels(bestBid, -BOOK_TICK).reverse(),
+        asks: levels(bestAsk, BOOK_TICK).reverse(),
+        tick_size: String(BOOK_TICK),
+    };
+}
+
+/**
+ * Synthesize recent taker fills for a market (by condition id) from its
+ * tokens' recorded prices, spread over every outcome token. Roughly one in
+ * twenty fills is whale-sized.
+ */
+function getTrades(params: URLSearchParams): RawTrade[] {
+    const conditionId = params.get('market');
+    if (!conditionId) {
+        throw fixtureError(400, 'Missing market parameter');
+    }
+
+    const market = EVENTS.flatMap((event) => event.markets || []).find(
+        (m) => m.conditionId === conditionId
+    );
+    const tokenIds: string[] = market?.clobTokenIds ? JSON.parse(market.clobTokenIds) : [];
+    const yesHistory = PRICE_HISTORIES[tokenIds[0]]?.history;
+    if (!market || !yesHistory || yesHistory.length === 0) {
+        throw fixtureError(404, `No fixture trades for market ${conditionId}`);
+    }
+
+    // Binary NO trades at the complement of YES; other outcomes at their own price
+    const lastPrice = (index: number) => {
+        const history = PRICE_HISTORIES[tokenIds[index]]?.history;
+        if (history && history.length > 0) return history[history.length - 1].p;
+        return 1 - yesHistory[yesHistory.length - 1].p;
+    };
+
+    const random = seededRandom(conditionId);
+    const now = Math.floor(Date.now() / 1000);
+    const trades: RawTrade[] = [];
+
+    for (let i = 0; i < TRADE_COUNT; i++) {
+        const tokenIndex =
+            tokenIds.length > 2
+                ? Math.floor(random() * tokenIds.length)
+                : tokenIds.length < 2 || random() < 0.7 ? 0 : 1;
+        const price = Math.min(0.99, Math.max(0.01, lastPrice(tokenIndex) + (random() - 0.5) * 0.04));
+        const whale = random() < 0.05;
+        const size = Math.round((whale ? 15000 : 20) + random() * (whale ? 40000 : 1500));
+
+        trades.push({
+            side: random() < 0.5 ? 'BUY' : 'SELL',
+            asset: tokenIds[tokenIndex],
+            conditionId,
+            size,
+            price: Number(price.toFixed(3)),
+            timestamp: now - Math.floor((i / TRADE_COUNT) * TRADE_SPAN_S + random() * 60),
+            transactionHash: `0xfixture${conditionId.slice(2, 10)}${i.toString(16).padStart(4, '0')}`,
+            pseudonym: TRADER_NAMES[Math.floor(random() * TRADER_NAMES.length)],
+        });
+    }
+
+    const limit = Number(params.get('limit') || trades.length);
+    return trades.slice(0, limit);
+}
+
+/**
+ * Resolve an upstream request against the bundled fixtures.
+ * Throws UpstreamError for unknown paths and forced error cases.
+ */
+export function getFixtureResponse(
+    service: FixtureService,
+    path: string,
+    params: URLSearchParams
+): unknown {
+    const forcedStatus = Number(params.get('fixture_error'));
+    if (forcedStatus >= 400) {
+        throw fixtureError(forcedStatus, 'Forced fixture error');
+    }
+
+    if (service === 'gamma' && path === '/events') return getEvents(params);
+    if (service === 'gamma' && path === '/markets') return getMarkets(params);
+    if (service === 'clob' && path === '/prices-history') return getPriceHistory(params);
+    if (service === 'clob' && path === '/book') return getOrderBook(params);
+    if (service === 'data' && path === '/trades') return getTrades(params);
+
+    throw fixtureError(404, `No fixture for ${service} ${path}`);
+}
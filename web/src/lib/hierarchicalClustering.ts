@@ -0,0 +1,88 @@
+// ============================================
+// Types
+// ============================================
+
+export interface DendrogramNode {
+    id: number; // Leaves are 0..n-1 (item indices), merges count up from n
+    height: number; // Linkage distance at which the children merged (0 for leaves)
+    children?: [DendrogramNode, DendrogramNode];
+    size: number; // Number of leaves below
+}
+
+export interface ClusteringResult {
+    root: DendrogramNode | null;
+    order: number[]; // Item indices in dendrogram leaf order
+}
+
+// ============================================
+// Agglomerative Clustering
+// ============================================
+
+/**
+ * Average-linkage agglomerative clustering over a symmetric distance matrix.
+ * Repeatedly merges the two closest clusters, where cluster distance is the
+ * mean of all pairwise item distances (UPGMA). O(n³), fine for a few hundred
+ * items. Non-finite distances are treated as `missingDistance`.
+ */
+export function clusterDistanceMatrix(
+    distances: number[][],
+    missingDistance: number = 1
+): ClusteringResult {
+    const n = distances.length;
+    if (n === 0) return { root: null, order: [] };
+
+    const distance = (i: number, j: number) =>
+        Number.isFinite(distances[i][j]) ? distances[i][j] : missingDistance;
+
+    // Active clusters and the average distance between every pair of them
+    let clusters: DendrogramNode[] = Array.from({ length: n }, (_, i) => ({ id: i, height: 0, size: 1 }));
+    const between = new Map<string, number>();
+    const key = (a: number, b: number) => (a < b ? `${a}:${b}` : `${b}:${a}`);
+    for (let i = 0; i < n; i++) {
+        for (let j = i + 1; j < n; j++) {
+            between.set(key(i, j), distance(i, j));
+        }
+    }
+
+    let nextId = n;
+    while (clusters.length > 1) {
+        let best = { a: 0, b: 1, d: Infinity };
+        for (let a = 0; a < clusters.length; a++) {
+            for (let b = a + 1; b < clusters.length; b++) {
+                const d = between.get(key(clusters[a].id, clusters[b].id)) ?? missingDistance;
+                if (d < best.d) best = { a, b, d };
+            }
+        }
+
+        const left = clusters[best.a];
+        const right = clusters[best.b];
+        const merged: DendrogramNode = {
+            id: nextId++,
+            height: best.d,
+            children: [left, right],
+            size: left.size + right.size,
+        };
+
+        clusters = clusters.filter((_, i) => i !== best.a && i !== best.b);
+
+        // Average linkage: size-weighted mean of the children's distances
+        for (const other of clusters) {
+            const dLeft = between.get(key(left.id, other.id)) ?? missingDistance;
+            const dRight = between.get(key(right.id, other.id)) ?? missingDistance;
+            between.set(key(merged.id, other.id), (dLeft * left.size + dRight * right.size) / merged.size);
+        }
+
+        clusters.push(merged);
+    }
+
+    const root = clusters[0];
+    return { root, order: getLeafOrder(root) };
+}
+
+/**
+ * Leaf indices left to right.
+ */
+export function getLeafOrder(node: DendrogramNode): number[] {
+    if (!node.children) return [node.id];
+    return [...getLeafOrder(node.children[0]), ...getLeafOrder(node.children[1])];
+}
@@ -0,0 +1,265 @@
+import { DependencyEdge, ImplicationRule, MarketNode, ProcessedEvent } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The implied market may trade this far below the implying one before it counts as a violation
+export const IMPLICATION_TOLERANCE = 0.01;
+
+export interface Implication {
+    antecedentId: string; // YES here forces YES on the consequent
+    consequentId: string;
+    rule: ImplicationRule;
+}
+
+// ============================================
+// Question Templates
+// ============================================
+
+// Words right before a number that say which way a threshold is crossed
+const UP_WORDS = new Set(['above', 'over', 'exceed', 'exceeds', 'surpass', 'reach', 'reaches', 'least', 'more', 'greater', 'higher', '>', '>=', '≥']);
+const DOWN_WORDS = new Set(['below', 'under', 'less', 'fewer', 'lower', 'dip', 'dips', 'fall', 'falls', 'drop', 'drops', '<', '<=', '≤']);
+const NEGATIONS = new Set(['not', 'no', "won't", "doesn't", "isn't", 'never']);
+const DEADLINE_WORDS = new Set(['by', 'before']);
+const MONTHS = /^(jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\.?$/;
+
+function tokenize(question: string): string[] {
+    return question
+        .toLowerCase()
+        .split(/\s+/)
+        .map((token) => token.replace(/^["'(]+|["'),.?!:;]+$/g, ''))
+        .filter(Boolean);
+}
+
+/**
+ * Numeric value of a threshold token like "$100k", "2,500", "3.5%" or "10+".
+ */
+function parseThreshold(token: string): { value: number; atLeast: boolean } | null {
+    const match = token.match(/^\$?(\d{1,3}(?:,\d{3})+|\d+(?:\.\d+)?)([kmb])?(%|\+)?$/);
+    if (!match) return null;
+    const multiplier = { k: 1e3, m: 1e6, b: 1e9 }[match[2] as 'k' | 'm' | 'b'] || 1;
+    return { value: Number(match[1].replace(/,/g, '')) * multiplier, atLeast: match[3] === '+' };
+}
+
+function isDateLike(tokens: string[]): boolean {
+    return tokens.some((t) => MONTHS.test(t) || /^(19|20)\d{2}$/.test(t) || /^q[1-4]$/.test(t));
+}
+
+/**
+ * Split two questions into their shared prefix/suffix and the differing slots.
+ */
+function alignTemplates(a: string[], b: string[]) {
+    const shortest = Math.min(a.length, b.length);
+    let prefix = 0;
+    while (prefix < shortest && a[prefix] === b[prefix]) prefix++;
+    let suffix = 0;
+    while (suffix < shortest - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+    return {
+        prefix: a.slice(0, prefix),
+        suffix: a.slice(a.length - suffix),
+        slotA: a.slice(prefix, a.length - suffix),
+        slotB: b.slice(prefix, b.length - suffix),
+    };
+}
+
+function getEndTime(endDate: string | undefined): number | null {
+    if (!endDate) return null;
+    const time = new Date(endDate).getTime();
+    return Number.isNaN(time) ? null : time;
+}
+
+// ============================================
+// Detection
+// ============================================
+
+/**
+ * Detect whether YES on one market logically forces YES on the other:
+ * - threshold: "BTC above $120k" ⇒ "BTC above $100k" (direction from the words before the number)
+ * - deadline: "X by June" ⇒ "X by December" (ordered by resolution date)
+ * - margin: "X wins by 10+ points" ⇒ "X wins"
+ * Only binary markets qualify; questions must otherwise read the same.
+ */
+export function detectImplication(
+    a: MarketNode,
+    b: MarketNode,
+    endDateA?: string,
+    endDateB?: string
+): Implication | null {
+    if (a.isMultiChoice || b.isMultiChoice) return null;
+    return detectFromTokens(a, b, tokenize(a.question), tokenize(b.question), endDateA, endDateB);
+}
+
+function detectFromTokens(
+    a: MarketNode,
+    b: MarketNode,
+    tokensA: string[],
+    tokensB: string[],
+    endDateA?: string,
+    endDateB?: string
+): Implication | null {
+    const { prefix, suffix, slotA, slotB } = alignTemplates(tokensA, tokensB);
+    if (slotA.length === 0 && slotB.length === 0) return null;
+    if ([...slotA, ...slotB].some((t) => NEGATIONS.has(t))) return null;
+
+    const implies = (aFirst: boolean, rule: ImplicationRule): Implication => ({
+        antecedentId: aFirst ? a.id : b.id,
+        consequentId: aFirst ? b.id : a.id,
+        rule,
+    });
+
+    // Margin: one question is the other plus "by <number>..."
+    if (slotA.length === 0 || slotB.length === 0) {
+        const extra = slotA.length > 0 ? slotA : slotB;
+        const isMargin =
+            extra[0] === 'by' && extra.slice(1, 4).some((t) => parseThreshold(t) !== null);
+        return isMargin ? implies(slotA.length > 0, 'margin') : null;
+    }
+
+    // Threshold: a single differing number
+    if (slotA.length === 1 && slotB.length === 1) {
+        const thresholdA = parseThreshold(slotA[0]);
+        const thresholdB = parseThreshold(slotB[0]);
+        if (thresholdA && thresholdB && thresholdA.value !== thresholdB.value) {
+            const context = [...prefix.slice(-2), ...suffix.slice(0, 2)];
+            const up =
+                (thresholdA.atLeast && thresholdB.atLeast) ||
+                context.some((t) => UP_WORDS.has(t)) ||
+                (suffix[0] === 'or' && ['more', 'higher', 'above'].includes(suffix[1]));
+            const down =
+                context.some((t) => DOWN_WORDS.has(t)) ||
+                (suffix[0] === 'or' && ['less', 'fewer', 'lower', 'below'].includes(suffix[1]));
+            if (up === down) return null; // No direction, or contradictory words
+            return implies(up ? thresholdA.value > thresholdB.value : thresholdA.value < thresholdB.value, 'threshold');
+        }
+    }
+
+    // Deadline: "... by <date>" with the date as the only difference
+    if (slotA.length <= 4 && slotB.length <= 4 && isDateLike(slotA) && isDateLike(slotB)) {
+        const isDeadline =
+            DEADLINE_WORDS.has(prefix[prefix.length - 1]) ||
+            (DEADLINE_WORDS.has(slotA[0]) && slotA[0] === slotB[0]);
+        const timeA = getEndTime(endDateA);
+        const timeB = getEndTime(endDateB);
+        if (isDeadline && timeA !== null && timeB !== null && Math.abs(timeA - timeB) >= DAY_MS) {
+            return implies(timeA < timeB, 'deadline');
+        }
+    }
+
+    return null;
+}
+
+/**
+ * How far the implied market trades below the implying one, or 0 within tolerance.
+ * P(consequent) must be at least P(antecedent).
+ */
+export function getImplicationViolation(antecedentPrice: number, consequentPrice: number): number {
+    const gap = antecedentPrice - consequentPrice;
+    return gap > IMPLICATION_TOLERANCE ? gap : 0;
+}
+
+const RULE_EXPLANATIONS: Record<ImplicationRule, string> = {
+    threshold: 'Crossing the stricter threshold implies crossing the looser one',
+    deadline: 'Happening by the earlier deadline implies happening by the later one',
+    margin: 'Winning by the margin implies winning',
+};
+
+function buildImplicationEdge(source: MarketNode, target: MarketNode, implication: Implication): DependencyEdge {
+    const antecedent = implication.antecedentId === source.id ? source : target;
+    const consequent = antecedent === source ? target : source;
+    const violation = getImplicationViolation(antecedent.outcomeProb, consequent.outcomeProb);
+
+    return {
+        id: `implication-${source.id}-${target.id}`,
+        sourceId: source.id,
+        targetId: target.id,
+        type: 'implication',
+        weight: violation > 0 ? 1 : 0.9,
+        antecedentId: antecedent.id,
+        implicationRule: implication.rule,
+        violation: violation > 0 ? violation : undefined,
+        explanation: violation > 0
+            ? `${RULE_EXPLANATIONS[implication.rule]}, yet the implied market trades ${(violation * 100).toFixed(1)}¢ lower`
+            : RULE_EXPLANATIONS[implication.rule],
+    };
+}
+
+/**
+ * Find markets logically nested with the target (either direction).
+ * Violated implications, where the implied market trades below the implying
+ * one, are weighted highest.
+ */
+export function findImplicationDependencies(
+    targetMarketId: string,
+    allMarkets: MarketNode[],
+    events: ProcessedEvent[]
+): DependencyEdge[] {
+    const target = allMarkets.find((m) => m.id === targetMarketId);
+    if (!target) return [];
+
+    const eventEndDates = new Map(events.map((e) => [e.id, e.endDate]));
+    const endDateOf = (market: MarketNode) =>
+        market.endDate || (market.eventId ? eventEndDates.get(market.eventId) : undefined);
+    const targetEndDate = endDateOf(target);
+
+    const edges: DependencyEdge[] = [];
+
+    for (const market of allMarkets) {
+        if (market.id === targetMarketId) continue;
+
+        const implication = detectImplication(target, market, targetEndDate, endDateOf(market));
+        if (!implication) continue;
+
+        edges.push(buildImplicationEdge(target, market, implication));
+    }
+
+    return edges.sort((a, b) => b.weight - a.weight);
+}
+
+/**
+ * Implication edges across a whole market set (global mode). Only questions
+ * sharing their first or last two words are compared, which every template
+ * pair has unless the differing part sits right at one end of a short question.
+ */
+export function findImplicationPairs(allMarkets: MarketNode[], events: ProcessedEvent[]): DependencyEdge[] {
+    const eventEndDates = new Map(events.map((e) => [e.id, e.endDate]));
+    const binary = allMarkets
+        .filter((market) => !market.isMultiChoice)
+        .map((market) => ({
+            market,
+            tokens: tokenize(market.question),
+            endDate: market.endDate || (market.eventId ? eventEndDates.get(market.eventId) : undefined),
+        }));
+
+    const headOf = (tokens: string[]) => tokens.slice(0, 2).join(' ');
+    const tailOf = (tokens: string[]) => tokens.slice(-2).join(' ');
+    const groupBy = (keyOf: (tokens: string[]) => string) => {
+        const groups = new Map<string, typeof binary>();
+        for (const entry of binary) {
+            const key = keyOf(entry.tokens);
+            if (!groups.has(key)) groups.set(key, []);
+            groups.get(key)!.push(entry);
+        }
+        return groups.values();
+    };
+
+    const edges: DependencyEdge[] = [];
+    const compareWithin = (groups: Iterable<typeof binary>, skip?: (a: string[], b: string[]) => boolean) => {
+        for (const group of groups) {
+            for (let i = 0; i < group.length; i++) {
+                for (let j = i + 1; j < group.length; j++) {
+                    const a = group[i];
+                    const b = group[j];
+                    if (skip?.(a.tokens, b.tokens)) continue;
+                    const implication = detectFromTokens(a.market, b.market, a.tokens, b.tokens, a.endDate, b.endDate);
+                    if (implication) edges.push(buildImplicationEdge(a.market, b.market, implication));
+                }
+            }
+        }
+    };
+
+    compareWithin(groupBy(headOf));
+    // Pairs sharing both ends were already compared
+    compareWithin(groupBy(tailOf), (a, b) => headOf(a) === headOf(b));
+
+    return edges;
+}
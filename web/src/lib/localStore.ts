@@ -0,0 +1,92 @@
+// ============================================
+// localStorage-backed Stores
+// ============================================
+//
+// Small external stores for useSyncExternalStore. Values are parsed once and
+// cached so snapshots stay referentially stable between reads, and changes
+// made in other tabs are picked up through the `storage` event. When storage
+// can't be written (disabled, quota exceeded) the store keeps working in memory.
+
+export interface LocalStore<T> {
+    get: () => T;
+    getServerSnapshot: () => T;
+    set: (value: T | ((current: T) => T)) => void;
+    subscribe: (listener: () => void) => () => void;
+}
+
+/**
+ * Create a store persisted under `key`. `parse` validates stored data and
+ * returns null to fall back to `defaultValue` (e.g. after a schema change).
+ */
+export function createLocalStore<T>(
+    key: string,
+    defaultValue: T,
+    parse: (raw: unknown) => T | null
+): LocalStore<T> {
+    let cached: { raw: string | null; value: T } | null = null;
+    // While set, the last write only reached memory and `cached` wins over storage
+    let persistFailed = false;
+    const listeners = new Set<() => void>();
+
+    function read(): T {
+        if (typeof window === 'undefined') return defaultValue;
+        if (persistFailed && cached) return cached.value;
+
+        let raw: string | null = null;
+        try {
+            raw = window.localStorage.getItem(key);
+        } catch {
+            // Storage disabled (e.g. privacy mode)
+        }
+
+        if (cached && cached.raw === raw) return cached.value;
+
+        let value = defaultValue;
+        if (raw !== null) {
+            try {
+                value = parse(JSON.parse(raw)) ?? defaultValue;
+            } catch {
+                value = defaultValue;
+            }
+        }
+
+        cached = { raw, value };
+        return value;
+    }
+
+    function emit() {
+        for (const listener of listeners) listener();
+    }
+
+    function handleStorage(event: StorageEvent) {
+        if (event.key !== key) return;
+        persistFailed = false; // Another tab's write is newer than ours
+        emit();
+    }
+
+    return {
+        get: read,
+        getServerSnapshot: () => defaultValue,
+        set: (next) => {
+            const value = typeof next === 'function' ? (next as (current: T) => T)(read()) : next;
+            const raw = JSON.stringify(value);
+            try {
+                window.localStorage.setItem(key, raw);
+                persistFailed = false;
+            } catch (error) {
+                console.warn(`Failed to persist ${key}:`, (error as Error).message);
+                persistFailed = true;
+            }
+            cached = { raw, value };
+            emit();
+        },
+        subscribe: (listener) => {
+            listeners.add(listener);
+            if (listeners.size === 1) window.addEventListener('storage', handleStorage);
+            return () => {
+                listeners.delete(listener);
+                if (listeners.size === 0) window.removeEventListener('storage', handleStorage);
+            };
+        },
+    };
+}
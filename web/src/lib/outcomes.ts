@@ -0,0 +1,108 @@
+import { MarketNode } from './types';
+
+// ============================================
+// Outcome Parsing
+// ============================================
+
+export interface ParsedOutcomes {
+    outcomes: string[];
+    outcomePrices: number[]; // Aligned with outcomes, 0-1
+    outcomeProb: number; // YES price for binary markets, leading price for multi-choice
+    isMultiChoice: boolean;
+}
+
+/**
+ * Parse a JSON string array field from the Gamma API.
+ * Gamma encodes arrays as strings (e.g. '["Yes","No"]'), but some payloads
+ * already contain real arrays, so both are accepted.
+ */
+function parseJsonArray(raw: unknown): unknown[] {
+    if (Array.isArray(raw)) return raw;
+    if (typeof raw !== 'string' || raw.length === 0) return [];
+    try {
+        const parsed = JSON.parse(raw);
+        return Array.isArray(parsed) ? parsed : [];
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Parse and normalize the outcomes of a raw market.
+ *
+ * Binary markets keep the raw YES price. Multi-outcome markets have their
+ * prices rescaled to sum to 1 (quoted prices often drift a few percent off)
+ * and use the leading outcome's price as `outcomeProb`.
+ * Returns null when the market has fewer than two outcomes.
+ */
+export function parseOutcomes(rawOutcomes: unknown, rawPrices: unknown): ParsedOutcomes | null {
+    const outcomes = parseJsonArray(rawOutcomes).map((o) => String(o));
+    if (outcomes.length < 2) return null;
+
+    const rawPriceValues = parseJsonArray(rawPrices);
+    let outcomePrices = outcomes.map((_, i) => {
+        const price = Number(rawPriceValues[i]);
+        return Number.isFinite(price) ? Math.min(Math.max(price, 0), 1) : 0;
+    });
+
+    const isMultiChoice = outcomes.length > 2;
+
+    if (isMultiChoice) {
+        const total = outcomePrices.reduce((sum, p) => sum + p, 0);
+        if (total > 0) {
+            outcomePrices = outcomePrices.map((p) => p / total);
+        }
+    }
+
+    const outcomeProb = isMultiChoice ? Math.max(...outcomePrices) : outcomePrices[0];
+
+    return { outcomes, outcomePrices, outcomeProb, isMultiChoice };
+}
+
+function getLeadingIndex(market: MarketNode): number {
+    if (!market.isMultiChoice || !market.outcomePrices) return 0;
+
+    let leadingIndex = 0;
+    for (let i = 1; i < market.outcomePrices.length; i++) {
+        if (market.outcomePrices[i] > market.outcomePrices[leadingIndex]) {
+            leadingIndex = i;
+        }
+    }
+    return leadingIndex;
+}
+
+/**
+ * Get the leading outcome of a market.
+ * Binary markets always report their first ("Yes") outcome and YES price.
+ */
+export function getLeadingOutcome(market: MarketNode): { name: string; prob: number } {
+    if (!market.isMultiChoice || !market.outcomes || !market.outcomePrices) {
+        return { name: market.outcomes?.[0] || 'Yes', prob: market.outcomeProb };
+    }
+
+    const leadingIndex = getLeadingIndex(market);
+    return {
+        name: market.outcomes[leadingIndex],
+        prob: market.outcomePrices[leadingIndex],
+    };
+}
+
+/**
+ * CLOB token that tracks `outcomeProb`: the YES token for binary markets,
+ * the leading outcome's token for multi-choice markets.
+ */
+export function getPrimaryTokenId(market: MarketNode): string | undefined {
+    if (!market.clobTokenIds || market.clobTokenIds.length === 0) return undefined;
+    return market.clobTokenIds[getLeadingIndex(market)] || market.clobTokenIds[0];
+}
+
+/**
+ * Outcomes of a market sorted by probability (highest first).
+ */
+export function getSortedOutcomes(market: MarketNode): Array<{ name: string; prob: number }> {
+    if (!market.outcomes || !market.outcomePrices) return [];
+
+    return market.outcomes
+        .map((name, i) => ({ name, prob: market.outcomePrices![i] || 0 }))
+        .sort((a, b) => b.prob - a.prob);
+}
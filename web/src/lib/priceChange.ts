@@ -0,0 +1,152 @@
+import {
+    Category,
+    MarketNode,
+    PriceChangeSummary,
+    PriceHistoryPoint,
+    ProcessedEvent,
+    TimeWindow,
+    ViewLevel,
+} from './types';
+
+// ============================================
+// Price Change Aggregation
+// ============================================
+
+// Aggregate levels sample the biggest markets instead of fetching every history
+const SAMPLE_MARKETS_PER_EVENT = 3;
+const SAMPLE_EVENTS_PER_CATEGORY = 5;
+const SAMPLE_EVENTS_PER_LEVEL = 25; // Event level: only the largest tiles get a color
+
+// Change (as a probability fraction) at which the color scale saturates
+export const CHANGE_SATURATION: Record<TimeWindow, number> = {
+    '1h': 0.05,
+    '24h': 0.1,
+    '7d': 0.2,
+    '30d': 0.3,
+    'max': 0.5,
+    'custom': 0.2,
+};
+
+/**
+ * Change between the first and last point of a history, or null if too short.
+ */
+export function computePriceChange(history: PriceHistoryPoint[]): number | null {
+    if (history.length < 2) return null;
+    return history[history.length - 1].price - history[0].price;
+}
+
+function topByVolume<T>(items: T[], count: number, getVolume: (item: T) => number): T[] {
+    return [...items].sort((a, b) => getVolume(b) - getVolume(a)).slice(0, count);
+}
+
+function sampleEventMarkets(event: ProcessedEvent): MarketNode[] {
+    return topByVolume(event.markets, SAMPLE_MARKETS_PER_EVENT, (m) => m.volume);
+}
+
+function sampleCategoryMarkets(category: Category): MarketNode[] {
+    return topByVolume(category.events, SAMPLE_EVENTS_PER_CATEGORY, (e) => e.volumeTotal)
+        .flatMap(sampleEventMarkets);
+}
+
+/**
+ * Events whose tiles are colored at event level: those the treemap draws
+ * (at least `minVolume`), largest first, capped.
+ */
+function sampleLevelEvents(events: ProcessedEvent[], minVolume: number): ProcessedEvent[] {
+    return topByVolume(
+        events.filter((e) => e.volumeTotal >= minVolume),
+        SAMPLE_EVENTS_PER_LEVEL,
+        (e) => e.volumeTotal
+    );
+}
+
+/**
+ * Markets whose price history is needed to color the given treemap level.
+ * `minVolume` is the treemap's own filter; hidden tiles are not sampled.
+ */
+export function getChangeSampleMarkets(
+    level: ViewLevel,
+    data: Category[] | ProcessedEvent[] | MarketNode[],
+    minVolume: number = 0
+): MarketNode[] {
+    switch (level) {
+        case 'category':
+            return (data as Category[]).flatMap(sampleCategoryMarkets);
+        case 'event':
+            return sampleLevelEvents(data as ProcessedEvent[], minVolume).flatMap(sampleEventMarkets);
+        case 'market':
+            return (data as MarketNode[]).filter((m) => m.volume >= minVolume);
+        default:
+            return [];
+    }
+}
+
+/**
+ * Volume-weighted summary of market changes. Returns null when no market has history.
+ */
+export function summarizeChanges(
+    markets: MarketNode[],
+    marketChanges: Map<string, number>
+): PriceChangeSummary | null {
+    let weightTotal = 0;
+    let netTotal = 0;
+    let magnitudeTotal = 0;
+    let sampleCount = 0;
+
+    for (const market of markets) {
+        const change = marketChanges.get(market.id);
+        if (change === undefined) continue;
+
+        // Floor the weight so zero-volume markets still count
+        const weight = Math.max(market.volume, 1);
+        weightTotal += weight;
+        netTotal += change * weight;
+        magnitudeTotal += Math.abs(change) * weight;
+        sampleCount++;
+    }
+
+    if (sampleCount === 0) return null;
+
+    return {
+        change: netTotal / weightTotal,
+        magnitude: magnitudeTotal / weightTotal,
+        sampleCount,
+    };
+}
+
+/**
+ * Per-node change summaries for a treemap level, keyed by node id.
+ * Events outside the sample get no summary ("no data").
+ */
+export function summarizeLevelChanges(
+    level: ViewLevel,
+    data: Category[] | ProcessedEvent[] | MarketNode[],
+    marketChanges: Map<string, number>,
+    minVolume: number = 0
+): Map<string, PriceChangeSummary> {
+    const summaries = new Map<string, PriceChangeSummary>();
+
+    const add = (id: string, summary: PriceChangeSummary | null) => {
+        if (summary) summaries.set(id, summary);
+    };
+
+    switch (level) {
+        case 'category':
+            for (const category of data as Category[]) {
+                add(category.id, summarizeChanges(sampleCategoryMarkets(category), marketChanges));
+            }
+            break;
+        case 'event':
+            for (const event of sampleLevelEvents(data as ProcessedEvent[], minVolume)) {
+                add(event.id, summarizeChanges(sampleEventMarkets(event), marketChanges));
+            }
+            break;
+        case 'market':
+            for (const market of data as MarketNode[]) {
+                add(market.id, summarizeChanges([market], marketChanges));
+            }
+            break;
+    }
+
+    return summaries;
+}
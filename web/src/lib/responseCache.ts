@@ -0,0 +1,151 @@
+// ============================================
+// Server-side Response Cache
+// ============================================
+//
+// Shared in-process cache for the API proxy routes. Every open tab polls the
+// proxy, so without this each poll becomes its own upstream request. Entries
+// are served fresh for `ttlMs`, then served stale for up to `staleMs` while a
+// single background request refreshes them. Concurrent misses for the same key
+// share one in-flight upstream fetch.
+
+export interface CachePolicy {
+    ttlMs: number; // Serve from cache without revalidating
+    staleMs: number; // Extra window where stale data is served while revalidating
+}
+
+export type CacheStatus = 'HIT' | 'MISS' | 'STALE' | 'COALESCED';
+
+export interface CacheResult<T> {
+    data: T;
+    status: CacheStatus;
+    ageMs: number;
+}
+
+interface CacheEntry {
+    data: unknown;
+    storedAt: number;
+}
+
+/**
+ * Error raised when the upstream API responds with a non-2xx status.
+ * Routes use `status` to mirror the upstream failure to the client.
+ */
+export class UpstreamError extends Error {
+    status: number;
+    details?: string;
+
+    constructor(message: string, status: number, details?: string) {
+        super(message);
+        this.name = 'UpstreamError';
+        this.status = status;
+        this.details = details;
+    }
+}
+
+const MAX_ENTRIES = 500;
+
+const entries = new Map<string, CacheEntry>();
+const inFlight = new Map<string, Promise<unknown>>();
+
+function store(key: string, data: unknown) {
+    // Re-insert so Map iteration order tracks recency
+    entries.delete(key);
+    entries.set(key, { data, storedAt: Date.now() });
+
+    while (entries.size > MAX_ENTRIES) {
+        const oldestKey = entries.keys().next().value;
+        if (oldestKey === undefined) break;
+        entries.delete(oldestKey);
+    }
+}
+
+function startFetch<T>(key: string, load: () => Promise<T>): Promise<T> {
+    const promise = load()
+        .then((data) => {
+            store(key, data);
+            return data;
+        })
+        .finally(() => {
+            inFlight.delete(key);
+        });
+
+    inFlight.set(key, promise);
+    return promise;
+}
+
+/**
+ * Build a cache key from a route name and its query params.
+ * Params are sorted so equivalent queries share an entry.
+ */
+export function buildCacheKey(route: string, params: URLSearchParams): string {
+    const sorted = new URLSearchParams(params);
+    sorted.sort();
+    return `${route}?${sorted.toString()}`;
+}
+
+/**
+ * Return cached data for `key`, loading it with `load` when needed.
+ * Failed loads are never cached; the error propagates to every waiting caller.
+ */
+export async function getCached<T>(
+    key: string,
+    load: () => Promise<T>,
+    policy: CachePolicy
+): Promise<CacheResult<T>> {
+    const entry = entries.get(key);
+    const now = Date.now();
+
+    if (entry) {
+        const ageMs = now - entry.storedAt;
+
+        if (ageMs < policy.ttlMs) {
+            return { data: entry.data as T, status: 'HIT', ageMs };
+        }
+
+        if (ageMs < policy.ttlMs + policy.staleMs) {
+            if (!inFlight.has(key)) {
+                startFetch(key, load).catch((error) => {
+                    console.warn(`Background revalidation failed for ${key}:`, (error as Error).message);
+                });
+            }
+            return { data: entry.data as T, status: 'STALE', ageMs };
+        }
+    }
+
+    const pending = inFlight.get(key);
+    if (pending) {
+        const data = (await pending) as T;
+        return { data, status: 'COALESCED', ageMs: 0 };
+    }
+
+    const data = await startFetch(key, load);
+    return { data, status: 'MISS', ageMs: 0 };
+}
+
+/**
+ * Fetch JSON from an upstream API, raising UpstreamError on non-2xx responses.
+ */
+export async function fetchUpstreamJson<T = unknown>(url: string, init?: RequestInit): Promise<T> {
+    const res = await fetch(url, init);
+
+    if (!res.ok) {
+        const details = await res.text().catch(() => '');
+        throw new UpstreamError(res.statusText, res.status, details);
+    }
+
+    return res.json() as Promise<T>;
+}
+
+/**
+ * Response headers describing how a cached response was served.
+ */
+export function cacheHeaders(result: CacheResult<unknown>, policy: CachePolicy): Record<string, string> {
+    const ttlSeconds = Math.floor(policy.ttlMs / 1000);
+    const staleSeconds = Math.floor(policy.staleMs / 1000);
+
+    return {
+        'X-Cache': result.status,
+        'Age': String(Math.floor(result.ageMs / 1000)),
+        'Cache-Control': `public, max-age=0, s-maxage=${ttlSeconds}, stale-while-revalidate=${staleSeconds}`,
+    };
+}
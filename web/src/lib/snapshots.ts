@@ -0,0 +1,169 @@
+import { ProcessedEvent } from './types';
+
+// ============================================
+// Snapshot Storage (IndexedDB)
+// ============================================
+
+export interface SnapshotMeta {
+    id: number; // Capture time (Unix ms), doubles as the key
+    eventCount: number;
+    marketCount: number;
+    volumeTotal: number;
+}
+
+interface SnapshotRecord {
+    id: number;
+    events: ProcessedEvent[];
+}
+
+const DB_NAME = 'pmv-snapshots';
+const DB_VERSION = 1;
+const META_STORE = 'meta';
+const DATA_STORE = 'data';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// Tiered retention: every poll for the last hour, then progressively sparser.
+// Each tier keeps at most one snapshot per bucket of `spacingMs`.
+const RETENTION_TIERS: Array<{ maxAgeMs: number; spacingMs: number }> = [
+    { maxAgeMs: HOUR_MS, spacingMs: 0 },
+    { maxAgeMs: DAY_MS, spacingMs: 15 * MINUTE_MS },
+    { maxAgeMs: 7 * DAY_MS, spacingMs: 2 * HOUR_MS },
+];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+}
+
+function openDb(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(META_STORE)) {
+                    db.createObjectStore(META_STORE, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(DATA_STORE)) {
+                    db.createObjectStore(DATA_STORE, { keyPath: 'id' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+}
+
+/**
+ * Pick the snapshot IDs that fall outside the retention tiers.
+ * `metas` must be sorted newest first.
+ */
+function selectExpired(metas: SnapshotMeta[], now: number): number[] {
+    const expired: number[] = [];
+    const keptBuckets = new Set<string>();
+
+    for (const meta of metas) {
+        const age = now - meta.id;
+        const tierIndex = RETENTION_TIERS.findIndex((tier) => age <= tier.maxAgeMs);
+
+        if (tierIndex === -1) {
+            expired.push(meta.id);
+            continue;
+        }
+
+        const { spacingMs } = RETENTION_TIERS[tierIndex];
+        if (spacingMs === 0) continue;
+
+        const bucket = `${tierIndex}-${Math.floor(meta.id / spacingMs)}`;
+        if (keptBuckets.has(bucket)) {
+            expired.push(meta.id);
+        } else {
+            keptBuckets.add(bucket);
+        }
+    }
+
+    return expired;
+}
+
+/**
+ * List stored snapshots, oldest first.
+ */
+export async function listSnapshots(): Promise<SnapshotMeta[]> {
+    if (!isSupported()) return [];
+
+    const db = await openDb();
+    const tx = db.transaction(META_STORE, 'readonly');
+    const metas = await requestToPromise(tx.objectStore(META_STORE).getAll() as IDBRequest<SnapshotMeta[]>);
+    return metas.sort((a, b) => a.id - b.id);
+}
+
+/**
+ * Load the events captured in a snapshot, or null if it no longer exists.
+ */
+export async function loadSnapshot(id: number): Promise<ProcessedEvent[] | null> {
+    if (!isSupported()) return null;
+
+    const db = await openDb();
+    const tx = db.transaction(DATA_STORE, 'readonly');
+    const record = await requestToPromise(
+        tx.objectStore(DATA_STORE).get(id) as IDBRequest<SnapshotRecord | undefined>
+    );
+    return record?.events || null;
+}
+
+/**
+ * Persist a poll of events and prune snapshots outside the retention tiers.
+ */
+export async function recordSnapshot(events: ProcessedEvent[]): Promise<SnapshotMeta | null> {
+    if (!isSupported() || events.length === 0) return null;
+
+    const now = Date.now();
+    const meta: SnapshotMeta = {
+        id: now,
+        eventCount: events.length,
+        marketCount: events.reduce((sum, e) => sum + e.markets.length, 0),
+        volumeTotal: events.reduce((sum, e) => sum + e.volumeTotal, 0),
+    };
+
+    const db = await openDb();
+    const existing = await listSnapshots();
+    const expired = selectExpired([meta, ...existing].sort((a, b) => b.id - a.id), now);
+
+    const tx = db.transaction([META_STORE, DATA_STORE], 'readwrite');
+    const metaStore = tx.objectStore(META_STORE);
+    const dataStore = tx.objectStore(DATA_STORE);
+
+    metaStore.put(meta);
+    dataStore.put({ id: now, events } satisfies SnapshotRecord);
+
+    for (const id of expired) {
+        metaStore.delete(id);
+        dataStore.delete(id);
+    }
+
+    await transactionDone(tx);
+    return meta;
+}
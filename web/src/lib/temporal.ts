@@ -86,6 +86,29 @@ function getMarketEndDate(
     return event?.endDate;
 }
 
+function buildTemporalEdge(
+    sourceId: string,
+    targetId: string,
+    proximity: TemporalProximity,
+    maxDaysDiff: number
+): DependencyEdge {
+    // Weight: closer = higher weight (inverse of days diff)
+    // Markets resolving on same day get weight 1.0
+    // Weight decreases linearly to 0 at maxDaysDiff
+    const weight = 1 - (proximity.daysDiff / maxDaysDiff);
+
+    return {
+        id: `temporal-${sourceId}-${targetId}`,
+        sourceId,
+        targetId,
+        type: 'temporal',
+        weight,
+        daysDiff: proximity.daysDiff,
+        precedence: proximity.precedence,
+        explanation: formatTemporalExplanation(proximity),
+    };
+}
+
 /**
  * Find markets with similar resolution timing.
  * Markets that resolve close together may be correlated or have causal relationships.
@@ -109,29 +132,52 @@ export function findTemporalDependencies(
 
         if (!proximity || proximity.daysDiff > options.maxDaysDiff) continue;
 
-        // Weight: closer = higher weight (inverse of days diff)
-        // Markets resolving on same day get weight 1.0
-        // Weight decreases linearly to 0 at maxDaysDiff
-        const weight = 1 - (proximity.daysDiff / options.maxDaysDiff);
-
-        const explanation = formatTemporalExplanation(proximity);
-
-        edges.push({
-            id: `temporal-${targetMarketId}-${market.id}`,
-            sourceId: targetMarketId,
-            targetId: market.id,
-            type: 'temporal',
-            weight,
-            daysDiff: proximity.daysDiff,
-            precedence: proximity.precedence,
-            explanation,
-        });
+        edges.push(buildTemporalEdge(targetMarketId, market.id, proximity, options.maxDaysDiff));
     }
 
     // Sort by weight (closest resolution dates first)
     return edges.sort((a, b) => b.weight - a.weight);
 }
 
+/**
+ * Temporal edges across a whole market set (global mode): each market is
+ * linked to up to `maxPerMarket` markets resolving nearest to it, within
+ * `maxDaysDiff`. Walking the markets in end-date order avoids comparing every pair.
+ */
+export function findTemporalNeighbours(
+    allMarkets: MarketNode[],
+    events: ProcessedEvent[],
+    options: { maxDaysDiff: number; maxPerMarket: number }
+): DependencyEdge[] {
+    const eventEndDates = new Map(events.map((e) => [e.id, e.endDate]));
+    const dated = allMarkets
+        .flatMap((market) => {
+            const endDate = market.endDate || (market.eventId ? eventEndDates.get(market.eventId) : undefined);
+            const time = endDate ? new Date(endDate).getTime() : NaN;
+            return isNaN(time) ? [] : [{ market, endDate: endDate!, time }];
+        })
+        .sort((a, b) => a.time - b.time);
+
+    const edges: DependencyEdge[] = [];
+
+    dated.forEach((entry, i) => {
+        // Step outwards from the market, always to the nearer side
+        let before = i - 1;
+        let after = i + 1;
+        for (let taken = 0; taken < options.maxPerMarket; taken++) {
+            const gapBefore = before >= 0 ? entry.time - dated[before].time : Infinity;
+            const gapAfter = after < dated.length ? dated[after].time - entry.time : Infinity;
+            if (Math.min(gapBefore, gapAfter) > options.maxDaysDiff * DAY_MS) break;
+
+            const neighbour = gapBefore <= gapAfter ? dated[before--] : dated[after++];
+            const proximity = computeTemporalProximity(entry.endDate, neighbour.endDate)!;
+            edges.push(buildTemporalEdge(entry.market.id, neighbour.market.id, proximity, options.maxDaysDiff));
+        }
+    });
+
+    return edges;
+}
+
 /**
  * Group markets by resolution date (within a tolerance).
  * Useful for finding clusters of markets that resolve together.
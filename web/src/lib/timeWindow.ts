@@ -0,0 +1,109 @@
+import { TimeRange, TimeWindow } from './types';
+
+// ============================================
+// Time Windows
+// ============================================
+//
+// Presets map to CLOB `interval` values; 'custom' uses an explicit
+// start/end range (CLOB `startTs`/`endTs`). Fidelity is picked so a
+// history stays around MAX_POINTS points whatever the span.
+
+export const PRESET_WINDOWS: Array<{ id: Exclude<TimeWindow, 'custom'>; label: string }> = [
+    { id: '1h', label: '1H' },
+    { id: '24h', label: '24H' },
+    { id: '7d', label: '7D' },
+    { id: '30d', label: '30D' },
+    { id: 'max', label: 'Max' },
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const WINDOW_SPAN_MS: Record<Exclude<TimeWindow, 'max' | 'custom'>, number> = {
+    '1h': HOUR_MS,
+    '24h': DAY_MS,
+    '7d': 7 * DAY_MS,
+    '30d': 30 * DAY_MS,
+};
+
+const API_INTERVALS: Record<Exclude<TimeWindow, 'custom'>, string> = {
+    '1h': '1h',
+    '24h': '1d',
+    '7d': '1w',
+    '30d': '1m',
+    'max': 'max',
+};
+
+const MAX_POINTS = 200;
+const FIDELITY_STEPS = [1, 5, 15, 30, 60, 180, 360, 720, 1440]; // minutes
+const MAX_WINDOW_FIDELITY = 1440; // 'max' spans a market's whole life: daily points
+
+/** CLOB prices-history query for a window. Timestamps in seconds, fidelity in minutes. */
+export interface PriceHistoryQuery {
+    interval?: string;
+    startTs?: number;
+    endTs?: number;
+    fidelity: number;
+}
+
+/**
+ * Smallest standard fidelity that keeps `spanMs` under MAX_POINTS points.
+ */
+export function chooseFidelity(spanMs: number): number {
+    const minutes = spanMs / 60000 / MAX_POINTS;
+    return FIDELITY_STEPS.find((step) => step >= minutes) || FIDELITY_STEPS[FIDELITY_STEPS.length - 1];
+}
+
+/**
+ * A usable custom range: finite and ordered.
+ */
+export function isValidRange(range: TimeRange | null | undefined): range is TimeRange {
+    return (
+        !!range &&
+        Number.isFinite(range.start) &&
+        Number.isFinite(range.end) &&
+        range.start < range.end
+    );
+}
+
+/**
+ * Build the CLOB query for a window. A 'custom' window without a valid range
+ * falls back to 24h.
+ */
+export function getPriceHistoryQuery(timeWindow: TimeWindow, range?: TimeRange | null): PriceHistoryQuery {
+    if (timeWindow === 'custom') {
+        if (!isValidRange(range)) return getPriceHistoryQuery('24h');
+        return {
+            startTs: Math.floor(range.start / 1000),
+            endTs: Math.floor(range.end / 1000),
+            fidelity: chooseFidelity(range.end - range.start),
+        };
+    }
+
+    return {
+        interval: API_INTERVALS[timeWindow],
+        fidelity:
+            timeWindow === 'max' ? MAX_WINDOW_FIDELITY : chooseFidelity(WINDOW_SPAN_MS[timeWindow]),
+    };
+}
+
+/**
+ * Stable identifier for a window (and range), for cache keys.
+ */
+export function getTimeWindowKey(timeWindow: TimeWindow, range?: TimeRange | null): string {
+    return timeWindow === 'custom' && isValidRange(range)
+        ? `custom-${range.start}-${range.end}`
+        : timeWindow;
+}
+
+/**
+ * Short display label, e.g. "24h" or "Mar 3 – Mar 10".
+ */
+export function formatTimeWindow(timeWindow: TimeWindow, range?: TimeRange | null): string {
+    if (timeWindow !== 'custom') return timeWindow;
+    if (!isValidRange(range)) return '24h';
+
+    const format = (ms: number) =>
+        new Date(ms).toLocaleDateString([], { month: 'short', day: 'numeric' });
+    return `${format(range.start)} – ${format(range.end)}`;
+}
@@ -12,6 +12,19 @@ export interface ViewState {
     selectedEventTitle?: string;
 }
 
+// Treemap tile sizing metric
+export type SizeMetric = 'volume' | 'volume24h' | 'liquidity' | 'openInterest' | 'marketCount' | 'equal';
+
+// Treemap tile coloring: volume activity (default) or probability change
+export type HeatMapColorMode = 'activity' | 'change';
+
+/** Probability change of a treemap node over a time window. */
+export interface PriceChangeSummary {
+    change: number; // Net change (volume-weighted for events/categories), -1 to 1
+    magnitude: number; // Volume-weighted mean |change|; equals |change| for markets
+    sampleCount: number; // Markets with history that contributed
+}
+
 // ============================================
 // Category Types
 // ============================================
@@ -22,8 +35,11 @@ export interface Category {
     volumeTotal: number;
     volume24h: number;
     volumeHeat: number; // 0-1 normalized heat metric
+    liquidity: number;
+    openInterest: number;
     confidence: number; // Classification confidence
     eventCount: number;
+    marketCount: number;
     events: ProcessedEvent[];
 }
 
@@ -41,11 +57,14 @@ export interface ProcessedEvent {
     volume24h: number;
     volumeHeat: number; // 0-1 normalized heat metric
     liquidity: number;
+    openInterest: number; // Gamma openInterest, 0 when not reported
     endDate?: string;
     confidence: number; // Classification confidence
     marketCount: number;
     markets: MarketNode[];
     image?: string;
+    negRisk?: boolean; // Markets are mutually exclusive outcomes (exactly one resolves YES)
+    listedMarketCount?: number; // Open markets upstream, including those dropped for having no volume
 }
 
 // Raw API response types
@@ -57,10 +76,12 @@ export interface RawPolymarketEvent {
     volume: string;
     volume24hr?: string;
     liquidity?: string;
+    openInterest?: number | string;
     endDate?: string;
     image?: string;
     active?: boolean;
     closed?: boolean;
+    negRisk?: boolean;
     markets?: RawPolymarketMarket[];
     tags?: Array<{ id: number; label: string; slug: string }>;
     categories?: Array<{ id: number; label: string; slug: string; parentCategory?: string }>;
@@ -105,7 +126,8 @@ export interface MarketNode {
     outcomePrices?: number[]; // [0.45, 0.40, 0.15]
     isMultiChoice?: boolean; // true if outcomes.length > 2
     // CLOB token IDs for price history API
-    clobTokenIds?: string[]; // [YES_token, NO_token]
+    clobTokenIds?: string[]; // One token per outcome, e.g. [YES_token, NO_token]
+    conditionId?: string; // On-chain market id, used by the trades API
 }
 
 export type MarketMapData = {
@@ -155,21 +177,68 @@ export interface GeoEnrichedEvent extends ProcessedEvent {
 // Tab Navigation Types
 // ============================================
 
-export type TabId = 'heatmap' | 'worldmap' | 'dependency';
+export type TabId =
+    | 'heatmap'
+    | 'worldmap'
+    | 'dependency'
+    | 'matrix'
+    | 'inconsistencies'
+    | 'entities'
+    | 'watchlist';
 
 // ============================================
 // Dependency Map Types
 // ============================================
 
-export type DependencyType = 'structural' | 'correlation' | 'entity' | 'temporal';
+// Pearson/Spearman/Kendall on simple returns, or Pearson on log-odds changes ('logit')
+export type CorrelationMethod = 'pearson' | 'spearman' | 'kendall' | 'logit';
 
-export type TimeWindow = '1h' | '24h' | '7d';
+export type DependencyType = 'structural' | 'correlation' | 'entity' | 'temporal' | 'implication';
+
+// How an implication was recognized: stricter threshold, earlier deadline, or winning margin
+export type ImplicationRule = 'threshold' | 'deadline' | 'margin';
+
+export type TimeWindow = '1h' | '24h' | '7d' | '30d' | 'max' | 'custom';
+
+// Explicit range used by the 'custom' time window
+export interface TimeRange {
+    start: number; // Unix ms
+    end: number; // Unix ms
+}
 
 export interface PriceHistoryPoint {
     timestamp: number; // Unix ms
     price: number; // 0-1
 }
 
+export interface OrderBookLevel {
+    price: number; // 0-1
+    size: number; // Shares
+    cumulative: number; // Shares at this price or better
+}
+
+export interface OrderBook {
+    tokenId: string;
+    timestamp: number; // Unix ms
+    bids: OrderBookLevel[]; // Best (highest) first
+    asks: OrderBookLevel[]; // Best (lowest) first
+    bestBid: number | null;
+    bestAsk: number | null;
+    spread: number | null;
+    mid: number | null;
+}
+
+export interface Trade {
+    id: string;
+    tokenId: string;
+    side: 'buy' | 'sell'; // Taker side, relative to tokenId
+    price: number; // 0-1
+    size: number; // Shares
+    notional: number; // USD (price × size)
+    timestamp: number; // Unix ms
+    trader?: string; // Display name or wallet
+}
+
 export interface DependencyEdge {
     id: string; // `${sourceId}-${targetId}`
     sourceId: string;
@@ -179,14 +248,25 @@ export interface DependencyEdge {
     // Correlation-specific
     correlation?: number; // -1 to 1
     timeWindow?: TimeWindow;
+    timeRange?: TimeRange; // When timeWindow is 'custom'
+    lagMs?: number; // Lead/lag offset at which `correlation` was measured (0 = same time)
+    leaderId?: string; // Market whose moves come first, when lagMs > 0
+    pValue?: number; // Two-sided p-value of `correlation`
+    qValue?: number; // Benjamini-Hochberg adjusted p-value across all pairs tested
+    correlationMethod?: CorrelationMethod;
     // Structural-specific
     sharedEventId?: string;
     sharedEventTitle?: string;
+    overround?: number; // Mutually exclusive event: sum of YES prices - 1
     // Entity-specific
     sharedEntities?: string[]; // Names of shared entities
     // Temporal-specific
     daysDiff?: number; // Days between resolution dates
     precedence?: 'before' | 'after' | 'same'; // Target resolves before/after source
+    // Implication-specific
+    antecedentId?: string; // Market whose YES forces YES on the other endpoint
+    implicationRule?: ImplicationRule;
+    violation?: number; // How far the implied market trades below the implying one, when it does
     // For display
     explanation?: string;
 }
@@ -200,10 +280,13 @@ export interface DependencyNode {
     volume: number;
     volume24hr: number;
     outcomeProb: number;
+    leadingOutcome?: string; // Multi-choice markets: outcome behind outcomeProb
     categoryId: string;
     categoryName: string;
     slug: string;
     eventSlug?: string;
+    conditionId?: string;
+    tokenId?: string; // CLOB token behind outcomeProb
     // Graph layout (mutable by d3-force)
     x?: number;
     y?: number;
@@ -213,24 +296,93 @@ export interface DependencyNode {
     fy?: number | null;
     // Visual encoding
     volatility?: number; // 0-1 for border glow
+    hop?: number; // Ego mode: distance from the center market (0 = center)
+    // Global mode
+    communityId?: number; // Louvain community, 0 = largest
+    memberIds?: string[]; // Set on a collapsed community node: the markets it stands for
+}
+
+export interface DependencyCommunity {
+    id: number;
+    label: string; // Most common shared entity, event or category among members
+    nodeIds: string[];
+    volume: number;
 }
 
 export interface DependencyGraph {
     nodes: DependencyNode[];
     edges: DependencyEdge[];
-    centerNodeId: string;
+    centerNodeId: string | null; // null in global mode
+    communities?: DependencyCommunity[]; // Global mode, largest first
 }
 
+// 'ego': star graph around one market; 'global': the whole top-volume universe
+export type DependencyScope = 'ego' | 'global';
+
 export interface DependencyMapFilters {
+    scope: DependencyScope;
+    depth: number; // Ego mode: hops from the center market to explore, 1-3
     correlationThreshold: number; // 0-1, default 0.6
     timeWindow: TimeWindow;
-    dependencyType: 'all' | 'structural' | 'correlation' | 'entity' | 'temporal';
+    customRange: TimeRange | null; // Used when timeWindow is 'custom'
+    maxLag: number; // Lead/lag search range in history points, 0 = off
+    significantOnly: boolean; // Hide correlations not significant after FDR correction
+    correlationMethod: CorrelationMethod;
+    dependencyType: 'all' | DependencyType;
     showCrossEvent: boolean; // false = same event only
-    maxEdges: number; // default 5
+    maxEdges: number; // default 5; first hop in ego mode, per market in global mode
     minSharedEntities: number; // default 1, for entity type
     maxDaysDiff: number; // default 14, for temporal type
 }
 
+// ============================================
+// Change Feed Types (poll-to-poll diffs)
+// ============================================
+
+export type ChangeKind = 'probability' | 'volume-spike' | 'new-market' | 'closed-market';
+
+interface BaseChange {
+    id: string; // `${kind}-${marketId}-${timestamp}`
+    kind: ChangeKind;
+    timestamp: number; // Unix ms of the poll that produced the change
+    marketId: string;
+    eventId: string;
+    eventTitle: string;
+    categoryId: string;
+    question: string;
+}
+
+export interface ProbabilityChange extends BaseChange {
+    kind: 'probability';
+    from: number; // 0-1
+    to: number; // 0-1
+    delta: number; // to - from
+}
+
+export interface VolumeSpikeChange extends BaseChange {
+    kind: 'volume-spike';
+    volumeAdded: number; // Volume traded since the previous poll
+    expectedVolume: number; // Volume expected over the same interval at the 24h rate
+    ratio: number; // volumeAdded / expectedVolume
+}
+
+export interface NewMarketChange extends BaseChange {
+    kind: 'new-market';
+    outcomeProb: number;
+    volume: number;
+}
+
+export interface ClosedMarketChange extends BaseChange {
+    kind: 'closed-market';
+    lastProb: number;
+}
+
+export type ChangeRecord =
+    | ProbabilityChange
+    | VolumeSpikeChange
+    | NewMarketChange
+    | ClosedMarketChange;
+
 // ============================================
 // Panel State Types
 // ============================================
@@ -0,0 +1,55 @@
+import { fetchUpstreamJson } from './responseCache';
+import { getFixtureResponse } from './fixtures';
+
+// ============================================
+// Upstream API Configuration
+// ============================================
+
+export type UpstreamService = 'gamma' | 'clob' | 'data';
+
+const DEFAULT_BASE_URLS: Record<UpstreamService, string> = {
+    gamma: 'https://gamma-api.polymarket.com',
+    clob: 'https://clob.polymarket.com',
+    data: 'https://data-api.polymarket.com',
+};
+
+// Env vars overriding each base URL (e.g. to point at a local stand-in)
+const BASE_URL_ENV: Record<UpstreamService, string> = {
+    gamma: 'GAMMA_API_URL',
+    clob: 'CLOB_API_URL',
+    data: 'DATA_API_URL',
+};
+
+/**
+ * Base URL for an upstream service, without trailing slash.
+ */
+export function getUpstreamBaseUrl(service: UpstreamService): string {
+    const override = process.env[BASE_URL_ENV[service]];
+    return (override || DEFAULT_BASE_URLS[service]).replace(/\/+$/, '');
+}
+
+/**
+ * Offline fixture mode: routes answer from bundled recordings instead of the network.
+ * Enabled with POLYMARKET_FIXTURES=1.
+ */
+export function isFixtureMode(): boolean {
+    const flag = process.env.POLYMARKET_FIXTURES;
+    return flag === '1' || flag === 'true';
+}
+
+/**
+ * Fetch JSON from an upstream service, or from fixtures in offline mode.
+ * Raises UpstreamError on non-2xx responses in both modes.
+ */
+export async function fetchUpstream<T = unknown>(
+    service: UpstreamService,
+    path: string,
+    params: URLSearchParams,
+    init?: RequestInit
+): Promise<T> {
+    if (isFixtureMode()) {
+        return getFixtureResponse(service, path, params) as T;
+    }
+
+    return fetchUpstreamJson<T>(`${getUpstreamBaseUrl(service)}${path}?${params.toString()}`, init);
+}
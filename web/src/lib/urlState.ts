@@ -0,0 +1,254 @@
+import {
+    CorrelationMethod,
+    DependencyMapFilters,
+    DependencyType,
+    HeatMapColorMode,
+    SizeMetric,
+    TabId,
+    TimeRange,
+    TimeWindow,
+} from './types';
+
+// ============================================
+// URL-Addressable App State
+// ============================================
+//
+// Everything needed to reproduce a view lives in the query string, e.g.
+// /?tab=heatmap&cat=politics&event=16023&minVol=500000&size=volume24h
+// Only ids are stored; display names are looked up from live data.
+// Values equal to their defaults are omitted to keep links short.
+
+export interface AppUrlState {
+    tab: TabId;
+    categoryId: string | null; // Heat Map drill-down
+    eventId: string | null; // Heat Map drill-down (requires categoryId)
+    minVolume: number;
+    sizeMetric: SizeMetric;
+    colorMode: HeatMapColorMode;
+    changeWindow: TimeWindow;
+    marketId: string | null; // Dependency Map center
+    entityId: string | null; // Entity explorer detail
+    dependencyFilters: DependencyMapFilters;
+}
+
+export type HistoryMode = 'push' | 'replace';
+
+export const DEFAULT_DEPENDENCY_FILTERS: DependencyMapFilters = {
+    scope: 'ego',
+    depth: 1,
+    correlationThreshold: 0.6,
+    timeWindow: '24h',
+    customRange: null,
+    maxLag: 3,
+    significantOnly: false,
+    correlationMethod: 'pearson',
+    dependencyType: 'all',
+    showCrossEvent: true,
+    maxEdges: 10,
+    minSharedEntities: 1,
+    maxDaysDiff: 14,
+};
+
+export const DEFAULT_URL_STATE: AppUrlState = {
+    tab: 'heatmap',
+    categoryId: null,
+    eventId: null,
+    minVolume: 100000,
+    sizeMetric: 'volume',
+    colorMode: 'activity',
+    changeWindow: '24h',
+    marketId: null,
+    entityId: null,
+    dependencyFilters: DEFAULT_DEPENDENCY_FILTERS,
+};
+
+// ============================================
+// Param Codecs
+// ============================================
+
+interface ParamCodec<T> {
+    key: string;
+    parse: (raw: string) => T | undefined; // undefined = invalid, use default
+    format: (value: T) => string;
+}
+
+function enumParam<T extends string>(key: string, values: readonly T[]): ParamCodec<T> {
+    return {
+        key,
+        parse: (raw) => (values as readonly string[]).includes(raw) ? (raw as T) : undefined,
+        format: (value) => value,
+    };
+}
+
+function numberParam(key: string, min: number, max: number): ParamCodec<number> {
+    return {
+        key,
+        parse: (raw) => {
+            const value = Number(raw);
+            if (raw === '' || !Number.isFinite(value)) return undefined;
+            return Math.min(Math.max(value, min), max);
+        },
+        format: (value) => String(value),
+    };
+}
+
+function booleanParam(key: string): ParamCodec<boolean> {
+    return {
+        key,
+        parse: (raw) => (raw === '1' ? true : raw === '0' ? false : undefined),
+        format: (value) => (value ? '1' : '0'),
+    };
+}
+
+// Encoded as `<startSeconds>-<endSeconds>`
+function rangeParam(key: string): ParamCodec<TimeRange | null> {
+    return {
+        key,
+        parse: (raw) => {
+            const match = /^(\d+)-(\d+)$/.exec(raw);
+            if (!match) return undefined;
+            const start = Number(match[1]) * 1000;
+            const end = Number(match[2]) * 1000;
+            return start < end ? { start, end } : undefined;
+        },
+        format: (value) =>
+            value ? `${Math.floor(value.start / 1000)}-${Math.floor(value.end / 1000)}` : '',
+    };
+}
+
+function stringParam(key: string): ParamCodec<string | null> {
+    return {
+        key,
+        parse: (raw) => raw || undefined,
+        format: (value) => value || '',
+    };
+}
+
+const TABS: readonly TabId[] = [
+    'heatmap',
+    'worldmap',
+    'dependency',
+    'matrix',
+    'inconsistencies',
+    'entities',
+    'watchlist',
+];
+const TIME_WINDOWS: readonly TimeWindow[] = ['1h', '24h', '7d', '30d', 'max', 'custom'];
+const CHANGE_WINDOWS: readonly TimeWindow[] = ['1h', '24h', '7d'];
+const CORRELATION_METHODS: readonly CorrelationMethod[] = ['pearson', 'spearman', 'kendall', 'logit'];
+const DEPENDENCY_TYPES: readonly (DependencyType | 'all')[] = [
+    'all',
+    'structural',
+    'correlation',
+    'entity',
+    'temporal',
+    'implication',
+];
+
+type StateCodecs = {
+    [K in Exclude<keyof AppUrlState, 'dependencyFilters'>]: ParamCodec<AppUrlState[K]>;
+};
+
+type FilterCodecs = {
+    [K in keyof DependencyMapFilters]: ParamCodec<DependencyMapFilters[K]>;
+};
+
+const STATE_CODECS: StateCodecs = {
+    tab: enumParam('tab', TABS),
+    categoryId: stringParam('cat'),
+    eventId: stringParam('event'),
+    minVolume: numberParam('minVol', 0, 1e10),
+    sizeMetric: enumParam('size', [
+        'volume',
+        'volume24h',
+        'liquidity',
+        'openInterest',
+        'marketCount',
+        'equal',
+    ] as const),
+    colorMode: enumParam('color', ['activity', 'change'] as const),
+    changeWindow: enumParam('cwin', CHANGE_WINDOWS),
+    marketId: stringParam('market'),
+    entityId: stringParam('entity'),
+};
+
+const FILTER_CODECS: FilterCodecs = {
+    scope: enumParam('scope', ['ego', 'global'] as const),
+    depth: numberParam('depth', 1, 3),
+    correlationThreshold: numberParam('corr', 0, 1),
+    timeWindow: enumParam('win', TIME_WINDOWS),
+    customRange: rangeParam('range'),
+    maxLag: numberParam('lag', 0, 10),
+    significantOnly: booleanParam('sig'),
+    correlationMethod: enumParam('method', CORRELATION_METHODS),
+    dependencyType: enumParam('type', DEPENDENCY_TYPES),
+    showCrossEvent: booleanParam('cross'),
+    maxEdges: numberParam('edges', 1, 50),
+    minSharedEntities: numberParam('shared', 1, 10),
+    maxDaysDiff: numberParam('days', 0, 365),
+};
+
+// ============================================
+// Parse / Serialize
+// ============================================
+
+function readParams<T extends object>(
+    params: URLSearchParams,
+    codecs: { [K in keyof T]: ParamCodec<T[K]> },
+    defaults: T
+): T {
+    const result = { ...defaults };
+    for (const field of Object.keys(codecs) as Array<keyof T>) {
+        const codec = codecs[field];
+        const raw = params.get(codec.key);
+        if (raw === null) continue;
+        const value = codec.parse(raw);
+        if (value !== undefined) result[field] = value;
+    }
+    return result;
+}
+
+function writeParams<T extends object>(
+    params: URLSearchParams,
+    codecs: { [K in keyof T]: ParamCodec<T[K]> },
+    values: T,
+    defaults: T
+): void {
+    for (const field of Object.keys(codecs) as Array<keyof T>) {
+        const codec = codecs[field];
+        const formatted = codec.format(values[field]);
+        if (formatted !== '' && formatted !== codec.format(defaults[field])) {
+            params.set(codec.key, formatted);
+        }
+    }
+}
+
+/**
+ * Read app state from a query string. Unknown or invalid params fall back to defaults.
+ */
+export function parseUrlState(params: URLSearchParams): AppUrlState {
+    const { dependencyFilters: defaultFilters, ...defaultState } = DEFAULT_URL_STATE;
+    const state = readParams(params, STATE_CODECS, defaultState);
+
+    // An event drill-down is only meaningful inside its category
+    if (!state.categoryId) state.eventId = null;
+
+    return {
+        ...state,
+        dependencyFilters: readParams(params, FILTER_CODECS, defaultFilters),
+    };
+}
+
+/**
+ * Encode app state as a query string (without the leading '?').
+ */
+export function serializeUrlState(state: AppUrlState): string {
+    const { dependencyFilters, ...rest } = state;
+    const { dependencyFilters: defaultFilters, ...defaultState } = DEFAULT_URL_STATE;
+    const params = new URLSearchParams();
+
+    writeParams(params, STATE_CODECS, rest, defaultState);
+    writeParams(params, FILTER_CODECS, dependencyFilters, defaultFilters);
+
+    return params.toString();
+}
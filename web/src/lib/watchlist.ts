@@ -0,0 +1,97 @@
+import { createLocalStore } from './localStore';
+
+// ============================================
+// Watchlist
+// ============================================
+
+export type WatchlistKind = 'market' | 'event';
+
+export interface WatchlistEntry {
+    kind: WatchlistKind;
+    id: string;
+    addedAt: number; // Unix ms
+}
+
+interface WatchlistExport {
+    version: 1;
+    exportedAt: string;
+    entries: WatchlistEntry[];
+}
+
+const STORAGE_KEY = 'pmv-watchlist';
+
+function isEntry(value: unknown): value is WatchlistEntry {
+    if (!value || typeof value !== 'object') return false;
+    const entry = value as Record<string, unknown>;
+    return (
+        (entry.kind === 'market' || entry.kind === 'event') &&
+        typeof entry.id === 'string' &&
+        entry.id.length > 0 &&
+        typeof entry.addedAt === 'number'
+    );
+}
+
+function parseEntries(raw: unknown): WatchlistEntry[] | null {
+    return Array.isArray(raw) ? raw.filter(isEntry) : null;
+}
+
+export const watchlistStore = createLocalStore<WatchlistEntry[]>(STORAGE_KEY, [], parseEntries);
+
+export function isWatched(entries: WatchlistEntry[], kind: WatchlistKind, id: string): boolean {
+    return entries.some((entry) => entry.kind === kind && entry.id === id);
+}
+
+/**
+ * Pin an item, or unpin it if already watched.
+ */
+export function toggleWatch(kind: WatchlistKind, id: string): void {
+    watchlistStore.set((entries) =>
+        isWatched(entries, kind, id)
+            ? entries.filter((entry) => !(entry.kind === kind && entry.id === id))
+            : [...entries, { kind, id, addedAt: Date.now() }]
+    );
+}
+
+/**
+ * Serialize the watchlist for download.
+ */
+export function exportWatchlist(): string {
+    const payload: WatchlistExport = {
+        version: 1,
+        exportedAt: new Date().toISOString(),
+        entries: watchlistStore.get(),
+    };
+    return JSON.stringify(payload, null, 2);
+}
+
+/**
+ * Merge an exported watchlist into the current one.
+ * Accepts the export envelope or a bare entry array; returns the number of new entries.
+ * Throws if the JSON is not a watchlist.
+ */
+export function importWatchlist(json: string): number {
+    const parsed: unknown = JSON.parse(json);
+    const rawEntries = Array.isArray(parsed)
+        ? parsed
+        : (parsed as Partial<WatchlistExport> | null)?.entries;
+
+    if (!Array.isArray(rawEntries)) {
+        throw new Error('Not a watchlist export');
+    }
+
+    const incoming = rawEntries.filter(isEntry);
+    let added = 0;
+
+    watchlistStore.set((entries) => {
+        const merged = [...entries];
+        for (const entry of incoming) {
+            if (!isWatched(merged, entry.kind, entry.id)) {
+                merged.push(entry);
+                added++;
+            }
+        }
+        return merged;
+    });
+
+    return added;
+}